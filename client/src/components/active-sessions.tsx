@@ -0,0 +1,140 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Laptop, Loader2, Smartphone } from "lucide-react";
+
+interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string | null;
+  current: boolean;
+}
+
+// "Chrome on Windows" from a user-agent string; good enough to recognise a device
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\/|Opera/.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os = /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad|iPod/.test(userAgent) ? "iOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X|Macintosh/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : "unknown system";
+
+  return `${browser} on ${os}`;
+}
+
+function isMobile(userAgent: string | null) {
+  return !!userAgent && /Android|iPhone|iPad|iPod|Mobile/.test(userAgent);
+}
+
+// Where the user is signed in, with sign-out for single devices or all of them
+export default function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<UserSession[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  // Ending the current session signs the user out here too
+  const signedOutHere = () => {
+    queryClient.setQueryData(["/api/user"], null);
+    window.location.href = "/auth";
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/user/sessions/${id}`);
+      return await res.json() as { signedOut: boolean };
+    },
+    onSuccess: ({ signedOut }) => {
+      if (signedOut) return signedOutHere();
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: "Session signed out", description: "That device will need to sign in again." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not sign out session", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/user/sessions/logout-all");
+    },
+    onSuccess: signedOutHere,
+    onError: (error: Error) => {
+      toast({ title: "Could not sign out everywhere", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+        <CardDescription>
+          Devices where you're signed in. Sign out any you don't recognise and change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="divide-y">
+            {sessions.map((session) => {
+              const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Laptop;
+              return (
+                <div key={session.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center gap-3">
+                    <DeviceIcon className="h-5 w-5 text-gray-500" />
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        {describeDevice(session.userAgent)}
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {session.ip || "Unknown IP"}
+                        {session.lastSeenAt && ` · Active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(session.id)}
+                  >
+                    Sign out
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          variant="outline"
+          disabled={logoutAllMutation.isPending}
+          onClick={() => logoutAllMutation.mutate()}
+        >
+          {logoutAllMutation.isPending ? "Signing out..." : "Sign Out Everywhere"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
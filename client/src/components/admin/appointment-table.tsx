@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Table,
@@ -22,10 +22,14 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Appointment } from "@shared/schema";
+import { appointmentStatuses, appointmentStatusLabels, getAllowedTransitions, type AppointmentStatus } from "@shared/appointment-status";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission } from "@shared/permissions";
 import { formatDate, formatTime, getInitials } from "@/lib/utils";
+import UserDetailSheet from "./user-detail-sheet";
 import { 
   Filter, 
   Download, 
@@ -68,10 +72,13 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
   const [appointmentToDelete, setAppointmentToDelete] = useState<number | null>(null);
   
   // Define status badge colors
-  const statusColors = {
+  const statusColors: Record<AppointmentStatus, string> = {
     confirmed: "bg-blue-100 text-blue-800",
+    checked_in: "bg-indigo-100 text-indigo-800",
+    in_progress: "bg-amber-100 text-amber-800",
     completed: "bg-green-100 text-green-800",
     cancelled: "bg-red-100 text-red-800",
+    no_show: "bg-gray-200 text-gray-800",
   };
 
   
@@ -92,69 +99,14 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
     gcTime: 0, // Don't cache the data
   });
 
-  useEffect(() => {
-    if (appointments.length > 0) {
-      const currentDate = new Date();
-      
-      // Find appointments that need status update
-      const appointmentsToUpdate = appointments.filter(appointment => {
-        const appointmentDay = new Date(appointment.date);
-        appointmentDay.setHours(19, 0, 0, 0); // 7 PM of appointment day
-        return appointment.status === "confirmed" && currentDate > appointmentDay;
-      });
-      
-      // Update each appointment status if needed
-      appointmentsToUpdate.forEach(appointment => {
-        updateAppointmentStatus.mutate({
-          id: appointment.id,
-          status: "completed"
-        });
-      });
-    }
-  }, [appointments]);
+  const { user } = useAuth();
+  const canBlockUsers = hasPermission(user, "users.block");
+  const canPurgeAppointments = hasPermission(user, "appointments.purge");
 
-  // Update the block mutation to set proper blockedUntil date
-  const blockUserMutation = useMutation({
-    mutationFn: async (userId: number) => {
-      const nextMonth = new Date();
-      nextMonth.setMonth(nextMonth.getMonth() + 1);
-      nextMonth.setDate(0);
-      nextMonth.setHours(23, 59, 59, 999);
-      
-      await apiRequest("PATCH", `/api/users/${userId}/block`, { 
-        blockedUntil: nextMonth.toISOString() 
-      });
-    },
-    onSuccess: () => {
-      // Invalidate both admin and user appointments
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/appointments"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
-      toast({
-        title: "User Blocked",
-        description: "User has been blocked until next month",
-      });
-    },
-  });
+  // Blocking needs a reason and an end date, so it is done from the user's details
+  const [blockUserId, setBlockUserId] = useState<number | null>(null);
 
-  const unblockUserMutation = useMutation({
-    mutationFn: async (userId: number) => {
-      await apiRequest("PATCH", `/api/users/${userId}/block`, { 
-        blockedUntil: null 
-      });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/appointments"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
-      toast({
-        title: "User Unblocked",
-        description: "User has been unblocked successfully.",
-      });
-    },
-  });
-
-  // Delete appointment mutation
+  // Delete appointment mutation; cancelling keeps the appointment, this removes it for good
   const deleteAppointmentMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/admin/appointments/${id}`); // Changed endpoint
@@ -223,7 +175,7 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
   // Update appointment status
   const updateAppointmentStatus = useMutation({
     mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      await apiRequest("PUT", `/api/appointments/${id}`, { status });
+      await apiRequest("PATCH", `/api/appointments/${id}/status`, { status });
     },
     onSuccess: () => {
       toast({
@@ -263,9 +215,9 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Status</SelectItem>
-              <SelectItem value="confirmed">Upcoming</SelectItem>
-              <SelectItem value="completed">Completed</SelectItem>
-              <SelectItem value="cancelled">Cancelled</SelectItem>
+              {appointmentStatuses.map((status) => (
+                <SelectItem key={status} value={status}>{appointmentStatusLabels[status]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -380,14 +332,18 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
                         </span>
                       ) : (
                         <span className={`px-3 py-1 inline-flex text-sm leading-5 font-semibold rounded-full ${
-                          appointment.status === 'confirmed' ? 'bg-blue-100 text-blue-800' :
-                          appointment.status === 'completed' ? 'bg-green-100 text-green-800' :
-                          appointment.status === 'cancelled' ? 'bg-red-100 text-red-800' :
-                          'bg-gray-100 text-gray-800'
+                          statusColors[appointment.status as AppointmentStatus] || 'bg-gray-100 text-gray-800'
                         }`}>
-                          {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
+                          {appointmentStatusLabels[appointment.status as AppointmentStatus] || appointment.status}
                         </span>
                       )}
+                      {appointment.cancelledAt && (
+                        <div className="text-xs text-gray-500 mt-1" title={appointment.cancellationReason ?? undefined}>
+                          {appointment.cancelledBy === appointment.userId ? "By client" : "By staff"} on {formatDate(new Date(appointment.cancelledAt))}
+                          {appointment.lateCancellation && <span className="text-red-600"> · Late</span>}
+                          {appointment.cancellationReason && <div className="truncate max-w-[12rem]">{appointment.cancellationReason}</div>}
+                        </div>
+                      )}
                     </TableCell>
                     
                 
@@ -399,39 +355,22 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          {getAllowedTransitions("admin", appointment.status).map((status) => (
+                            <DropdownMenuItem
+                              key={status}
+                              onClick={() => {
+                                updateAppointmentStatus.mutate({
+                                  id: appointment.id,
+                                  status,
+                                });
+                              }}
+                            >
+                              Mark as {appointmentStatusLabels[status]}
+                            </DropdownMenuItem>
+                          ))}
+                          {!canBlockUsers ? null : appointment.user?.blockedUntil && new Date(appointment.user.blockedUntil) > new Date() ? (
                           <DropdownMenuItem
-                            onClick={() => {
-                              updateAppointmentStatus.mutate({
-                                id: appointment.id,
-                                status: "confirmed",
-                              });
-                            }}
-                          >
-                            Mark as Confirmed
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => {
-                              updateAppointmentStatus.mutate({
-                                id: appointment.id,
-                                status: "completed",
-                              });
-                            }}
-                          >
-                            Mark as Completed
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => {
-                              updateAppointmentStatus.mutate({
-                                id: appointment.id,
-                                status: "cancelled",
-                              });
-                            }}
-                          >
-                            Mark as Cancelled
-                          </DropdownMenuItem>
-                          {appointment.user?.blockedUntil && new Date(appointment.user.blockedUntil) > new Date() ? (
-                          <DropdownMenuItem
-                            onClick={() => unblockUserMutation.mutate(appointment.userId)}
+                            onClick={() => setBlockUserId(appointment.userId)}
                             className="text-green-600"
                           >
                             <Ban className="h-4 w-4 mr-2" />
@@ -439,7 +378,7 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
                           </DropdownMenuItem>
                         ) : (
                           <DropdownMenuItem
-                            onClick={() => blockUserMutation.mutate(appointment.userId)}
+                            onClick={() => setBlockUserId(appointment.userId)}
                             className="text-red-500"
                           >
                             <Ban className="h-4 w-4 mr-2" />
@@ -447,13 +386,15 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
                           </DropdownMenuItem>
                         )}
 
-                          <DropdownMenuItem
-                            className="text-red-500"
-                            onClick={() => confirmDelete(appointment.id)}
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
+                          {canPurgeAppointments && (
+                            <DropdownMenuItem
+                              className="text-red-500"
+                              onClick={() => confirmDelete(appointment.id)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete Permanently
+                            </DropdownMenuItem>
+                          )}
                           
                         </DropdownMenuContent>
                       </DropdownMenu>
@@ -509,7 +450,7 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
               Confirm Deletion
             </AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this appointment? This action cannot be undone.
+              This permanently removes the appointment and its history. To keep a record, mark it as Cancelled instead. This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -520,6 +461,8 @@ export default function AppointmentTable(/*{ appointments }: AppointmentTablePro
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <UserDetailSheet userId={blockUserId} onClose={() => setBlockUserId(null)} />
     </>
   );
 }
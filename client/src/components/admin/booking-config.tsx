@@ -98,7 +98,7 @@ export default function BookingConfigSettings() {
   };
   
   const getInputType = (key: string): "number" | "text" => {
-    if (key.includes("hour") || key.includes("day")) {
+    if (key.includes("hour") || key.includes("day") || key.startsWith("policy_") || key.startsWith("waitlist_") || key.startsWith("slot_hold_")) {
       return "number";
     }
     return "text";
@@ -182,7 +182,8 @@ export default function BookingConfigSettings() {
   // Group configurations by category
   const timeWindowConfigs = configs?.filter(c => c.key.includes('window')) || [];
   const slotTimeConfigs = configs?.filter(c => c.key.includes('slot')) || [];
-  const otherConfigs = configs?.filter(c => !c.key.includes('window') && !c.key.includes('slot')) || [];
+  const policyConfigs = configs?.filter(c => c.key.startsWith('policy_')) || [];
+  const otherConfigs = configs?.filter(c => !c.key.includes('window') && !c.key.includes('slot') && !c.key.startsWith('policy_')) || [];
   
   return (
     <div className="space-y-8">
@@ -200,6 +201,16 @@ export default function BookingConfigSettings() {
         </div>
       </div>
       
+      <div>
+        <h3 className="text-xl font-semibold mb-4">Attendance Policy</h3>
+        <p className="text-gray-600 mb-4">
+          No-shows and late cancellations within the policy period block the user from booking automatically.
+        </p>
+        <div>
+          {policyConfigs.map(renderConfigCard)}
+        </div>
+      </div>
+      
       <div>
         <h3 className="text-xl font-semibold mb-4">Other Settings</h3>
         <div>
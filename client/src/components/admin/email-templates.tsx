@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2 } from "lucide-react";
+
+interface EmailTemplate {
+  name: string;
+  description: string;
+}
+
+interface EmailPreview {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Preview any email template rendered with sample data and the current booking settings
+export default function EmailTemplates() {
+  const [selected, setSelected] = useState("confirmation");
+  const [language, setLanguage] = useState("both");
+
+  const { data: templates = [] } = useQuery<EmailTemplate[]>({
+    queryKey: ["/api/admin/email-templates"],
+  });
+
+  const { data: preview, isLoading } = useQuery<EmailPreview>({
+    queryKey: ["/api/admin/email-templates", selected, language],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/email-templates/${selected}/preview?language=${language}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to render email preview");
+      }
+      return response.json();
+    },
+  });
+
+  const description = templates.find((template) => template.name === selected)?.description;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle>Email Preview</CardTitle>
+            <CardDescription>{description || "Choose a template to preview"}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={selected} onValueChange={setSelected}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.name} value={template.name}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="Language" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="both">Both / రెండూ</SelectItem>
+                <SelectItem value="en">English</SelectItem>
+                <SelectItem value="te">తెలుగు</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !preview ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <p className="text-sm mb-4">
+              <span className="font-medium">Subject:</span> {preview.subject}
+            </p>
+            <Tabs defaultValue="html">
+              <TabsList className="mb-4">
+                <TabsTrigger value="html">HTML</TabsTrigger>
+                <TabsTrigger value="text">Plain Text</TabsTrigger>
+              </TabsList>
+              <TabsContent value="html">
+                <iframe
+                  title="Email HTML preview"
+                  srcDoc={preview.html}
+                  sandbox=""
+                  className="w-full h-[600px] rounded-md border bg-white"
+                />
+              </TabsContent>
+              <TabsContent value="text">
+                <pre className="whitespace-pre-wrap text-sm rounded-md border bg-gray-50 p-4">{preview.text}</pre>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+
+interface JobRun {
+  id: number;
+  name: string;
+  scheduledFor: string;
+  status: "running" | "succeeded" | "failed";
+  startedAt: string;
+  finishedAt: string | null;
+  result: string | null;
+  error: string | null;
+}
+
+interface JobsResponse {
+  jobs: { name: string; description: string; intervalMinutes: number; lastRun: JobRun | null }[];
+  runs: JobRun[];
+}
+
+const statusVariants: Record<JobRun["status"], "default" | "secondary" | "destructive"> = {
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+};
+
+function formatInterval(minutes: number) {
+  if (minutes % (24 * 60) === 0) return `every ${minutes / (24 * 60)} day(s)`;
+  if (minutes % 60 === 0) return `every ${minutes / 60} hour(s)`;
+  return `every ${minutes} minute(s)`;
+}
+
+// Background jobs and their recent runs
+export default function JobRuns() {
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const { data, isLoading } = useQuery<JobsResponse>({
+    queryKey: ["/api/admin/jobs", statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const response = await fetch(`/api/admin/jobs${query}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch job runs");
+      }
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+        {data.jobs.map((job) => (
+          <Card key={job.name}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center justify-between">
+                <span className="font-mono">{job.name}</span>
+                {job.lastRun && (
+                  <Badge variant={statusVariants[job.lastRun.status]}>{job.lastRun.status}</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>{job.description} ({formatInterval(job.intervalMinutes)})</CardDescription>
+            </CardHeader>
+            <CardContent className="text-sm text-gray-600">
+              {job.lastRun ? (
+                <>
+                  <p>Last run {formatDistanceToNow(new Date(job.lastRun.startedAt), { addSuffix: true })}</p>
+                  {(job.lastRun.error || job.lastRun.result) && (
+                    <p className={job.lastRun.error ? "text-red-600" : ""}>{job.lastRun.error || job.lastRun.result}</p>
+                  )}
+                </>
+              ) : (
+                <p>Not run yet</p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold">Recent Runs</h3>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="All Runs" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Runs</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="succeeded">Succeeded</SelectItem>
+            <SelectItem value="running">Running</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Job</TableHead>
+              <TableHead>Scheduled For</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.runs.length > 0 ? (
+              data.runs.map((run) => (
+                <TableRow key={run.id}>
+                  <TableCell className="font-mono text-sm">{run.name}</TableCell>
+                  <TableCell>{format(new Date(run.scheduledFor), "MMM d, h:mm a")}</TableCell>
+                  <TableCell>
+                    {run.finishedAt
+                      ? `${((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000).toFixed(1)}s`
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[run.status]}>{run.status}</Badge>
+                  </TableCell>
+                  <TableCell className={`text-sm ${run.error ? "text-red-600" : "text-gray-500"}`}>
+                    {run.error || run.result}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                  No job runs found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  );
+}
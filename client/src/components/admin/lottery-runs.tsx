@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface LotteryRun {
+  id: number;
+  weekStart: string;
+  seed: string;
+  preferences: { userId: number; slotId: number; rank: number }[];
+  allocations: { userId: number; slotId: number | null; appointmentId?: number | null }[];
+  runBy: number | null;
+  createdAt: string;
+}
+
+// Lottery draws with their seeds, plus manual draw and replay for auditing
+export default function LotteryRuns() {
+  const { toast } = useToast();
+  const [seed, setSeed] = useState("");
+  const [verified, setVerified] = useState<Record<number, boolean>>({});
+
+  const { data: runs = [] } = useQuery<LotteryRun[]>({
+    queryKey: ["/api/admin/lottery/runs"],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/lottery/run", seed ? { seed } : {});
+      return await res.json() as LotteryRun;
+    },
+    onSuccess: (run) => {
+      setSeed("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/lottery/runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/appointments"] });
+      toast({
+        title: "Lottery drawn",
+        description: `${run.allocations.filter(a => a.appointmentId).length} of ${run.allocations.length} users were allocated a slot.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not run lottery", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/admin/lottery/runs/${id}/verify`);
+      return { id, ...(await res.json() as { matches: boolean }) };
+    },
+    onSuccess: ({ id, matches }) => {
+      setVerified(prev => ({ ...prev, [id]: matches }));
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not verify lottery run", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Lottery Draws</CardTitle>
+        <CardDescription>
+          Weeks listed in the <code>lottery_weeks</code> setting (comma-separated week-start dates, e.g. 2025-06-01)
+          are drawn automatically when their booking window closes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-2 mb-6">
+          <Input
+            placeholder="Seed (optional, random if empty)"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+          />
+          <Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+            {runMutation.isPending ? "Drawing..." : "Run Draw Now"}
+          </Button>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center">No lottery draws yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Week of</TableHead>
+                <TableHead>Drawn</TableHead>
+                <TableHead>Seed</TableHead>
+                <TableHead>Entrants</TableHead>
+                <TableHead>Allocated</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((run) => (
+                <TableRow key={run.id}>
+                  <TableCell>{format(new Date(run.weekStart), "MMM d, yyyy")}</TableCell>
+                  <TableCell>
+                    {format(new Date(run.createdAt), "MMM d, h:mm a")}
+                    {run.runBy === null && <span className="text-gray-500"> (auto)</span>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{run.seed}</TableCell>
+                  <TableCell>{run.allocations.length}</TableCell>
+                  <TableCell>{run.allocations.filter(a => a.appointmentId).length}</TableCell>
+                  <TableCell className="text-right">
+                    {run.id in verified ? (
+                      <Badge variant={verified[run.id] ? "default" : "destructive"}>
+                        {verified[run.id] ? "Reproduced" : "Mismatch"}
+                      </Badge>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => verifyMutation.mutate(run.id)}
+                        disabled={verifyMutation.isPending}
+                      >
+                        Verify
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
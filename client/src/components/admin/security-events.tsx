@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+
+interface SecurityEvent {
+  id: number;
+  type: "account_locked" | "account_unlocked" | "rate_limited" | "role_changed" | "user_deleted";
+  userId: number | null;
+  identifier: string | null;
+  ip: string | null;
+  details: string | null;
+  createdAt: string;
+}
+
+const typeLabels: Record<SecurityEvent["type"], string> = {
+  account_locked: "Locked",
+  account_unlocked: "Unlocked",
+  rate_limited: "Rate limited",
+  role_changed: "Role changed",
+  user_deleted: "Deleted",
+};
+
+const typeVariants: Record<SecurityEvent["type"], "default" | "secondary" | "destructive"> = {
+  account_locked: "destructive",
+  account_unlocked: "default",
+  rate_limited: "secondary",
+  role_changed: "secondary",
+  user_deleted: "destructive",
+};
+
+// Account lockouts and rate-limited sign-in attempts, with an early unlock for locked accounts
+// and a forced sign-out for accounts that look compromised
+export default function SecurityEvents() {
+  const { toast } = useToast();
+  const [typeFilter, setTypeFilter] = useState("all");
+
+  const { data: events = [], isLoading } = useQuery<SecurityEvent[]>({
+    queryKey: ["/api/admin/security-events", typeFilter],
+    queryFn: async () => {
+      const query = typeFilter === "all" ? "" : `?type=${typeFilter}`;
+      const response = await fetch(`/api/admin/security-events${query}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch security events");
+      }
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("POST", `/api/admin/users/${userId}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/security-events"] });
+      toast({ title: "Account unlocked", description: "The user can sign in with their password again." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not unlock account", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/logout`);
+      return await res.json() as { message: string };
+    },
+    onSuccess: ({ message }) => {
+      toast({ title: "User signed out", description: message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not sign out user", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold">Security Events</h3>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="All Events" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Events</SelectItem>
+            <SelectItem value="account_locked">Locked</SelectItem>
+            <SelectItem value="account_unlocked">Unlocked</SelectItem>
+            <SelectItem value="rate_limited">Rate limited</SelectItem>
+            <SelectItem value="role_changed">Role changed</SelectItem>
+            <SelectItem value="user_deleted">Deleted</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>IP</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.length > 0 ? (
+                events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell>{format(new Date(event.createdAt), "MMM d, h:mm a")}</TableCell>
+                    <TableCell>
+                      <Badge variant={typeVariants[event.type]}>{typeLabels[event.type]}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{event.identifier || "—"}</TableCell>
+                    <TableCell className="font-mono text-sm">{event.ip || "—"}</TableCell>
+                    <TableCell className="text-sm text-gray-500">{event.details}</TableCell>
+                    <TableCell className="space-x-2 whitespace-nowrap">
+                      {event.type === "account_locked" && event.userId !== null && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={unlockMutation.isPending}
+                          onClick={() => unlockMutation.mutate(event.userId!)}
+                        >
+                          Unlock
+                        </Button>
+                      )}
+                      {event.userId !== null && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={logoutMutation.isPending}
+                          onClick={() => logoutMutation.mutate(event.userId!)}
+                        >
+                          Sign out
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                    No security events found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </>
+  );
+}
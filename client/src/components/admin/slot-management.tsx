@@ -22,7 +22,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { getTimeSlots, formatDate, formatTime } from "@/lib/utils";
+import { formatDate, formatTime } from "@/lib/utils";
+import { useBookingConfig } from "@/hooks/use-booking-config";
 import { addDays, isSameDay, format } from "date-fns";
 import { CalendarDays, Plus, Save, Clock, X, Check } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
@@ -33,6 +34,7 @@ export default function SlotManagement() {
   const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
   const [selectedTab, setSelectedTab] = useState<string>("calendar");
   const [bulkEnabled, setBulkEnabled] = useState(true);
+  const { getTimeSlots, isDisabledDay } = useBookingConfig();
   const [isPending, setIsPending] = useState<{[key: string]: boolean}>({});
   
   // Get available slots from API with optimized caching strategy
@@ -398,28 +400,13 @@ export default function SlotManagement() {
     for (let i = 0; i < 7; i++) {
       const currentDate = addDays(startDate, i);
       
-      // Skip Tuesdays (2) and Saturdays (6)
-      if (currentDate.getDay() === 2 || currentDate.getDay() === 6) {
+      // Skip days when appointments are disabled
+      if (isDisabledDay(currentDate)) {
         continue;
       }
       
-      // Generate morning slots (9 AM - 1 PM)
-      for (let hour = 9; hour < 13; hour++) {
-        for (let minute = 0; minute < 60; minute += 15) {
-          const slotDate = new Date(currentDate);
-          slotDate.setHours(hour, minute, 0, 0);
-          slotsToCreate.push(slotDate);
-        }
-      }
-      
-      // Generate afternoon slots (3 PM - 5 PM)
-      for (let hour = 15; hour < 17; hour++) {
-        for (let minute = 0; minute < 60; minute += 15) {
-          const slotDate = new Date(currentDate);
-          slotDate.setHours(hour, minute, 0, 0);
-          slotsToCreate.push(slotDate);
-        }
-      }
+      // Generate the configured morning and afternoon slots
+      slotsToCreate.push(...getTimeSlots(currentDate));
     }
     
     // Create the slots with optimistic UI updates
@@ -430,14 +417,13 @@ export default function SlotManagement() {
   const buildSlotsTable = () => {
     if (!selectedDate) return null;
     
-    // Skip rendering if it's Tuesday (2) or Saturday (6)
-    const dayOfWeek = selectedDate.getDay();
-    if (dayOfWeek === 2 || dayOfWeek === 6) {
+    // Skip rendering on days when appointments are disabled
+    if (isDisabledDay(selectedDate)) {
       return (
         <div className="flex items-center justify-center h-64 text-center text-gray-500 p-4">
           <div>
             <p className="font-medium text-lg mb-2">No slots available</p>
-            <p>Appointments are not scheduled on {dayOfWeek === 2 ? 'Tuesdays' : 'Saturdays'}.</p>
+            <p>Appointments are not scheduled on {format(selectedDate, "EEEE")}s.</p>
             <p>Please select a different day.</p>
           </div>
         </div>
@@ -629,7 +615,7 @@ export default function SlotManagement() {
                 </div>
               )}
             </CardContent>
-            {selectedDate && selectedDate.getDay() !== 2 && selectedDate.getDay() !== 6 && (
+            {selectedDate && !isDisabledDay(selectedDate) && (
               <CardFooter className="flex justify-between">
                 <Button
                   variant="outline"
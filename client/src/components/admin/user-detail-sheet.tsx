@@ -0,0 +1,356 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2 } from "lucide-react";
+import { hasPermission, isRole, roleLabels, roles, type Role } from "@shared/permissions";
+import { appointmentStatusLabels, isAppointmentStatus } from "@shared/appointment-status";
+import { isBlocked, type AdminUser } from "./user-management";
+
+interface UserDetail {
+  user: AdminUser;
+  appointments: { id: number; date: string; status: string; lateCancellation: boolean; cancellationReason: string | null; createdAt: string }[];
+  cancellationCount: number;
+  blockHistory: UserBlock[];
+}
+
+interface UserBlock {
+  id: number;
+  reason: string;
+  createdByName: string | null;
+  startsAt: string;
+  endsAt: string;
+  liftedAt: string | null;
+  liftedBy: number | null;
+  liftedByName: string | null;
+}
+
+function isActive(block: UserBlock) {
+  return !block.liftedAt && new Date(block.endsAt) > new Date();
+}
+
+interface UserDetailSheetProps {
+  userId: number | null;
+  onClose: () => void;
+}
+
+// One user's appointments, cancellations and block history, with the actions the signed-in role allows
+export default function UserDetailSheet({ userId, onClose }: UserDetailSheetProps) {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [blockUntil, setBlockUntil] = useState("");
+  const [reason, setReason] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  useEffect(() => {
+    setBlockUntil(format(addDays(new Date(), 30), "yyyy-MM-dd"));
+    setReason("");
+  }, [userId]);
+
+  const { data, isLoading } = useQuery<UserDetail>({
+    queryKey: ["/api/admin/users", userId],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/users/${userId}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch user");
+      }
+      return response.json();
+    },
+    enabled: userId !== null,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/appointments"] });
+  };
+
+  const blockMutation = useMutation({
+    mutationFn: async (endsAt: Date) => {
+      await apiRequest("POST", `/api/admin/users/${userId}/blocks`, {
+        reason: reason.trim(),
+        endsAt: endsAt.toISOString(),
+      });
+      return endsAt;
+    },
+    onSuccess: (endsAt) => {
+      refresh();
+      setReason("");
+      toast({ title: "User blocked", description: `They can't book until ${format(endsAt, "MMM d, yyyy")}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not block user", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const liftMutation = useMutation({
+    mutationFn: async (blockId: number) => {
+      await apiRequest("POST", `/api/admin/blocks/${blockId}/lift`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Block lifted", description: "They can book appointments again." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not lift block", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/reset-password`);
+      return await res.json() as { message: string };
+    },
+    onSuccess: ({ message }) => {
+      toast({ title: "Reset link sent", description: message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not reset password", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async (role: Role) => {
+      await apiRequest("PATCH", `/api/admin/users/${userId}/role`, { role });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Role changed", description: "The user has been signed out so the new role applies." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/admin/users/${userId}`);
+    },
+    onSuccess: () => {
+      refresh();
+      onClose();
+      toast({ title: "User deleted", description: "The account has been removed." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete user", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const user = data?.user;
+  const isSelf = user?.id === currentUser?.id;
+  const canBlock = hasPermission(currentUser, "users.block");
+  const canManage = hasPermission(currentUser, "users.manage");
+  const canManageRoles = hasPermission(currentUser, "users.manage_roles") && !isSelf;
+  const activeBlock = data?.blockHistory.find(isActive);
+
+  return (
+    <Sheet open={userId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {isLoading || !data || !user ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <SheetHeader>
+              <SheetTitle>{user.name}</SheetTitle>
+              <SheetDescription>
+                {user.username} · {user.email || "no email"} · {user.mobile || "no mobile"}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-6 mt-6">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="rounded-md border p-3">
+                  <p className="text-2xl font-bold">{data.appointments.length}</p>
+                  <p className="text-xs text-gray-500">Appointments</p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-2xl font-bold">{data.cancellationCount}</p>
+                  <p className="text-xs text-gray-500">Cancelled</p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-2xl font-bold">{data.blockHistory.length}</p>
+                  <p className="text-xs text-gray-500">Blocks</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Role</Label>
+                {canManageRoles ? (
+                  <Select
+                    value={user.role}
+                    disabled={roleMutation.isPending}
+                    onValueChange={(role) => roleMutation.mutate(role as Role)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roles.map((role) => (
+                        <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <p className="text-sm">{isRole(user.role) ? roleLabels[user.role] : user.role}</p>
+                )}
+              </div>
+
+              {canBlock && !isSelf && (
+                activeBlock ? (
+                  <div className="space-y-2">
+                    <Label>Blocked until {format(new Date(activeBlock.endsAt), "MMM d, yyyy")}</Label>
+                    <p className="text-sm text-gray-600">{activeBlock.reason}</p>
+                    <Button
+                      variant="outline"
+                      disabled={liftMutation.isPending}
+                      onClick={() => liftMutation.mutate(activeBlock.id)}
+                    >
+                      Lift Block
+                    </Button>
+                  </div>
+                ) : isBlocked(user) ? (
+                  <p className="text-sm text-gray-600">
+                    Blocked until {format(new Date(user.blockedUntil!), "MMM d, yyyy")} by an earlier block without a record.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="block-reason">Block from booking</Label>
+                    <Textarea
+                      id="block-reason"
+                      placeholder="Reason (sent to the user)"
+                      value={reason}
+                      maxLength={500}
+                      onChange={(e) => setReason(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                      <Input
+                        type="date"
+                        value={blockUntil}
+                        min={format(addDays(new Date(), 1), "yyyy-MM-dd")}
+                        onChange={(e) => setBlockUntil(e.target.value)}
+                      />
+                      <Button
+                        variant="destructive"
+                        disabled={!blockUntil || !reason.trim() || blockMutation.isPending}
+                        onClick={() => blockMutation.mutate(new Date(`${blockUntil}T23:59:59`))}
+                      >
+                        Block
+                      </Button>
+                    </div>
+                  </div>
+                )
+              )}
+
+              {canManage && !isSelf && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    disabled={!user.email || resetPasswordMutation.isPending}
+                    onClick={() => resetPasswordMutation.mutate()}
+                  >
+                    Send Password Reset
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => setConfirmDelete(true)}
+                  >
+                    Delete User
+                  </Button>
+                </div>
+              )}
+
+              <div>
+                <h4 className="font-semibold mb-2">Appointments</h4>
+                {data.appointments.length > 0 ? (
+                  <ul className="divide-y text-sm">
+                    {data.appointments.map((appointment) => (
+                      <li key={appointment.id} className="flex justify-between py-2">
+                        <span title={appointment.cancellationReason ?? undefined}>{format(new Date(appointment.date), "MMM d, yyyy h:mm a")}</span>
+                        <Badge variant={appointment.status === "cancelled" ? "destructive" : "outline"}>
+                          {isAppointmentStatus(appointment.status) ? appointmentStatusLabels[appointment.status] : appointment.status}
+                          {appointment.lateCancellation && " · Late"}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No appointments</p>
+                )}
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2">Block History</h4>
+                {data.blockHistory.length > 0 ? (
+                  <ul className="divide-y text-sm">
+                    {data.blockHistory.map((block) => (
+                      <li key={block.id} className="py-2">
+                        <div className="flex justify-between">
+                          <span>
+                            {format(new Date(block.startsAt), "MMM d, yyyy")} – {format(new Date(block.endsAt), "MMM d, yyyy")}
+                          </span>
+                          {isActive(block) ? (
+                            <Badge variant="destructive">Active</Badge>
+                          ) : block.liftedBy !== null ? (
+                            <Badge variant="outline">Lifted</Badge>
+                          ) : (
+                            <Badge variant="secondary">Ended</Badge>
+                          )}
+                        </div>
+                        <p className="text-gray-600 mt-1">{block.reason}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {block.createdByName ? `Blocked by ${block.createdByName}` : "Blocked automatically"}
+                          {block.liftedBy !== null && block.liftedAt &&
+                            ` · lifted by ${block.liftedByName ?? "a deleted user"} on ${format(new Date(block.liftedAt), "MMM d, yyyy")}`}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">Never blocked</p>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {user?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The account is removed and signed out everywhere. Users with appointments on record can't be deleted; block them instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep User</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteMutation.mutate()} className="bg-red-500 hover:bg-red-600">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sheet>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Search } from "lucide-react";
+import { isRole, roleLabels } from "@shared/permissions";
+import UserDetailSheet from "./user-detail-sheet";
+
+export interface AdminUser {
+  id: number;
+  username: string;
+  name: string;
+  email: string | null;
+  mobile: string | null;
+  address: string;
+  role: string;
+  createdAt: string;
+  blockedUntil: string | null;
+  lockedUntil: string | null;
+}
+
+interface UserPage {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 20;
+
+export function isBlocked(user: AdminUser) {
+  return !!user.blockedUntil && new Date(user.blockedUntil) > new Date();
+}
+
+// Every account, searchable by name, username, email or mobile, with a detail drawer per user
+export default function UserManagement() {
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+
+  // Search once typing pauses, from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data, isLoading, isFetching } = useQuery<UserPage>({
+    queryKey: ["/api/admin/users", debouncedSearch, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (debouncedSearch) params.set("search", debouncedSearch);
+      const response = await fetch(`/api/admin/users?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch users");
+      }
+      return response.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const users = data?.users ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-4 gap-4">
+        <h3 className="text-lg font-bold">Users</h3>
+        <div className="relative w-72">
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            className="pl-9"
+            placeholder="Search name, email or mobile"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Username</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Mobile</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.length > 0 ? (
+                users.map((user) => (
+                  <TableRow
+                    key={user.id}
+                    className="cursor-pointer hover:bg-gray-50"
+                    onClick={() => setSelectedUserId(user.id)}
+                  >
+                    <TableCell className="font-medium">{user.name}</TableCell>
+                    <TableCell className="font-mono text-sm">{user.username}</TableCell>
+                    <TableCell>{user.email || "—"}</TableCell>
+                    <TableCell>{user.mobile || "—"}</TableCell>
+                    <TableCell>{isRole(user.role) ? roleLabels[user.role] : user.role}</TableCell>
+                    <TableCell>{format(new Date(user.createdAt), "MMM d, yyyy")}</TableCell>
+                    <TableCell>
+                      {isBlocked(user) ? (
+                        <Badge variant="destructive">Blocked</Badge>
+                      ) : (
+                        <Badge variant="outline">Active</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-6 text-gray-500">
+                    No users found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between border-t border-gray-200 pt-4 mt-4">
+        <p className="text-sm text-gray-700">
+          {total === 0
+            ? "No results"
+            : `Showing ${(page - 1) * PAGE_SIZE + 1} to ${Math.min(page * PAGE_SIZE, total)} of ${total} users`}
+        </p>
+        <div className="flex items-center gap-2">
+          {isFetching && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm text-gray-700">Page {page} of {pageCount}</span>
+          <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      </div>
+
+      <UserDetailSheet userId={selectedUserId} onClose={() => setSelectedUserId(null)} />
+    </>
+  );
+}
@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+interface WaitingRoomStats {
+  isOpen: boolean;
+  opensAt: string;
+  closesAt: string;
+  queueLength: number;
+  admittedCount: number;
+  activeAdmissions: number;
+  batchSize: number;
+  batchIntervalSeconds: number;
+  admissionRatePerMinute: number;
+}
+
+export default function WaitingRoomStats() {
+  const { data: stats } = useQuery<WaitingRoomStats>({
+    queryKey: ["/api/admin/waiting-room"],
+    staleTime: 0,
+    refetchInterval: 5000,
+  });
+
+  if (!stats) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          Waiting Room
+          <Badge variant={stats.isOpen ? "default" : "secondary"}>
+            {stats.isOpen ? "Booking open" : "Booking closed"}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          {stats.isOpen
+            ? `Window closes at ${format(new Date(stats.closesAt), "h:mm a")}`
+            : `Next window opens ${format(new Date(stats.opensAt), "EEEE, MMMM d, h:mm a")}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold">{stats.queueLength}</p>
+            <p className="text-sm text-gray-500">In queue</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{stats.admittedCount}</p>
+            <p className="text-sm text-gray-500">Admitted</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{stats.activeAdmissions}</p>
+            <p className="text-sm text-gray-500">Currently booking</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{stats.admissionRatePerMinute}</p>
+            <p className="text-sm text-gray-500">
+              Admitted / minute ({stats.batchSize} every {stats.batchIntervalSeconds}s)
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
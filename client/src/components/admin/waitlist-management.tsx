@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import { waitlistStatusLabels, type WaitlistStatus } from "@shared/waitlist";
+import { ArrowDown, ArrowUp, Loader2, Trash2 } from "lucide-react";
+
+interface AdminWaitlistEntry {
+  id: number;
+  scope: "day" | "week";
+  date: string;
+  position: number;
+  status: WaitlistStatus;
+  offeredSlot: string | null;
+  offerExpiresAt: string | null;
+  createdAt: string;
+  user: { id: number; name: string; email: string | null; mobile: string | null } | null;
+}
+
+// Everyone waiting for a day, in the order freed slots are offered to them
+export default function WaitlistManagement() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const canManage = hasPermission(user, "appointments.manage");
+
+  const { data: entries = [], isLoading } = useQuery<AdminWaitlistEntry[]>({
+    queryKey: ["/api/admin/waitlist", date],
+    queryFn: async () => {
+      // Local midnight, so the day matches the one picked
+      const day = new Date(`${date}T00:00:00`);
+      const response = await fetch(`/api/admin/waitlist?date=${encodeURIComponent(day.toISOString())}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch waitlist");
+      }
+      return response.json();
+    },
+    enabled: !!date,
+    staleTime: 0,
+  });
+
+  const invalidateWaitlist = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/waitlist"] });
+  };
+
+  const reorderMutation = useMutation({
+    mutationFn: async (entryIds: number[]) => {
+      await apiRequest("PUT", "/api/admin/waitlist/order", { entryIds });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not reorder the waitlist", description: error.message, variant: "destructive" });
+    },
+    onSettled: invalidateWaitlist,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/waitlist/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Removed from the waitlist" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not remove the entry", description: error.message, variant: "destructive" });
+    },
+    onSettled: invalidateWaitlist,
+  });
+
+  const move = (index: number, offset: number) => {
+    const ids = entries.map((entry) => entry.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderMutation.mutate(ids);
+  };
+
+  const isBusy = reorderMutation.isPending || removeMutation.isPending;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4 gap-4">
+        <h3 className="text-lg font-bold">Waitlist</h3>
+        <Input type="date" className="w-48" value={date} onChange={(e) => setDate(e.target.value)} />
+      </div>
+      <p className="text-gray-600 mb-4 text-sm">
+        Users waiting for this day, including those waiting for any day of its week. When a slot frees up it is
+        offered to the first person in the list who can book it.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">Nobody is waiting for this day.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Waiting for</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Joined</TableHead>
+              {canManage && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry, index) => (
+              <TableRow key={entry.id}>
+                <TableCell>{index + 1}</TableCell>
+                <TableCell>
+                  <div className="font-medium">{entry.user?.name ?? "Unknown user"}</div>
+                  <div className="text-xs text-gray-500">{entry.user?.email || entry.user?.mobile}</div>
+                </TableCell>
+                <TableCell>{entry.scope === "week" ? "Any day this week" : "This day"}</TableCell>
+                <TableCell>
+                  <Badge variant={entry.status === "offered" ? "default" : "outline"}>
+                    {waitlistStatusLabels[entry.status]}
+                  </Badge>
+                  {entry.status === "offered" && entry.offeredSlot && entry.offerExpiresAt && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {format(new Date(entry.offeredSlot), "MMM d, h:mm a")} until{" "}
+                      {format(new Date(entry.offerExpiresAt), "h:mm a")}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">{format(new Date(entry.createdAt), "MMM d, h:mm a")}</TableCell>
+                {canManage && (
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => move(index, -1)}
+                      disabled={isBusy || index === 0}
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => move(index, 1)}
+                      disabled={isBusy || index === entries.length - 1}
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeMutation.mutate(entry.id)}
+                      disabled={isBusy}
+                      title="Remove from waitlist"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
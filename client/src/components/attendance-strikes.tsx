@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDate } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { strikeKinds, strikeKindLabels, getStrikeLimit, type AttendancePolicy, type StrikeKind } from "@shared/attendance-policy";
+
+export interface Attendance {
+  policy: AttendancePolicy;
+  strikes: {
+    id: number;
+    kind: StrikeKind;
+    appointmentDate: string;
+    occurredAt: string;
+    blockId: number | null;
+    counted: boolean;
+  }[];
+  block: { reason: string; endsAt: string; automatic: boolean } | null;
+}
+
+export function useAttendance() {
+  return useQuery<Attendance>({ queryKey: ["/api/user/attendance"] });
+}
+
+// Explains the no-show and late cancellation policy and which strikes count towards a block
+export default function AttendanceStrikes() {
+  const { data } = useAttendance();
+  if (!data) return null;
+
+  const { policy, strikes } = data;
+  const activeKinds = strikeKinds.filter((kind) => getStrikeLimit(policy, kind) > 0);
+  if (activeKinds.length === 0 && strikes.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="text-lg">Attendance</CardTitle>
+        <CardDescription>
+          {policy.noShowLimit > 0 && `${policy.noShowLimit} missed appointments`}
+          {policy.noShowLimit > 0 && policy.lateCancellationLimit > 0 && " or "}
+          {policy.lateCancellationLimit > 0 &&
+            `${policy.lateCancellationLimit} cancellations within ${policy.lateCancellationHours} hours of the appointment`}
+          {activeKinds.length > 0 && ` in ${policy.periodDays} days block booking for ${policy.blockWeeks} weeks.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-3 mb-4">
+          {activeKinds.map((kind) => {
+            const count = strikes.filter((strike) => strike.kind === kind && strike.counted).length;
+            const limit = getStrikeLimit(policy, kind);
+            return (
+              <Badge key={kind} variant={count > 0 && count >= limit - 1 ? "destructive" : "outline"}>
+                {strikeKindLabels[kind]}s: {count} of {limit}
+              </Badge>
+            );
+          })}
+        </div>
+
+        {strikes.length > 0 ? (
+          <ul className="divide-y text-sm">
+            {strikes.map((strike) => (
+              <li key={strike.id} className="flex justify-between py-2">
+                <span>
+                  {strikeKindLabels[strike.kind]} · appointment on {formatDate(new Date(strike.appointmentDate))}
+                </span>
+                <span className="text-gray-500">
+                  {strike.counted ? "Counts" : strike.blockId !== null ? "Led to a block" : "Expired"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">You have no missed or late-cancelled appointments.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
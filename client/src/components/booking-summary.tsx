@@ -4,42 +4,45 @@ import { formatDate, formatTime } from "@/lib/utils";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Check } from "lucide-react";
+import { Check, Timer } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { useState } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
+import { useSlotHold } from "@/hooks/use-slot-hold";
+import { useCountdown, formatCountdown } from "@/hooks/use-countdown";
 
 interface BookingSummaryProps {
   selectedDate: Date;
   selectedTime: Date;
   onConfirm: () => void;
   disabled?: boolean;
+  admissionToken?: string; // Waiting room admission, required while the booking window is open
 }
 
-export default function BookingSummary({ selectedDate, selectedTime, onConfirm, disabled = false }: BookingSummaryProps) {
+export default function BookingSummary({ selectedDate, selectedTime, onConfirm, disabled = false, admissionToken }: BookingSummaryProps) {
   const { toast } = useToast();
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [, setLocation] = useLocation();
   const [mobileInput, setMobileInput] = useState("");
   const [mobileError, setMobileError] = useState<string | null>(null);
+  const startDate = new Date(
+    selectedDate.getFullYear(),
+    selectedDate.getMonth(),
+    selectedDate.getDate(),
+    selectedTime.getHours(),
+    selectedTime.getMinutes()
+  );
 
   const createAppointmentMutation = useMutation({
     mutationFn: async () => {
-      const startDate = new Date(
-        selectedDate.getFullYear(),
-        selectedDate.getMonth(),
-        selectedDate.getDate(),
-        selectedTime.getHours(),
-        selectedTime.getMinutes()
-      );
-      
       const endDate = addMinutes(startDate, 15);
   
       const appointmentData = {
         date: startDate.toISOString(),
         endTime: endDate.toISOString(),
-        duration: 15
+        duration: 15,
+        admissionToken
       };
 
       console.log('Attempting to book appointment with data:', {
@@ -78,10 +81,9 @@ export default function BookingSummary({ selectedDate, selectedTime, onConfirm,
     },
     onError: (error: Error) => {
       console.error("Booking error details:", error);
-      let errorMessage = error.message || "This time slot is no longer available. Please select another time.";
-      if (errorMessage.toLowerCase().includes("blocked")) {
-        errorMessage = `Your account is blocked. Please contact support. / మీ ఖాతా నిరోధించబడింది. సపోర్ట్‌ని సంప్రదించండి.`;
-      }    
+      // The slot may have been taken by someone else in the meantime
+      queryClient.invalidateQueries({ queryKey: ["/api/available-slots"] });
+      const errorMessage = error.message || "This time slot is no longer available. Please select another time.";
       toast({
         title: "Booking Failed",
         description: errorMessage,
@@ -90,8 +92,15 @@ export default function BookingSummary({ selectedDate, selectedTime, onConfirm,
     },
   });
   
+  // Nobody else can book the slot while the user confirms, including entering a mobile number
+  const { hold, error: holdError, renew: renewHold } = useSlotHold(
+    startDate,
+    !disabled && !createAppointmentMutation.isSuccess,
+    admissionToken
+  );
+  const holdSecondsLeft = useCountdown(hold?.expiresAt ?? null);
+
   interface User {
-    blockedUntil?: string;
     mobile?: string;
   }
 
@@ -105,15 +114,7 @@ export default function BookingSummary({ selectedDate, selectedTime, onConfirm,
       setMobileError(null); // Reset any previous errors
       return; 
     }
-    if (user?.blockedUntil && new Date(user.blockedUntil) > new Date()) {
-      toast({
-        title: "Account Blocked / ఖాతా నిరోధించబడింది",
-        description: 'Your account has been blocked until next month, due to missed appointment.Please contact support for resolution./హాజరు కాకపోవడం వలన మీ ఖాతా తదుపరి నెల చివరి వరకు నిరోధించబడింది. పరిష్కారం కోసం సపోర్ట్‌ని సంప్రదించండి.',
-        variant: "destructive",
-      });
-      return;
-    }
-    
+    // A blocked user is refused by the server, whose message gives the reason for the block
     createAppointmentMutation.mutate();
   }
 
@@ -187,6 +188,22 @@ export default function BookingSummary({ selectedDate, selectedTime, onConfirm,
             <span className="text-gray-500">Duration:</span>
             <span className="font-medium">15 minutes</span>
           </div>
+          {hold && (holdSecondsLeft > 0 ? (
+            <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 rounded-md px-3 py-2">
+              <Timer className="h-4 w-4" />
+              <span>This slot is held for you for {formatCountdown(holdSecondsLeft)}</span>
+            </div>
+          ) : (
+            <div className="text-sm text-amber-700 bg-amber-50 rounded-md px-3 py-2">
+              Your hold on this slot has run out, so someone else may book it.{" "}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={renewHold}>
+                Hold it again
+              </Button>
+            </div>
+          ))}
+          {holdError && (
+            <p className="text-sm text-red-600">{holdError}</p>
+          )}
           <div className="pt-3 mt-3 border-t border-gray-200">
             <Button 
               className="w-full"
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface ChangeEmailDialogProps {
+  open: boolean;
+  currentEmail: string | null;
+  onClose: () => void;
+  onChanged: (user: User) => void;
+}
+
+// Change (or first verify) the account email: a code is sent to the new address and
+// the change only happens once that code is entered
+export default function ChangeEmailDialog({ open, currentEmail, onClose, onChanged }: ChangeEmailDialogProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState(currentEmail || "");
+  const [otp, setOtp] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleClose = () => {
+    setEmail(currentEmail || "");
+    setOtp("");
+    setCodeSent(false);
+    setError("");
+    onClose();
+  };
+
+  const sendCodeMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const res = await apiRequest("POST", "/api/user/email/send-otp", { email });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setError("");
+      setCodeSent(true);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (data: { email: string; otp: string }) => {
+      const res = await apiRequest("POST", "/api/user/email/verify", data);
+      return await res.json() as { valid: boolean; message?: string; user?: User };
+    },
+    onSuccess: (result) => {
+      if (!result.valid || !result.user) {
+        setError(result.message || "Invalid OTP. Please try again.");
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], result.user);
+      onChanged(result.user);
+      toast({
+        title: "Email verified",
+        description: `Your email address is now ${result.user.email}.`,
+      });
+      handleClose();
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Verify Email Address</DialogTitle>
+          <DialogDescription>
+            We'll send a 6-digit code to the address to confirm it's yours.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="change-email">Email Address</Label>
+            <Input
+              id="change-email"
+              type="email"
+              value={email}
+              disabled={codeSent}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          {codeSent && (
+            <div className="space-y-2">
+              <Label htmlFor="change-email-otp">Verification Code</Label>
+              <Input
+                id="change-email-otp"
+                inputMode="numeric"
+                maxLength={6}
+                value={otp}
+                onChange={(e) => setOtp(e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="link"
+                className="px-0 h-auto"
+                disabled={sendCodeMutation.isPending}
+                onClick={() => sendCodeMutation.mutate(email)}
+              >
+                Resend code
+              </Button>
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          {codeSent ? (
+            <Button
+              disabled={otp.length !== 6 || verifyMutation.isPending}
+              onClick={() => verifyMutation.mutate({ email, otp })}
+            >
+              {verifyMutation.isPending ? "Verifying..." : "Verify"}
+            </Button>
+          ) : (
+            <Button
+              disabled={!email || sendCodeMutation.isPending}
+              onClick={() => sendCodeMutation.mutate(email)}
+            >
+              {sendCodeMutation.isPending ? "Sending..." : "Send Code"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useLottery } from "@/hooks/use-lottery";
+import { ArrowDown, ArrowUp, Ticket, X } from "lucide-react";
+
+const MAX_PREFERENCES = 5;
+
+interface LotteryPreferencesProps {
+  selectedSlot: Date | null;
+  onSlotAdded: () => void;
+}
+
+// Ranked slot picks for a lottery-mode week. Slots are allocated by a draw when the
+// booking window closes instead of first-come-first-served.
+export default function LotteryPreferences({ selectedSlot, onSlotAdded }: LotteryPreferencesProps) {
+  const { toast } = useToast();
+  const { lottery, savePreferencesMutation } = useLottery();
+  const [ranked, setRanked] = useState<Date[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Start from what the user already submitted
+  useEffect(() => {
+    if (lottery && !isDirty) {
+      setRanked(lottery.preferences.filter(p => p.date).map(p => new Date(p.date)));
+    }
+  }, [lottery, isDirty]);
+
+  if (!lottery) return null;
+
+  const updateRanked = (next: Date[]) => {
+    setRanked(next);
+    setIsDirty(true);
+  };
+
+  const handleAdd = () => {
+    if (!selectedSlot) return;
+    if (ranked.some(slot => slot.getTime() === selectedSlot.getTime())) {
+      toast({ title: "Already in your list", description: "This slot is already one of your preferences." });
+      return;
+    }
+    updateRanked([...ranked, selectedSlot]);
+    onSlotAdded();
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...ranked];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateRanked(next);
+  };
+
+  const handleSubmit = () => {
+    savePreferencesMutation.mutate(ranked, {
+      onSuccess: () => {
+        setIsDirty(false);
+        toast({
+          title: "Preferences saved",
+          description: "You will be notified of the result when the booking window closes.",
+        });
+      },
+      onError: (error: Error) => {
+        toast({ title: "Could not save preferences", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-6">
+      <h3 className="font-heading text-lg font-semibold text-gray-800 mb-1 flex items-center gap-2">
+        <Ticket className="h-5 w-5 text-primary" />
+        Your Lottery Preferences / మీ లాటరీ ప్రాధాన్యతలు
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Rank up to {MAX_PREFERENCES} slots. When the window closes at {format(new Date(lottery.closesAt), "h:mm a")} a random draw
+        decides the order in which everyone gets their highest-ranked free slot.
+      </p>
+
+      {selectedSlot && lottery.isOpen && (
+        <Button
+          variant="outline"
+          className="w-full mb-4"
+          onClick={handleAdd}
+          disabled={ranked.length >= MAX_PREFERENCES}
+        >
+          Add {format(selectedSlot, "EEE, MMM d 'at' h:mm a")}
+        </Button>
+      )}
+
+      {ranked.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">Select a date and time to add it to your preferences.</p>
+      ) : (
+        <ol className="space-y-2 mb-4">
+          {ranked.map((slot, index) => (
+            <li key={slot.getTime()} className="flex items-center gap-2 border rounded-md px-3 py-2">
+              <span className="font-semibold text-primary w-6">{index + 1}.</span>
+              <span className="flex-grow text-sm">{format(slot, "EEEE, MMMM d 'at' h:mm a")}</span>
+              {lottery.isOpen && (
+                <>
+                  <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" disabled={index === ranked.length - 1} onClick={() => move(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => updateRanked(ranked.filter((_, i) => i !== index))}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {lottery.isOpen && (
+        <Button
+          className="w-full"
+          onClick={handleSubmit}
+          disabled={ranked.length === 0 || !isDirty || savePreferencesMutation.isPending}
+        >
+          {savePreferencesMutation.isPending ? "Saving..." : isDirty ? "Submit Preferences" : "Preferences Submitted"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Result of the most recent draw the user took part in
+export function LotteryResult() {
+  const { lottery } = useLottery();
+  const result = lottery?.lastResult;
+
+  if (!result) return null;
+
+  return (
+    <Alert className={`${result.allocated ? "bg-green-50 border-green-600" : "bg-gray-50 border-gray-400"} border-l-4 mb-8`}>
+      <Ticket className="h-4 w-4" />
+      <AlertTitle>Lottery Result / లాటరీ ఫలితం</AlertTitle>
+      <AlertDescription className="text-sm text-gray-600">
+        {result.allocated && result.date
+          ? `You were allocated ${format(new Date(result.date), "EEEE, MMMM d 'at' h:mm a")}. / మీకు అపాయింట్‌మెంట్ కేటాయించబడింది.`
+          : "You were not allocated a slot in the last draw. / చివరి డ్రాలో మీకు స్లాట్ కేటాయించబడలేదు."}
+      </AlertDescription>
+    </Alert>
+  );
+}
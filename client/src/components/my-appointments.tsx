@@ -3,6 +3,8 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate, formatTime } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Card,
   CardContent,
@@ -21,8 +23,14 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useLocation } from "wouter";
+import RescheduleDialog from "@/components/reschedule-dialog";
+import { appointmentStatusLabels, type AppointmentStatus } from "@shared/appointment-status";
+import { useBookingConfig } from "@/hooks/use-booking-config";
+import AttendanceStrikes, { useAttendance } from "@/components/attendance-strikes";
+import MyWaitlist from "@/components/waitlist";
+import { parseAttendancePolicy, isLateCancellation } from "@shared/attendance-policy";
 
 import { 
   CalendarDays, 
@@ -38,68 +46,30 @@ export default function MyAppointments() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [appointmentToCancel, setAppointmentToCancel] = useState<number | null>(null);
+  const [cancellationReason, setCancellationReason] = useState("");
+  const [appointmentToReschedule, setAppointmentToReschedule] = useState<any | null>(null);
+  const { configs, getRescheduleViolations } = useBookingConfig();
+  const { data: attendance } = useAttendance();
 
-  const { data: user } = useQuery({
+  const { data: user } = useQuery<{ blockedUntil: string | null }>({
     queryKey: ["/api/user"],
     refetchInterval: 5000, // refetch every 5 seconds
     refetchIntervalInBackground: true, // even when tab is inactive
   });
   
   
-  // Fetch user's appointments
-  const { data: originalAppointments = [], isLoading } = useQuery({
+  // Fetch user's appointments; statuses are moved along by the server as appointment times pass
+  const { data: appointments = [], isLoading } = useQuery<any[]>({
     queryKey: ["/api/appointments"],
     staleTime: 0,
     refetchOnWindowFocus: true,
     refetchOnMount: true,
   });
   
-  // Process appointments to automatically mark appointments as processing or completed
-  const [appointments, setAppointments] = useState([]);
-  
-  useEffect(() => {
-    if (originalAppointments.length > 0) {
-      const currentDate = new Date();
-      
-      const processedAppointments = originalAppointments.map((appointment) => {
-        const updatedAppointment = { ...appointment };
-        const appointmentDate = new Date(updatedAppointment.date);
-        const appointmentDayEnd = new Date(appointmentDate);
-        appointmentDayEnd.setHours(19, 0, 0, 0); // 7 PM
-  
-        // If appointment is confirmed and current time is past 7 PM on appointment day
-        if (updatedAppointment.status === "confirmed" && currentDate > appointmentDayEnd) {
-          updatedAppointment.status = "completed";
-          updateAppointmentStatus(updatedAppointment.id, "completed");
-        }
-        // If appointment is confirmed and current time is past appointment start time but before 7 PM
-        else if (updatedAppointment.status === "confirmed" && currentDate >= appointmentDate && currentDate < appointmentDayEnd) {
-          updatedAppointment.status = "processing";
-          updateAppointmentStatus(updatedAppointment.id, "processing");
-        }
-        
-        return updatedAppointment;
-      });
-      
-      setAppointments(processedAppointments);
-    }
-  }, [originalAppointments]);
-  
-  // Update appointment status in the backend
-  const updateAppointmentStatus = async (id, status) => {
-    try {
-      await apiRequest("PATCH", `/api/appointments/${id}`, { status });
-      // Silently update without notifications to avoid spamming the user
-      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
-    } catch (error) {
-      console.error("Failed to update appointment status:", error);
-    }
-  };
-  
   // Cancel appointment mutation
   const cancelAppointmentMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/appointments/${id}`);
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      await apiRequest("DELETE", `/api/appointments/${id}`, { reason: reason.trim() || undefined });
     },
     onSuccess: () => {
       toast({
@@ -107,7 +77,10 @@ export default function MyAppointments() {
         description: "Your appointment has been successfully cancelled.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/attendance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       setAppointmentToCancel(null);
+      setCancellationReason("");
     },
     onError: (error: Error) => {
       toast({
@@ -126,14 +99,20 @@ export default function MyAppointments() {
   // Handle cancel action
   const handleCancel = () => {
     if (appointmentToCancel) {
-      cancelAppointmentMutation.mutate(appointmentToCancel);
+      cancelAppointmentMutation.mutate({ id: appointmentToCancel, reason: cancellationReason });
     }
   };
   
+  // Warn before a cancellation that would count against the user
+  const cancellingAppointment = appointments.find((app: any) => app.id === appointmentToCancel);
+  const isLateCancel = !!cancellingAppointment &&
+    parseAttendancePolicy(configs).lateCancellationLimit > 0 &&
+    isLateCancellation(parseAttendancePolicy(configs), cancellingAppointment.date);
+  
   // Group appointments by status
   const upcomingAppointments = appointments.filter((app: any) => app.status === "confirmed");
-  const currentAppointments = appointments.filter((app: any) => app.status === "processing");
-  const pastAppointments = appointments.filter((app: any) => ["completed", "cancelled"].includes(app.status));
+  const currentAppointments = appointments.filter((app: any) => ["checked_in", "in_progress"].includes(app.status));
+  const pastAppointments = appointments.filter((app: any) => ["completed", "cancelled", "no_show"].includes(app.status));
 
   if (user?.blockedUntil && new Date(user.blockedUntil) > new Date()) {
     return (
@@ -143,9 +122,10 @@ export default function MyAppointments() {
           Account Blocked / ఖాతా నిరోధించబడింది
         </h2>
         <p className="text-gray-600 mb-4">
-          Your account has been blocked until next month due to missed appointment. 
-          Please contact support for resolution. 
-          <br></br>హాజరు కాకపోవడం వలన మీ ఖాతా తదుపరి నెల వరకు నిరోధించబడింది. పరిష్కారం కోసం సపోర్ట్‌ని సంప్రదించండి.
+          Your account is blocked from booking until {formatDate(new Date(user.blockedUntil))}.
+          {attendance?.block && <> Reason: {attendance.block.reason}.</>}
+          {" "}Please contact support for resolution.
+          <br></br>మీ ఖాతా {formatDate(new Date(user.blockedUntil))} వరకు నిరోధించబడింది. పరిష్కారం కోసం సపోర్ట్‌ని సంప్రదించండి.
         </p>
         <Button
           onClick={() => {
@@ -182,6 +162,8 @@ export default function MyAppointments() {
     return (
       <div className="max-w-4xl mx-auto">
         <h2 className="font-heading text-2xl font-bold text-gray-800 mb-6">My Appointments</h2>
+        <AttendanceStrikes />
+        <MyWaitlist />
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <CalendarDays className="h-16 w-16 text-gray-300 mb-4" />
@@ -201,6 +183,8 @@ export default function MyAppointments() {
   return (
     <div className="max-w-4xl mx-auto">
       <h2 className="font-heading text-2xl font-bold text-gray-800 mb-6">My Appointments</h2>
+      <AttendanceStrikes />
+      <MyWaitlist />
       
       {/* Upcoming appointments */}
       <div className="mb-8">
@@ -214,6 +198,8 @@ export default function MyAppointments() {
             {upcomingAppointments.map((appointment: any) => {
               const appointmentDate = new Date(appointment.date);
               const endTime = new Date(appointment.endTime);
+              const [rescheduleViolation] = getRescheduleViolations(appointment);
+              const rescheduleBlockedReason = rescheduleViolation?.message;
               
               return (
                 <Card key={appointment.id} className="overflow-hidden">
@@ -271,7 +257,18 @@ export default function MyAppointments() {
                       </div>
                     </div>
                     
-                    <div className="border-t border-gray-200 px-4 sm:px-6 py-3 bg-gray-50 flex flex-wrap gap-3 justify-end">
+                    <div className="border-t border-gray-200 px-4 sm:px-6 py-3 bg-gray-50 flex flex-wrap gap-3 justify-end items-center">
+                      {rescheduleBlockedReason && (
+                        <span className="text-xs text-gray-500 mr-auto">{rescheduleBlockedReason}</span>
+                      )}
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        disabled={!!rescheduleBlockedReason}
+                        onClick={() => setAppointmentToReschedule(appointment)}
+                      >
+                        Reschedule
+                      </Button>
                       <Button 
                         variant="destructive" 
                         size="sm"
@@ -299,7 +296,7 @@ export default function MyAppointments() {
         <div className="mb-8">
           <h3 className="text-lg font-medium mb-4 flex items-center text-gray-700">
             <Clock className="h-5 w-5 mr-2 text-amber-500" />
-            In Progress Appointments
+            Current Appointments
           </h3>
           
           <div className="grid gap-4">
@@ -319,7 +316,7 @@ export default function MyAppointments() {
                         </div>
                         <div className="mt-2 sm:mt-0">
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
-                            In Progress
+                            {appointmentStatusLabels[appointment.status as AppointmentStatus]}
                           </span>
                         </div>
                       </div>
@@ -383,6 +380,7 @@ export default function MyAppointments() {
               const appointmentDate = new Date(appointment.date);
               const endTime = new Date(appointment.endTime);
               const isCompleted = appointment.status === "completed";
+              const isCancelled = appointment.status === "cancelled";
               
               return (
                 <Card key={appointment.id}>
@@ -396,7 +394,7 @@ export default function MyAppointments() {
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                           isCompleted ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
                         }`}>
-                          {isCompleted ? 'Completed' : 'Cancelled'}
+                          {appointmentStatusLabels[appointment.status as AppointmentStatus]}
                         </span>
                       </div>
                     </div>
@@ -418,6 +416,15 @@ export default function MyAppointments() {
                       </div>
                     </div>
                     
+                    {isCancelled && appointment.cancelledAt && (
+                      <p className="mt-4 text-sm text-gray-600">
+                        {appointment.cancelledBy === appointment.userId ? "You cancelled" : "Cancelled by us"} on{" "}
+                        {formatDate(new Date(appointment.cancelledAt))} at {formatTime(new Date(appointment.cancelledAt))}
+                        {appointment.lateCancellation && <span className="text-red-600"> (late cancellation)</span>}
+                        {appointment.cancellationReason && <>. Reason: {appointment.cancellationReason}</>}
+                      </p>
+                    )}
+                    
                     {isCompleted && (
                       <div className="mt-4 pt-4 border-t border-gray-200 flex justify-end">
                         <Button variant="outline" size="sm" onClick={() => window.location.href = "/"}>Book Again</Button>
@@ -431,8 +438,22 @@ export default function MyAppointments() {
         </div>
       )}
       
+      {/* Reschedule appointment dialog */}
+      <RescheduleDialog 
+        appointment={appointmentToReschedule} 
+        onClose={() => setAppointmentToReschedule(null)} 
+      />
+      
       {/* Cancel appointment confirmation dialog */}
-      <AlertDialog open={appointmentToCancel !== null} onOpenChange={(open) => !open && setAppointmentToCancel(null)}>
+      <AlertDialog
+        open={appointmentToCancel !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setAppointmentToCancel(null);
+            setCancellationReason("");
+          }
+        }}
+      >
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle className="flex items-center">
@@ -441,8 +462,23 @@ export default function MyAppointments() {
             </AlertDialogTitle>
             <AlertDialogDescription>
               Are you sure you want to cancel this appointment? This action cannot be undone.
+              {isLateCancel && attendance && (
+                <span className="block mt-2 text-red-600">
+                  This appointment is less than {attendance.policy.lateCancellationHours} hours away, so cancelling
+                  now counts as a late cancellation.
+                </span>
+              )}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancellation-reason">Reason (optional)</Label>
+            <Textarea
+              id="cancellation-reason"
+              value={cancellationReason}
+              maxLength={500}
+              onChange={(e) => setCancellationReason(e.target.value)}
+            />
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Keep Appointment</AlertDialogCancel>
             <AlertDialogAction onClick={handleCancel} className="bg-red-500 hover:bg-red-600">
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { User, KeyRound } from "lucide-react";
+
+// Passwordless sign-in: a code is emailed to the account found by username, email or mobile
+export default function OtpLoginForm() {
+  const { otpLoginMutation } = useAuth();
+  const [identifier, setIdentifier] = useState("");
+  const [otp, setOtp] = useState("");
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState("");
+
+  const sendCode = async () => {
+    setError("");
+    setIsSending(true);
+    try {
+      const response = await fetch("/api/login/send-otp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ identifier })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.message || "Failed to send the code. Please try again.");
+        return;
+      }
+
+      setSentMessage(result.message);
+    } catch (error) {
+      console.error("Login OTP sending error:", error);
+      setError("Failed to send the code. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const signIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    otpLoginMutation.mutate({ identifier, otp }, {
+      onError: (error) => setError(error.message),
+    });
+  };
+
+  const startOver = () => {
+    setSentMessage(null);
+    setOtp("");
+    setError("");
+  };
+
+  return (
+    <form onSubmit={sentMessage ? signIn : (e) => { e.preventDefault(); sendCode(); }} className="space-y-4">
+      {error && (
+        <div className="bg-red-400/20 text-white p-3 rounded-md text-sm backdrop-blur-sm border border-red-500/30">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="otp-login-identifier" className="text-white">Username, Email or Mobile</Label>
+        <div className="relative">
+          <User className="absolute left-3 top-2.5 h-5 w-5 text-white/70" />
+          <Input
+            id="otp-login-identifier"
+            className="pl-10 bg-white/10 border-white/20 text-[#0A1A38]/100 placeholder:text-white/50 focus:border-white/40"
+            placeholder="Enter your username, email or mobile"
+            value={identifier}
+            disabled={sentMessage !== null}
+            onChange={(e) => setIdentifier(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {sentMessage && (
+        <div className="space-y-2">
+          <Label htmlFor="otp-login-code" className="text-white">Sign-in Code</Label>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-2.5 h-5 w-5 text-white/70" />
+            <Input
+              id="otp-login-code"
+              className="pl-10 bg-white/10 border-white/20 text-[#0A1A38]/100 placeholder:text-white/50 focus:border-white/40"
+              placeholder="6-digit code"
+              inputMode="numeric"
+              maxLength={6}
+              value={otp}
+              onChange={(e) => setOtp(e.target.value)}
+            />
+          </div>
+          <p className="text-sm text-white/80">
+            {sentMessage}.{" "}
+            <Button type="button" variant="link" className="p-0 h-auto text-sm text-white/90 hover:text-white" disabled={isSending} onClick={sendCode}>
+              Resend
+            </Button>
+            {" · "}
+            <Button type="button" variant="link" className="p-0 h-auto text-sm text-white/90 hover:text-white" onClick={startOver}>
+              Use a different account
+            </Button>
+          </p>
+        </div>
+      )}
+
+      {sentMessage ? (
+        <Button
+          type="submit"
+          className="w-full bg-[#3D5DAB]/100 hover:bg-[#3D5DAB]/120 text-white"
+          disabled={otp.length !== 6 || otpLoginMutation.isPending}
+        >
+          {otpLoginMutation.isPending ? "Signing in..." : "Sign In"}
+        </Button>
+      ) : (
+        <Button
+          type="submit"
+          className="w-full bg-[#3D5DAB]/100 hover:bg-[#3D5DAB]/120 text-white"
+          disabled={!identifier.trim() || isSending}
+        >
+          {isSending ? "Sending..." : "Send Me a Code"}
+        </Button>
+      )}
+    </form>
+  );
+}
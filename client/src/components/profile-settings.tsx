@@ -7,7 +7,7 @@ import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { User } from "@shared/schema";
+import { User, EmailLanguage } from "@shared/schema";
 
 import {
   Card,
@@ -34,6 +34,13 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Badge } from "@/components/ui/badge";
+import ChangeEmailDialog from "@/components/change-email-dialog";
+import ActiveSessions from "@/components/active-sessions";
+import TwoFactorSettings from "@/components/two-factor-settings";
 import {
   Dialog,
   DialogContent,
@@ -83,6 +90,7 @@ export default function ProfileSettings() {
   const [, navigate] = useLocation();
   const [activeSection, setActiveSection] = useState<string>("profile");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [emailDialogOpen, setEmailDialogOpen] = useState(false);
 
   // Extract the section from URL if available
   const urlParams = new URLSearchParams(window.location.search);
@@ -159,6 +167,28 @@ export default function ProfileSettings() {
     },
   });
 
+  // Update notification preferences mutation
+  const updateNotificationsMutation = useMutation({
+    mutationFn: async (data: { preferredLanguage?: EmailLanguage; remindersEnabled?: boolean }) => {
+      const res = await apiRequest("PATCH", "/api/user/notifications", data);
+      return await res.json() as User;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      toast({
+        title: "Preferences updated",
+        description: "Your notification preferences have been saved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Delete account mutation
   const deleteAccountMutation = useMutation({
     mutationFn: async () => {
@@ -287,10 +317,25 @@ export default function ProfileSettings() {
                     name="email"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Email Address</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Your email" {...field} />
-                        </FormControl>
+                        <FormLabel className="flex items-center gap-2">
+                          Email Address
+                          {user?.emailVerifiedAt ? (
+                            <Badge variant="secondary" className="text-green-700">Verified</Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-amber-700">Not verified</Badge>
+                          )}
+                        </FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input placeholder="Your email" {...field} disabled />
+                          </FormControl>
+                          <Button type="button" variant="outline" onClick={() => setEmailDialogOpen(true)}>
+                            {user?.emailVerifiedAt ? "Change" : "Verify"}
+                          </Button>
+                        </div>
+                        <FormDescription>
+                          A new email address has to be verified with a code before it is saved
+                        </FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -319,6 +364,12 @@ export default function ProfileSettings() {
                   </Button>
                 </form>
               </Form>
+              <ChangeEmailDialog
+                open={emailDialogOpen}
+                currentEmail={user?.email ?? null}
+                onClose={() => setEmailDialogOpen(false)}
+                onChanged={(updatedUser) => profileForm.setValue("email", updatedUser.email || "")}
+              />
             </CardContent>
           </Card>
         )}
@@ -389,6 +440,10 @@ export default function ProfileSettings() {
               </CardContent>
             </Card>
 
+            <TwoFactorSettings />
+
+            <ActiveSessions />
+
             <Card className="border-red-100">
               <CardHeader>
                 <CardTitle className="text-red-600">Delete Account</CardTitle>
@@ -444,11 +499,49 @@ export default function ProfileSettings() {
                   <TabsTrigger value="language">Language</TabsTrigger>
                 </TabsList>
                 <TabsContent value="notifications">
-                  <div className="space-y-4">
-                    <h3 className="font-medium">Coming Soon</h3>
-                    <p className="text-sm text-gray-500">
-                      Notification preferences will be available in a future update.
-                    </p>
+                  <div className="space-y-6">
+                    <div className="flex items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="reminders-enabled">Appointment reminders</Label>
+                        <p className="text-sm text-gray-500">
+                          Email me a reminder before each of my appointments
+                        </p>
+                      </div>
+                      <Switch
+                        id="reminders-enabled"
+                        checked={user?.remindersEnabled ?? true}
+                        disabled={updateNotificationsMutation.isPending}
+                        onCheckedChange={(checked) =>
+                          updateNotificationsMutation.mutate({ remindersEnabled: checked })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-3">
+                      <h3 className="font-medium">Email language</h3>
+                      <p className="text-sm text-gray-500">
+                        Language used for the emails we send you
+                      </p>
+                      <RadioGroup
+                        value={user?.preferredLanguage ?? "both"}
+                        disabled={updateNotificationsMutation.isPending}
+                        onValueChange={(value) =>
+                          updateNotificationsMutation.mutate({ preferredLanguage: value as EmailLanguage })
+                        }
+                      >
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="en" id="language-en" />
+                          <Label htmlFor="language-en">English</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="te" id="language-te" />
+                          <Label htmlFor="language-te">తెలుగు (Telugu)</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="both" id="language-both" />
+                          <Label htmlFor="language-both">Both / రెండూ</Label>
+                        </div>
+                      </RadioGroup>
+                    </div>
                   </div>
                 </TabsContent>
                 <TabsContent value="language">
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import BookingCalendar from "@/components/booking-calendar";
+import TimeSlots from "@/components/time-slots";
+import { Clock } from "lucide-react";
+
+interface RescheduleDialogProps {
+  appointment: { id: number; date: string } | null;
+  onClose: () => void;
+}
+
+// Pick a new slot for an existing appointment; the old slot is released when the move succeeds
+export default function RescheduleDialog({ appointment, onClose }: RescheduleDialogProps) {
+  const { toast } = useToast();
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedTime, setSelectedTime] = useState<Date | null>(null);
+
+  const handleClose = () => {
+    setSelectedDate(null);
+    setSelectedTime(null);
+    onClose();
+  };
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ id, date }: { id: number; date: Date }) => {
+      const res = await apiRequest("POST", `/api/appointments/${id}/reschedule`, { date: date.toISOString() });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Appointment Rescheduled",
+        description: "Your appointment has been moved to the new time.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/available-slots"] });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      // The slot may have been taken in the meantime
+      queryClient.invalidateQueries({ queryKey: ["/api/available-slots"] });
+      toast({
+        title: "Reschedule Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDateSelect = (date: Date) => {
+    setSelectedDate(date);
+    setSelectedTime(null);
+  };
+
+  return (
+    <Dialog open={appointment !== null} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reschedule Appointment / అపాయింట్‌మెంట్ సమయం మార్చండి</DialogTitle>
+          <DialogDescription>
+            {appointment && `Currently booked for ${format(new Date(appointment.date), "EEEE, MMMM d 'at' h:mm a")}. Choose a new date and time.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-6">
+          <div className="md:col-span-5">
+            <BookingCalendar selectedDate={selectedDate} onSelectDate={handleDateSelect} />
+          </div>
+          <div className="md:col-span-7">
+            {selectedDate ? (
+              <TimeSlots
+                selectedDate={selectedDate}
+                selectedTime={selectedTime}
+                onSelectTime={setSelectedTime}
+                rescheduleAppointmentId={appointment?.id}
+              />
+            ) : (
+              <div className="bg-white rounded-lg shadow-md p-6 text-center">
+                <Clock className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">Please select a date to view available time slots</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Keep Current Time</Button>
+          <Button
+            disabled={!appointment || !selectedTime || rescheduleMutation.isPending}
+            onClick={() => appointment && selectedTime && rescheduleMutation.mutate({ id: appointment.id, date: selectedTime })}
+          >
+            {rescheduleMutation.isPending
+              ? "Rescheduling..."
+              : selectedTime
+                ? `Move to ${format(selectedTime, "MMM d, h:mm a")}`
+                : "Select a new time"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
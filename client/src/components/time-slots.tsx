@@ -4,12 +4,14 @@ import { cn } from "@/lib/utils";
 import { useQuery } from "@tanstack/react-query";
 import { Sun, Moon } from "lucide-react";
 import { useBookingConfig } from "@/hooks/use-booking-config";
+import { WaitlistJoin } from "@/components/waitlist";
 
 interface TimeSlotsProps {
   selectedDate: Date;
   selectedTime: Date | null;
   onSelectTime: (time: Date) => void;
   disabled?: boolean;
+  rescheduleAppointmentId?: number; // Appointment being moved; it doesn't count towards the weekly limit
 }
 
 interface AvailableSlot {
@@ -20,12 +22,13 @@ interface AvailableSlot {
 }
 
 interface Appointment {
+  id: number;
   date: string;
   status: string;
   userId: number;
 }
 
-export default function TimeSlots({ selectedDate, selectedTime, onSelectTime, disabled = false }: TimeSlotsProps) {
+export default function TimeSlots({ selectedDate, selectedTime, onSelectTime, disabled = false, rescheduleAppointmentId }: TimeSlotsProps) {
   // Use the booking configuration hook
   const { 
     getTimeSlots, 
@@ -33,7 +36,8 @@ export default function TimeSlots({ selectedDate, selectedTime, onSelectTime, di
     morningSlotEnd, 
     afternoonSlotStart, 
     afternoonSlotEnd,
-    isValidTimeSlot
+    isValidTimeSlot,
+    evaluateBooking
   } = useBookingConfig();
   
   // Get all possible time slots for the selected date based on configuration
@@ -73,20 +77,12 @@ export default function TimeSlots({ selectedDate, selectedTime, onSelectTime, di
 
   // Check if user has an appointment in the same week
   const hasAppointmentInWeek = (date: Date): boolean => {
-    const startOfWeek = new Date(date);
-    startOfWeek.setDate(date.getDate() - date.getDay()); // Sunday
-    startOfWeek.setHours(0, 0, 0, 0);
-    
-    const endOfWeek = new Date(startOfWeek);
-    endOfWeek.setDate(startOfWeek.getDate() + 6); // Saturday
-    endOfWeek.setHours(23, 59, 59, 999);
-    
-    return existingAppointments.some((appointment: Appointment) => {
-      const appointmentDate = new Date(appointment.date);
-      return appointment.status !== 'cancelled' &&
-             appointmentDate >= startOfWeek &&
-             appointmentDate <= endOfWeek;
-    });
+    const otherAppointments = existingAppointments.filter(
+      (appointment: Appointment) => appointment.id !== rescheduleAppointmentId
+    );
+    return evaluateBooking(date, otherAppointments).violations.some(
+      violation => violation.code === "WEEKLY_LIMIT"
+    );
   };
 
   // Check if a slot is already booked
@@ -150,16 +146,12 @@ export default function TimeSlots({ selectedDate, selectedTime, onSelectTime, di
 
   // Get slot status for UI display
   const getSlotStatus = (slot: Date): { isAvailable: boolean; reason?: string } => {
-    const now = new Date();
-    
-    // Check if slot is today and in the past
-    if (isSameDay(slot, now) && isBefore(slot, now)) {
-      return { isAvailable: false, reason: "This time slot is in the past" };
-    }
-    
-    // Check if the slot is valid according to booking configuration
-    if (!isValidTimeSlot(slot)) {
-      return { isAvailable: false, reason: "This time slot is outside booking hours" };
+    // Check the slot against the shared booking rules (the weekly limit is reported last)
+    const ruleViolation = evaluateBooking(slot, existingAppointments).violations.find(
+      violation => violation.code !== "WEEKLY_LIMIT"
+    );
+    if (ruleViolation) {
+      return { isAvailable: false, reason: ruleViolation.message };
     }
 
     // Check if the slot is booked
@@ -206,6 +198,10 @@ export default function TimeSlots({ selectedDate, selectedTime, onSelectTime, di
     return isSameDay(slot, now) && isBefore(slot, now);
   };
   
+  // Every bookable slot left on the day is taken, so offer the waitlist instead
+  const upcomingSlots = timeSlots.filter((slot: Date) => !isBefore(slot, new Date()));
+  const isFullyBooked = !isLoadingSlots && upcomingSlots.some(isSlotBooked) && !upcomingSlots.some(isSlotAvailable);
+  
   return (
     <div className="bg-white rounded-lg shadow-md p-4">
       <div className="flex justify-between items-center mb-4">
@@ -323,6 +319,10 @@ export default function TimeSlots({ selectedDate, selectedTime, onSelectTime, di
         </div>
       </div>
       
+      {isFullyBooked && rescheduleAppointmentId === undefined && (
+        <WaitlistJoin date={selectedDate} />
+      )}
+      
       {/* Time slots legend */}
       <div className="mt-6 pt-4 border-t border-gray-200 flex flex-wrap gap-4">
         <div className="flex items-center">
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { User as SelectUser } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound, Loader2, ShieldCheck } from "lucide-react";
+
+type SignedInUser = Omit<SelectUser, "password"> & { recoveryCodes?: string[] };
+
+// Second sign-in step: set up an authenticator app on first use, then enter its code (or a recovery code)
+export default function TwoFactorForm() {
+  const { twoFactorChallenge, completeTwoFactor, cancelTwoFactor } = useAuth();
+  const enrolled = twoFactorChallenge?.enrolled ?? true;
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  // Shown once after setup, before continuing to the app
+  const [signedInUser, setSignedInUser] = useState<SignedInUser | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/login/2fa/setup");
+      return await res.json() as { secret: string; otpauthUrl: string };
+    },
+    onSuccess: setSetup,
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/login/2fa/verify", { code });
+      return await res.json() as SignedInUser;
+    },
+    onSuccess: (user) => {
+      if (user.recoveryCodes) {
+        setSignedInUser(user);
+        return;
+      }
+      completeTwoFactor(user);
+    },
+    onError: (error: Error) => {
+      setCode("");
+      setError(error.message);
+    },
+  });
+
+  useEffect(() => {
+    if (!enrolled) setupMutation.mutate();
+  }, [enrolled]);
+
+  if (signedInUser?.recoveryCodes) {
+    const { recoveryCodes, ...user } = signedInUser;
+    return (
+      <div className="space-y-4 text-white">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-green-300" />
+          <h2 className="font-semibold text-lg">Two-factor authentication is on</h2>
+        </div>
+        <p className="text-sm text-white/80">
+          Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose your
+          authenticator app. They won't be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-white/10 rounded-md p-4 border border-white/20">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <Button
+          className="w-full bg-[#3D5DAB]/100 hover:bg-[#3D5DAB]/120 text-white"
+          onClick={() => completeTwoFactor(user)}
+        >
+          I've Saved These Codes
+        </Button>
+      </div>
+    );
+  }
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    verifyMutation.mutate();
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4 text-white">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-yellow-300" />
+        <h2 className="font-semibold text-lg">
+          {enrolled ? "Two-Factor Authentication" : "Set Up Two-Factor Authentication"}
+        </h2>
+      </div>
+
+      {error && (
+        <div className="bg-red-400/20 text-white p-3 rounded-md text-sm backdrop-blur-sm border border-red-500/30">
+          {error}
+        </div>
+      )}
+
+      {!enrolled && (
+        setup ? (
+          <div className="space-y-2 text-sm text-white/80">
+            <p>
+              Staff accounts need an authenticator app such as Google Authenticator or Authy. Add this account
+              to your app with the key below, or{" "}
+              <a href={setup.otpauthUrl} className="underline text-white">open it in your authenticator app</a>.
+            </p>
+            <p className="font-mono text-base text-white bg-white/10 rounded-md p-3 border border-white/20 break-all">
+              {setup.secret.match(/.{1,4}/g)?.join(" ")}
+            </p>
+            <p>Then enter the 6-digit code the app shows.</p>
+          </div>
+        ) : (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )
+      )}
+
+      {enrolled && (
+        <p className="text-sm text-white/80">
+          Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-code" className="text-white">
+          {enrolled ? "Authentication Code" : "Code from Your App"}
+        </Label>
+        <div className="relative">
+          <KeyRound className="absolute left-3 top-2.5 h-5 w-5 text-white/70" />
+          <Input
+            id="two-factor-code"
+            className="pl-10 bg-white/10 border-white/20 text-[#0A1A38]/100 placeholder:text-white/50 focus:border-white/40"
+            placeholder={enrolled ? "123456 or recovery code" : "123456"}
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-[#3D5DAB]/100 hover:bg-[#3D5DAB]/120 text-white"
+        disabled={code.trim().length < 6 || verifyMutation.isPending || (!enrolled && !setup)}
+      >
+        {verifyMutation.isPending ? "Verifying..." : "Verify"}
+      </Button>
+      <Button
+        type="button"
+        variant="link"
+        className="w-full text-sm text-white/90 hover:text-white"
+        onClick={cancelTwoFactor}
+      >
+        Back to sign in
+      </Button>
+    </form>
+  );
+}
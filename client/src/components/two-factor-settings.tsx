@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Two-factor status and new recovery codes; only shown once an authenticator app is set up at sign-in
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/2fa"],
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/recovery-codes", { code });
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not generate recovery codes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!status?.enabled) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          <Badge variant="secondary">On</Badge>
+        </CardTitle>
+        <CardDescription>
+          You sign in with your password and a code from your authenticator app.
+          {" "}{status.recoveryCodesRemaining} recovery code(s) left.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <>
+            <p className="text-sm text-gray-600">
+              Your new recovery codes are below; the old ones no longer work. Save them somewhere safe.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 rounded-md p-4 border">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button variant="outline" onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </>
+        ) : (
+          <form
+            className="flex items-end gap-2"
+            onSubmit={(e) => { e.preventDefault(); regenerateMutation.mutate(); }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="recovery-codes-code">Code from your authenticator app</Label>
+              <Input
+                id="recovery-codes-code"
+                inputMode="numeric"
+                maxLength={6}
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={code.length !== 6 || regenerateMutation.isPending}>
+              New Recovery Codes
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
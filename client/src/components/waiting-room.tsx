@@ -0,0 +1,88 @@
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useWaitingRoom } from "@/hooks/use-waiting-room";
+import { CheckCircle2, Hourglass, Users } from "lucide-react";
+
+interface WaitingRoomProps {
+  isWindowOpen: boolean;
+}
+
+// Shows the user's place in the waiting room for the weekly booking window
+export default function WaitingRoom({ isWindowOpen }: WaitingRoomProps) {
+  const { toast } = useToast();
+  const { status, joinMutation } = useWaitingRoom();
+
+  if (!status) return null;
+
+  const handleJoin = () => {
+    joinMutation.mutate(undefined, {
+      onError: (error: Error) => {
+        toast({
+          title: "Could not join the waiting room",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  if (status.state === "admitted") {
+    return (
+      <Alert className="bg-green-50 border-l-4 border-green-600 mb-8">
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+        <AlertTitle className="text-green-700">It's your turn! / మీ వంతు వచ్చింది!</AlertTitle>
+        <AlertDescription className="text-sm text-gray-600">
+          Please complete your booking before {status.admissionExpiresAt && format(new Date(status.admissionExpiresAt), "h:mm a")}.
+          <br />
+          దయచేసి {status.admissionExpiresAt && format(new Date(status.admissionExpiresAt), "h:mm a")} లోపు మీ బుకింగ్‌ను పూర్తి చేయండి.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status.state === "waiting") {
+    return (
+      <Alert className="bg-blue-50 border-l-4 border-blue-600 mb-8">
+        <Hourglass className="h-4 w-4 text-blue-600" />
+        <AlertTitle className="text-blue-700">You are in the waiting room / మీరు వెయిటింగ్ రూమ్‌లో ఉన్నారు</AlertTitle>
+        <AlertDescription className="text-sm text-gray-600 space-y-1">
+          {status.position === null ? (
+            <p>
+              Your place in line will be drawn at random when booking opens at {format(new Date(status.opensAt), "EEEE, h:mm a")}.
+              Everyone who joins before then has an equal chance. Please keep this page open.
+            </p>
+          ) : (
+            <>
+              <p className="font-medium">Position in line: {status.position} of {status.queueLength}</p>
+              {status.estimatedWaitSeconds !== undefined && (
+                <p>Estimated wait: about {Math.max(1, Math.ceil(status.estimatedWaitSeconds / 60))} minute(s)</p>
+              )}
+              <p>Please keep this page open; booking will unlock automatically when it's your turn.</p>
+            </>
+          )}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert className="bg-blue-50 border-l-4 border-blue-600 mb-8">
+      <Users className="h-4 w-4 text-blue-600" />
+      <AlertTitle className="text-blue-700">Waiting Room / వెయిటింగ్ రూమ్</AlertTitle>
+      <AlertDescription className="text-sm text-gray-600">
+        <p className="mb-3">
+          {status.state === "expired"
+            ? "Your booking turn has expired. You can rejoin the waiting room at the end of the line."
+            : isWindowOpen
+              ? "Booking is open. Join the waiting room to get your turn to book."
+              : `Join the waiting room before booking opens at ${format(new Date(status.opensAt), "EEEE, h:mm a")} for a fair, randomly drawn place in line.`}
+        </p>
+        <Button size="sm" onClick={handleJoin} disabled={joinMutation.isPending}>
+          {joinMutation.isPending ? "Joining..." : "Join Waiting Room"}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
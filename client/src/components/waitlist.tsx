@@ -0,0 +1,177 @@
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useWaitlist, type WaitlistEntry } from "@/hooks/use-waitlist";
+import { useCountdown, formatCountdown } from "@/hooks/use-countdown";
+import { getWaitlistPeriod } from "@shared/waitlist";
+import { BellRing, ListPlus, X } from "lucide-react";
+
+function describeEntry(entry: WaitlistEntry): string {
+  if (entry.scope === "day") {
+    return format(new Date(entry.date), "EEEE, MMMM d");
+  }
+  const { start, end } = getWaitlistPeriod("week", entry.date);
+  return `Week of ${format(start, "MMMM d")} - ${format(end, "MMMM d")}`;
+}
+
+function WaitlistOffer({ entry }: { entry: WaitlistEntry }) {
+  const { toast } = useToast();
+  const { claimMutation, declineMutation } = useWaitlist();
+  const timeLeft = formatCountdown(useCountdown(entry.offerExpiresAt));
+
+  const handleClaim = () => {
+    claimMutation.mutate(entry.id, {
+      onSuccess: () => {
+        toast({ title: "Appointment booked", description: "The slot from the waitlist is now yours." });
+      },
+      onError: (error: Error) => {
+        toast({ title: "Could not book the slot", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const handleDecline = () => {
+    declineMutation.mutate(entry.id, {
+      onError: (error: Error) => {
+        toast({ title: "Could not decline the slot", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <Alert className="bg-green-50 border-l-4 border-green-600 mb-4">
+      <BellRing className="h-4 w-4 text-green-600" />
+      <AlertTitle className="text-green-700">A slot has opened up for you / మీ కోసం ఒక స్లాట్ అందుబాటులో ఉంది</AlertTitle>
+      <AlertDescription className="text-sm text-gray-600">
+        <p className="mb-3">
+          {entry.offeredSlot && format(new Date(entry.offeredSlot), "EEEE, MMMM d 'at' h:mm a")} is being held for you
+          for {timeLeft}. After that it goes to the next person on the waitlist.
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleClaim} disabled={claimMutation.isPending}>
+            {claimMutation.isPending ? "Booking..." : "Book This Slot"}
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleDecline} disabled={declineMutation.isPending}>
+            No Thanks
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+// Slots offered to the user from the waitlist, shown wherever they are in the app
+export function WaitlistOffers() {
+  const { offers } = useWaitlist();
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      {offers.map((entry) => (
+        <WaitlistOffer key={entry.id} entry={entry} />
+      ))}
+    </div>
+  );
+}
+
+interface WaitlistJoinProps {
+  date: Date;
+}
+
+// Offered when every slot on the selected day is booked
+export function WaitlistJoin({ date }: WaitlistJoinProps) {
+  const { toast } = useToast();
+  const { entries, joinMutation } = useWaitlist();
+
+  const isWaiting = (scope: "day" | "week") => {
+    const start = getWaitlistPeriod(scope, date).start.getTime();
+    return entries.some((entry) =>
+      entry.scope === scope &&
+      new Date(entry.date).getTime() === start &&
+      (entry.status === "waiting" || entry.status === "offered")
+    );
+  };
+
+  const handleJoin = (scope: "day" | "week") => {
+    joinMutation.mutate({ scope, date }, {
+      onSuccess: () => {
+        toast({
+          title: "You're on the waitlist",
+          description: "We'll email you and show the slot here if one frees up.",
+        });
+      },
+      onError: (error: Error) => {
+        toast({ title: "Could not join the waitlist", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <div className="mt-6 p-4 rounded-md border border-blue-200 bg-blue-50">
+      <h4 className="font-medium text-gray-800 flex items-center gap-2 mb-1">
+        <ListPlus className="h-4 w-4 text-primary" />
+        Fully booked / అన్ని స్లాట్లు బుక్ అయ్యాయి
+      </h4>
+      <p className="text-sm text-gray-600 mb-3">
+        Join the waitlist and if someone cancels, the slot will be held for you for a short time.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => handleJoin("day")} disabled={joinMutation.isPending || isWaiting("day")}>
+          {isWaiting("day") ? "Waiting for this day" : "Join for this day"}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => handleJoin("week")} disabled={joinMutation.isPending || isWaiting("week")}>
+          {isWaiting("week") ? "Waiting for this week" : "Join for any day this week"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// The days and weeks the user is waiting for, with a way to leave
+export default function MyWaitlist() {
+  const { toast } = useToast();
+  const { entries, leaveMutation } = useWaitlist();
+  const waiting = entries.filter((entry) => entry.status === "waiting" || entry.status === "offered");
+
+  if (waiting.length === 0) return null;
+
+  const handleLeave = (id: number) => {
+    leaveMutation.mutate(id, {
+      onError: (error: Error) => {
+        toast({ title: "Could not leave the waitlist", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="text-lg">Waitlist</CardTitle>
+        <CardDescription>If a slot frees up we'll email you and hold it for you for a short time.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y text-sm">
+          {waiting.map((entry) => (
+            <li key={entry.id} className="flex justify-between items-center py-2">
+              <span>
+                {describeEntry(entry)}
+                {entry.status === "offered" && <span className="ml-2 text-green-700 font-medium">Slot offered</span>}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleLeave(entry.id)}
+                disabled={leaveMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Leave
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { createContext, ReactNode, useContext, useEffect } from "react";
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
 import {
   useQuery,
   useMutation,
@@ -7,6 +7,7 @@ import {
 import { insertUserSchema, User as SelectUser, LoginUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { hasPermission } from "@shared/permissions";
 import { useQueryClient } from "@tanstack/react-query";
 
 
@@ -14,17 +15,33 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<Omit<SelectUser, "password">, Error, LoginUser>;
+  loginMutation: UseMutationResult<SignInResult, Error, LoginUser>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<Omit<SelectUser, "password">, Error, z.infer<typeof insertUserSchema>>;
+  registerMutation: UseMutationResult<Omit<SelectUser, "password">, Error, RegisterData>;
+  otpLoginMutation: UseMutationResult<SignInResult, Error, OtpLoginData>;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  completeTwoFactor: (user: Omit<SelectUser, "password">) => void;
+  cancelTwoFactor: () => void;
 };
 
 import { z } from "zod";
 
+// Registration needs the token /api/verify-otp returns for the email address
+type RegisterData = z.infer<typeof insertUserSchema> & { verificationToken: string };
+
+// Passwordless sign-in with a code sent by /api/login/send-otp
+type OtpLoginData = { identifier: string; otp: string };
+
+// Admins (and anyone with an authenticator app set up) are asked for a second code after the first step
+export type TwoFactorChallenge = { twoFactorRequired: true; enrolled: boolean };
+type SignInResult = Omit<SelectUser, "password"> | TwoFactorChallenge;
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
 
   const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
 
   useEffect(() => {
     const channel = new BroadcastChannel("user-updates");
@@ -47,23 +64,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     refetchIntervalInBackground: true,
   });
 
+  const signedIn = (user: Omit<SelectUser, "password">) => {
+    setTwoFactorChallenge(null);
+    queryClient.setQueryData(["/api/user"], user);
+    toast({
+      title: "Login successful",
+      description: `Welcome back, ${user.name}!`,
+    });
+    
+    // Redirect staff to the admin dashboard
+    if (hasPermission(user, "dashboard.view") && window.location.pathname !== '/admin') {
+      window.location.href = '/admin';
+    }
+  };
+  
+  const handleSignInResult = (result: SignInResult) => {
+    if ("twoFactorRequired" in result) {
+      setTwoFactorChallenge(result);
+      return;
+    }
+    signedIn(result);
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginUser) => {
       const res = await apiRequest("POST", "/api/login", credentials);
-      return await res.json();
-    },
-    onSuccess: (user: Omit<SelectUser, "password">) => {
-      queryClient.setQueryData(["/api/user"], user);
-      toast({
-        title: "Login successful",
-        description: `Welcome back, ${user.name}!`,
-      });
-      
-      // Redirect admin users to admin dashboard
-      if (user.isAdmin && window.location.pathname !== '/admin') {
-        window.location.href = '/admin';
-      }
+      return await res.json() as SignInResult;
     },
+    onSuccess: handleSignInResult,
     onError: (error: Error) => {
       toast({
         title: "Login failed",
@@ -73,8 +101,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const otpLoginMutation = useMutation({
+    mutationFn: async (data: OtpLoginData) => {
+      const res = await apiRequest("POST", "/api/login/verify-otp", data);
+      const result = await res.json();
+      // A wrong code is answered with 200 and valid: false
+      if (result.valid === false) {
+        throw new Error(result.message || "Invalid OTP. Please try again.");
+      }
+      return result as SignInResult;
+    },
+    onSuccess: handleSignInResult,
+  });
+
   const registerMutation = useMutation({
-    mutationFn: async (userData: z.infer<typeof insertUserSchema>) => {
+    mutationFn: async (userData: RegisterData) => {
       const res = await apiRequest("POST", "/api/register", userData);
       return await res.json();
     },
@@ -123,6 +164,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         loginMutation,
         logoutMutation,
         registerMutation,
+        otpLoginMutation,
+        twoFactorChallenge,
+        completeTwoFactor: signedIn,
+        cancelTwoFactor: () => setTwoFactorChallenge(null),
       }}
     >
       {children}
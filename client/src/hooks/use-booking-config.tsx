@@ -1,5 +1,6 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useEffect } from "react";
+import { parseBookingRules, isDisabledDay, isValidTimeSlot, getTimeSlots, evaluateBooking, getRescheduleViolations, type WeeklyLimitAppointment } from "@shared/booking-rules";
 
 // Create a custom event for config changes
 export const CONFIG_UPDATED_EVENT = "booking-config-updated";
@@ -56,79 +57,33 @@ export function useBookingConfig() {
     return config ? config.value : defaultValue;
   };
   
-  // Parse configuration values
-  const bookingWindowDay = parseInt(getConfig("booking_window_day", "0")); // Default: Sunday (0)
-  const bookingWindowStartHour = parseInt(getConfig("booking_window_start_hour", "8")); // Default: 8 AM
-  const bookingWindowEndHour = parseInt(getConfig("booking_window_end_hour", "9")); // Default: 9 AM
-  const disabledDays = getConfig("disabled_days", "2,6") // Default: Tuesday (2) and Saturday (6)
-    .split(",")
-    .map(d => parseInt(d.trim()));
-  const morningSlotStart = parseInt(getConfig("morning_slot_start", "9")); // Default: 9 AM
-  const morningSlotEnd = parseInt(getConfig("morning_slot_end", "13")); // Default: 1 PM
-  const afternoonSlotStart = parseInt(getConfig("afternoon_slot_start", "15")); // Default: 3 PM
-  const afternoonSlotEnd = parseInt(getConfig("afternoon_slot_end", "17")); // Default: 5 PM
+  // Parse configuration values with the shared booking rules
+  const rules = parseBookingRules(configs);
+  const { bookingWindow, disabledDays, morning, afternoon } = rules;
   
   return {
     isLoading,
     error,
     configs,
     getConfig,
-    bookingWindowDay,
-    bookingWindowStartHour,
-    bookingWindowEndHour,
+    rules,
+    bookingWindowDay: bookingWindow.day,
+    bookingWindowStartHour: bookingWindow.startHour,
+    bookingWindowEndHour: bookingWindow.endHour,
     disabledDays,
-    morningSlotStart,
-    morningSlotEnd,
-    afternoonSlotStart,
-    afternoonSlotEnd,
+    morningSlotStart: morning.start,
+    morningSlotEnd: morning.end,
+    afternoonSlotStart: afternoon.start,
+    afternoonSlotEnd: afternoon.end,
+    slotDuration: rules.slotDuration,
     
     // Helper functions using configurations
-    isWithinBookingWindow: () => {
-      const now = new Date();
-      const currentDay = now.getDay();
-      const currentHour = now.getHours();
-      
-      return currentDay === bookingWindowDay && 
-             (currentHour >= bookingWindowStartHour && currentHour < bookingWindowEndHour);
-    },
-    
-    isDisabledDay: (date: Date) => {
-      return disabledDays.includes(date.getDay());
-    },
-    
-    isValidTimeSlot: (date: Date) => {
-      const hours = date.getHours();
-      const minutes = date.getMinutes();
-      
-      const isMorningSlot = (hours >= morningSlotStart && hours < morningSlotEnd) && minutes % 15 === 0;
-      const isAfternoonSlot = (hours >= afternoonSlotStart && hours < afternoonSlotEnd) && minutes % 15 === 0;
-      
-      return isMorningSlot || isAfternoonSlot;
-    },
-    
-    getTimeSlots: (date: Date) => {
-      const slots: Date[] = [];
-      const day = new Date(date);
-      
-      // Morning slots
-      for (let h = morningSlotStart; h < morningSlotEnd; h++) {
-        for (let m = 0; m < 60; m += 15) {
-          const slotTime = new Date(day);
-          slotTime.setHours(h, m, 0, 0);
-          slots.push(slotTime);
-        }
-      }
-      
-      // Afternoon slots
-      for (let h = afternoonSlotStart; h < afternoonSlotEnd; h++) {
-        for (let m = 0; m < 60; m += 15) {
-          const slotTime = new Date(day);
-          slotTime.setHours(h, m, 0, 0);
-          slots.push(slotTime);
-        }
-      }
-      
-      return slots;
-    }
+    isDisabledDay: (date: Date) => isDisabledDay(rules, date),
+    isValidTimeSlot: (date: Date) => isValidTimeSlot(rules, date),
+    getTimeSlots: (date: Date) => getTimeSlots(rules, date),
+    evaluateBooking: (slot: Date, userAppointments: WeeklyLimitAppointment[] = []) =>
+      evaluateBooking(rules, slot, userAppointments),
+    getRescheduleViolations: (appointment: { date: Date | string; status: string; rescheduleCount: number }) =>
+      getRescheduleViolations(rules, appointment),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { CONFIG_UPDATED_EVENT } from "@/hooks/use-booking-config";
+
+export interface BookingWindowState {
+  isOpen: boolean;
+  day: number;
+  startHour: number;
+  endHour: number;
+  opensAt: string;
+  closesAt: string;
+  serverTime: string;
+}
+
+// The booking window is decided by the server clock, so we ask the server
+// instead of comparing against the browser's time
+export function useBookingWindow() {
+  const queryClient = useQueryClient();
+
+  const { data: bookingWindow, isLoading, error } = useQuery<BookingWindowState>({
+    queryKey: ["/api/booking-window"],
+    staleTime: 0,
+    refetchInterval: 30000, // Recheck every 30 seconds
+    refetchOnWindowFocus: true,
+  });
+
+  // Refetch exactly when the window opens or closes rather than waiting for the next poll
+  useEffect(() => {
+    if (!bookingWindow) return;
+
+    const skew = new Date(bookingWindow.serverTime).getTime() - Date.now();
+    const nextChange = bookingWindow.isOpen ? bookingWindow.closesAt : bookingWindow.opensAt;
+    const delay = new Date(nextChange).getTime() - skew - Date.now();
+
+    // setTimeout can't handle delays longer than ~24.8 days, the regular poll covers those
+    if (delay <= 0 || delay > 2147483647) return;
+
+    const timeout = setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-window"] });
+    }, delay);
+
+    return () => clearTimeout(timeout);
+  }, [bookingWindow, queryClient]);
+
+  // Window settings can be changed from the admin page
+  useEffect(() => {
+    const handleConfigUpdate = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-window"] });
+    };
+
+    window.addEventListener(CONFIG_UPDATED_EVENT, handleConfigUpdate);
+    return () => window.removeEventListener(CONFIG_UPDATED_EVENT, handleConfigUpdate);
+  }, [queryClient]);
+
+  return {
+    bookingWindow,
+    isOpen: bookingWindow?.isOpen ?? false,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+// Seconds left until the given time, ticking every second
+export function useCountdown(until: string | null): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!until) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  if (!until) return 0;
+  return Math.max(0, Math.floor((new Date(until).getTime() - now) / 1000));
+}
+
+export function formatCountdown(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
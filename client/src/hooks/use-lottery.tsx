@@ -0,0 +1,40 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface LotteryStatus {
+  isLottery: boolean;
+  weekStart: string;
+  isOpen: boolean;
+  opensAt: string;
+  closesAt: string;
+  preferences: { rank: number; slotId: number; date: string }[];
+  lastResult: { weekStart: string; allocated: boolean; date: string | null } | null;
+}
+
+export function useLottery(enabled: boolean = true) {
+  const { data: lottery, isLoading } = useQuery<LotteryStatus>({
+    queryKey: ["/api/lottery"],
+    enabled,
+    staleTime: 0,
+    refetchInterval: 60000,
+  });
+
+  const savePreferencesMutation = useMutation({
+    mutationFn: async (slots: Date[]) => {
+      const res = await apiRequest("PUT", "/api/lottery/preferences", {
+        slots: slots.map(slot => slot.toISOString()),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lottery"] });
+    },
+  });
+
+  return {
+    lottery,
+    isLoading,
+    isLotteryMode: lottery?.isLottery ?? false,
+    savePreferencesMutation,
+  };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface SlotHold {
+  id: number;
+  slot: string;
+  expiresAt: string;
+}
+
+// Best effort: the hold runs out on its own if this never arrives. keepalive lets
+// the request finish while the page unloads.
+function releaseHold(id: number) {
+  fetch(`/api/slot-holds/${id}`, { method: "DELETE", credentials: "include", keepalive: true }).catch(() => {});
+}
+
+// Holds the picked slot while the user confirms the booking, and lets it go when they
+// pick another time, the summary closes or they leave the page
+export function useSlotHold(slot: Date | null, enabled: boolean, admissionToken?: string) {
+  const [hold, setHold] = useState<SlotHold | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const slotTime = slot?.getTime();
+
+  useEffect(() => {
+    setHold(null);
+    setError(null);
+    if (!enabled || slotTime === undefined) return;
+
+    let isCurrent = true;
+    let heldId: number | null = null;
+
+    apiRequest("POST", "/api/slot-holds", { date: new Date(slotTime).toISOString(), admissionToken })
+      .then((res) => res.json() as Promise<SlotHold>)
+      .then((created) => {
+        if (!isCurrent) {
+          releaseHold(created.id);
+          return;
+        }
+        heldId = created.id;
+        setHold(created);
+      })
+      .catch((holdError: Error) => {
+        if (!isCurrent) return;
+        setError(holdError.message);
+        // Someone else has it, so show it as taken
+        queryClient.invalidateQueries({ queryKey: ["/api/available-slots"] });
+      });
+
+    // Closing the tab or navigating off the site doesn't unmount anything
+    const handlePageHide = () => {
+      if (heldId !== null) releaseHold(heldId);
+    };
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      isCurrent = false;
+      window.removeEventListener("pagehide", handlePageHide);
+      if (heldId !== null) releaseHold(heldId);
+    };
+  }, [slotTime, enabled, admissionToken, attempt]);
+
+  // Ask for the slot again once the hold has run out
+  const renew = useCallback(() => setAttempt((current) => current + 1), []);
+
+  return { hold, error, renew };
+}
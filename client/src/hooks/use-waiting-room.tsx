@@ -0,0 +1,42 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface WaitingRoomStatus {
+  state: "not_joined" | "waiting" | "admitted" | "expired";
+  position: number | null;
+  queueLength: number;
+  opensAt: string;
+  closesAt: string;
+  admissionToken?: string;
+  admissionExpiresAt?: string;
+  estimatedWaitSeconds?: number;
+}
+
+export function useWaitingRoom(enabled: boolean = true) {
+  const { data: status, isLoading } = useQuery<WaitingRoomStatus>({
+    queryKey: ["/api/waiting-room"],
+    enabled,
+    staleTime: 0,
+    // Poll quickly while queued so users notice when they are admitted
+    refetchInterval: (query) => query.state.data?.state === "waiting" ? 3000 : 30000,
+    refetchIntervalInBackground: true,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/waiting-room");
+      return await res.json() as WaitingRoomStatus;
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(["/api/waiting-room"], status);
+    },
+  });
+
+  return {
+    status,
+    isLoading,
+    joinMutation,
+    isAdmitted: status?.state === "admitted",
+    admissionToken: status?.state === "admitted" ? status.admissionToken : undefined,
+  };
+}
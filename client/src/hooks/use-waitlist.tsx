@@ -0,0 +1,71 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { WaitlistScope, WaitlistStatus } from "@shared/waitlist";
+
+export interface WaitlistEntry {
+  id: number;
+  scope: WaitlistScope;
+  date: string;
+  status: WaitlistStatus;
+  offeredSlot: string | null;
+  offerExpiresAt: string | null;
+  appointmentId: number | null;
+}
+
+function invalidateWaitlist() {
+  queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+}
+
+export function useWaitlist(enabled: boolean = true) {
+  const { data: entries = [], isLoading } = useQuery<WaitlistEntry[]>({
+    queryKey: ["/api/waitlist"],
+    enabled,
+    staleTime: 0,
+    // Offers are only held for a few minutes, so check for them often
+    refetchInterval: 30000,
+    refetchIntervalInBackground: true,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async ({ scope, date }: { scope: WaitlistScope; date: Date }) => {
+      const res = await apiRequest("POST", "/api/waitlist", { scope, date: date.toISOString() });
+      return await res.json() as WaitlistEntry;
+    },
+    onSuccess: invalidateWaitlist,
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/waitlist/${id}/claim`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateWaitlist();
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/waitlist/${id}/decline`);
+    },
+    onSuccess: invalidateWaitlist,
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/waitlist/${id}`);
+    },
+    onSuccess: invalidateWaitlist,
+  });
+
+  return {
+    entries,
+    isLoading,
+    offers: entries.filter(entry => entry.status === "offered"),
+    joinMutation,
+    claimMutation,
+    declineMutation,
+    leaveMutation,
+  };
+}
@@ -1,6 +1,7 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 export function ProtectedRoute({
   path,
@@ -32,12 +33,15 @@ export function ProtectedRoute({
   return <Route path={path} component={Component} />;
 }
 
+// Staff pages; the permission defaults to opening the admin dashboard
 export function AdminRoute({
   path,
   component: Component,
+  permission = "dashboard.view",
 }: {
   path: string;
   component: () => React.JSX.Element;
+  permission?: Permission;
 }) {
   const { user, isLoading } = useAuth();
 
@@ -51,7 +55,7 @@ export function AdminRoute({
     );
   }
 
-  if (!user || !user.isAdmin) {
+  if (!user || !hasPermission(user, permission)) {
     return (
       <Route path={path}>
         <Redirect to="/" />
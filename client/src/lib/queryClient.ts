@@ -2,21 +2,18 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
+    let message = `${res.status}: ${res.statusText}`;
     try {
-      // Try to parse as JSON first
+      // Use the server's message when the response is JSON
       const contentType = res.headers.get('content-type');
       if (contentType && contentType.includes('application/json')) {
         const errorData = await res.json();
-        throw new Error(errorData.message || `${res.status}: ${res.statusText}`);
-      } else {
-        // If not JSON, handle as text
-        const text = await res.text();
-        throw new Error(`${res.status}: ${res.statusText}`);
+        message = errorData.message || message;
       }
     } catch (parseError) {
-      // If parsing fails
-      throw new Error(`${res.status}: ${res.statusText}`);
+      // Keep the status text if the body can't be parsed
     }
+    throw new Error(message);
   }
 }
 
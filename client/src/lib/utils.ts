@@ -23,61 +23,6 @@ export function formatPhoneNumber(phoneNumber: string): string {
   return phoneNumber.replace(/(\d{3})(\d{3})(\d{4})/, '($1) $2-$3');
 }
 
-export function isValidTimeSlot(date: Date): boolean {
-  const hours = date.getHours();
-  const minutes = date.getMinutes();
-  
-  // Check if time is in allowed ranges (9-13 or 15-17)
-  const isMorningSlot = (hours >= 9 && hours < 13);
-  const isAfternoonSlot = (hours >= 15 && hours < 17);
-  
-  // Check if minutes are in 15 minute intervals (0, 15, 30, 45)
-  const isValidInterval = minutes % 15 === 0;
-  
-  // Check if day is not Tuesday (2) or Saturday (6)
-  const day = date.getDay();
-  const isValidDay = day !== 2 && day !== 6;
-  
-  return (isMorningSlot || isAfternoonSlot) && isValidInterval && isValidDay;
-}
-
-// Check if current time is within the booking window
-// Note: This function is now just a fallback. We use the useBookingConfig hook instead
-// in components to get the dynamic booking window settings
-export function isWithinBookingWindow(): boolean {
-  const now = new Date();
-  const currentDay = now.getDay();
-  const currentHour = now.getHours();
-  
-  // Default booking window is Sunday (0) between 8-9 AM
-  // This is only used as a fallback when the booking configurations aren't loaded yet
-  return currentDay === 0 && (currentHour >= 8 && currentHour < 9);
-}
-
-export function getTimeSlots(date: Date): Date[] {
-  const slots: Date[] = [];
-  
-  // Morning slots (9 AM - 1 PM)
-  for (let hour = 9; hour < 13; hour++) {
-    for (let minute = 0; minute < 60; minute += 15) {
-      const slot = new Date(date);
-      slot.setHours(hour, minute, 0, 0);
-      slots.push(slot);
-    }
-  }
-  
-  // Afternoon slots (3 PM - 5 PM)
-  for (let hour = 15; hour < 17; hour++) {
-    for (let minute = 0; minute < 60; minute += 15) {
-      const slot = new Date(date);
-      slot.setHours(hour, minute, 0, 0);
-      slots.push(slot);
-    }
-  }
-  
-  return slots;
-}
-
 export function formatTime(date: Date): string {
   return format(date, "h:mm a");
 }
@@ -4,32 +4,61 @@ import Footer from "@/components/footer";
 import AppointmentTable from "@/components/admin/appointment-table";
 import SlotManagement from "@/components/admin/slot-management";
 import BookingConfigSettings from "@/components/admin/booking-config";
+import WaitingRoomStats from "@/components/admin/waiting-room-stats";
+import LotteryRuns from "@/components/admin/lottery-runs";
+import JobRuns from "@/components/admin/job-runs";
+import EmailTemplates from "@/components/admin/email-templates";
+import SecurityEvents from "@/components/admin/security-events";
+import UserManagement from "@/components/admin/user-management";
+import WaitlistManagement from "@/components/admin/waitlist-management";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery } from "@tanstack/react-query";
 import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, type Permission } from "@shared/permissions";
 
-type AdminTab = "appointments" | "slots" | "users" | "settings";
+type AdminTab = "appointments" | "waitlist" | "slots" | "users" | "settings" | "jobs" | "emails";
+
+// Each tab is only shown to roles with its permission
+const tabs: { value: AdminTab; label: string; permission: Permission }[] = [
+  { value: "appointments", label: "Appointments", permission: "appointments.view_all" },
+  { value: "waitlist", label: "Waitlist", permission: "appointments.view_all" },
+  { value: "slots", label: "Available Slots", permission: "slots.manage" },
+  { value: "users", label: "Users", permission: "users.view" },
+  { value: "settings", label: "Settings", permission: "settings.manage" },
+  { value: "jobs", label: "Jobs", permission: "system.view" },
+  { value: "emails", label: "Emails", permission: "system.view" },
+];
+
+// Tailwind needs the full class names in the source
+const gridCols = ["grid-cols-1", "grid-cols-1", "grid-cols-2", "grid-cols-3", "grid-cols-4", "grid-cols-5", "grid-cols-6", "grid-cols-7"];
 
 export default function AdminPage() {
-  const [activeTab, setActiveTab] = useState<AdminTab>("appointments");
+  const { user } = useAuth();
+  const visibleTabs = tabs.filter((tab) => hasPermission(user, tab.permission));
+  const [activeTab, setActiveTab] = useState<AdminTab>(visibleTabs[0]?.value ?? "appointments");
 
-  // Redirect from /admin to /admin?tab=appointments
+  // Redirect from /admin to /admin?tab=<first tab>
   useEffect(() => {
     if (!window.location.search) {
-      window.history.replaceState({}, '', '/admin?tab=appointments');
+      window.history.replaceState({}, '', `/admin?tab=${activeTab}`);
     } else {
       const params = new URLSearchParams(window.location.search);
       const tab = params.get('tab') as AdminTab;
-      if (tab && ['appointments', 'slots', 'users', 'settings'].includes(tab)) {
+      if (tab && visibleTabs.some((visibleTab) => visibleTab.value === tab)) {
         setActiveTab(tab);
       }
     }
   }, []);
   
+  const canViewAppointments = hasPermission(user, "appointments.view_all");
   const { data: appointments = [], isLoading: isLoadingAppointments } = useQuery<any[]>({
     queryKey: ["/api/admin/appointments"],
+    enabled: canViewAppointments,
   });
   
+  const isVisible = (tab: AdminTab) => visibleTabs.some((visibleTab) => visibleTab.value === tab);
+  
   return (
     <div className="flex flex-col min-h-screen">
       <Header />
@@ -61,43 +90,85 @@ export default function AdminPage() {
               className="bg-white rounded-lg shadow-md"
             >
               <div className="px-4 pt-4">
-                <TabsList className="grid grid-cols-4 w-full bg-gray-100">
-                  <TabsTrigger value="appointments">Appointments</TabsTrigger>
-                  <TabsTrigger value="slots">Available Slots</TabsTrigger>
-                  <TabsTrigger value="users">Users</TabsTrigger>
-                  <TabsTrigger value="settings">Settings</TabsTrigger>
+                <TabsList className={`grid ${gridCols[visibleTabs.length]} w-full bg-gray-100`}>
+                  {visibleTabs.map((tab) => (
+                    <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+                  ))}
                 </TabsList>
               </div>
               
-              <TabsContent value="appointments" className="p-6">
-                {isLoadingAppointments ? (
-                  <div className="flex justify-center py-12">
-                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                  </div>
-                ) : (
-                  <AppointmentTable appointments={appointments || []} />
-                )}
-              </TabsContent>
+              {isVisible("appointments") && (
+                <TabsContent value="appointments" className="p-6">
+                  <WaitingRoomStats />
+                  {isLoadingAppointments ? (
+                    <div className="flex justify-center py-12">
+                      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                  ) : (
+                    <AppointmentTable appointments={appointments || []} />
+                  )}
+                </TabsContent>
+              )}
+              
+              {isVisible("waitlist") && (
+                <TabsContent value="waitlist" className="p-6">
+                  <WaitlistManagement />
+                </TabsContent>
+              )}
               
-              <TabsContent value="slots" className="p-6">
-                <SlotManagement />
-              </TabsContent>
+              {isVisible("slots") && (
+                <TabsContent value="slots" className="p-6">
+                  <SlotManagement />
+                </TabsContent>
+              )}
               
-              <TabsContent value="users" className="p-6">
-                <div className="text-center py-12 text-gray-500">
-                  User management will be available in a future update.
-                </div>
-              </TabsContent>
+              {isVisible("users") && (
+                <TabsContent value="users" className="p-6">
+                  <UserManagement />
+                  {hasPermission(user, "security.manage") && (
+                    <div className="mt-10">
+                      <p className="text-gray-600 mb-6">
+                        Accounts are locked for password sign-in after repeated failed attempts, and requests over the
+                        sign-in and code limits are refused. Users can still sign in with an emailed code while locked.
+                      </p>
+                      <SecurityEvents />
+                    </div>
+                  )}
+                </TabsContent>
+              )}
+              
+              {isVisible("settings") && (
+                <TabsContent value="settings" className="p-6">
+                  <div className="mb-6">
+                    <h3 className="text-xl font-bold mb-4">Booking System Settings</h3>
+                    <p className="text-gray-600 mb-4">
+                      Configure booking windows, appointment slots, and other system settings.
+                    </p>
+                    <BookingConfigSettings />
+                    <LotteryRuns />
+                  </div>
+                </TabsContent>
+              )}
+              
+              {isVisible("jobs") && (
+                <TabsContent value="jobs" className="p-6">
+                  <h3 className="text-xl font-bold mb-4">Background Jobs</h3>
+                  <p className="text-gray-600 mb-6">
+                    Scheduled tasks run by the server, with their recent runs and failures.
+                  </p>
+                  <JobRuns />
+                </TabsContent>
+              )}
               
-              <TabsContent value="settings" className="p-6">
-                <div className="mb-6">
-                  <h3 className="text-xl font-bold mb-4">Booking System Settings</h3>
-                  <p className="text-gray-600 mb-4">
-                    Configure booking windows, appointment slots, and other system settings.
+              {isVisible("emails") && (
+                <TabsContent value="emails" className="p-6">
+                  <h3 className="text-xl font-bold mb-4">Email Templates</h3>
+                  <p className="text-gray-600 mb-6">
+                    Emails sent to users, rendered with sample data and the current booking settings.
                   </p>
-                  <BookingConfigSettings />
-                </div>
-              </TabsContent>
+                  <EmailTemplates />
+                </TabsContent>
+              )}
             </Tabs>
           </div>
         </div>
@@ -13,6 +13,9 @@ import { useAuth } from "@/hooks/use-auth";
 import { insertUserSchema, loginUserSchema } from "@shared/schema";
 import { Moon, User, Phone, Home, Mail, Eye, EyeOff } from "lucide-react";
 import { Redirect } from "wouter";
+import OtpLoginForm from "@/components/otp-login-form";
+import TwoFactorForm from "@/components/two-factor-form";
+import { hasPermission } from "@shared/permissions";
 import {
   Dialog,
   DialogContent,
@@ -65,10 +68,12 @@ type ForgotPasswordOTPFormValues = z.infer<typeof ForgotPasswordOTPSchema>;
 type ForgotPasswordResetFormValues = z.infer<typeof ForgotPasswordResetSchema>;
 
 export default function AuthPage() {
-  const [activeTab, setActiveTab] = useState<"login" | "register">("login");
+  const [activeTab, setActiveTab] = useState<"login" | "code" | "register">("login");
   const [forgotPasswordOpen, setForgotPasswordOpen] = useState(false);
   const [forgotPasswordStep, setForgotPasswordStep] = useState<"email" | "otp" | "reset">("email");
   const [resetEmail, setResetEmail] = useState("");
+  const [resetToken, setResetToken] = useState("");
+  const [verificationToken, setVerificationToken] = useState("");
   const [emailExists, setEmailExists] = useState<boolean | null>(null);
   const [forgotPasswordOtpCountdown, setForgotPasswordOtpCountdown] = useState(0);
   const forgotPasswordOtpTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -90,7 +95,7 @@ export default function AuthPage() {
   const [showResetPassword, setShowResetPassword] = useState(false);
   const [showResetConfirmPassword, setShowResetConfirmPassword] = useState(false);
   
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, registerMutation, twoFactorChallenge } = useAuth();
 
   const loginForm = useForm<LoginFormValues>({
     resolver: zodResolver(loginUserSchema),
@@ -150,31 +155,16 @@ export default function AuthPage() {
     loginMutation.mutate(data, {
       onError: (error) => {
         console.error("Login error:", error);
-        setLoginError("Invalid Username or password");
+        setLoginError(error.message || "Invalid username, email, mobile number or password");
       }
     });
   };
 
   const sendOTP = async (email: string) => {
-     try {
-        // First check if email exists
-        const checkResponse = await fetch("/api/check-email", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ email })
-        });
-        
-        const checkResult = await checkResponse.json();
-        
-        if (checkResult.exists) {
-          // Email already exists, show error
-          setEmailExistsError("Email already exists. Please use another email or try to login.");
-          return;
-        }
-        
-        // Continue with normal OTP sending if email doesn't exist
-        setEmailExistsError(""); // Clear any previous error
+    try {
+      setEmailExistsError(""); // Clear any previous error
     
+      // Registered emails are sent a sign-in reminder instead of a code, with the same response
       const response = await fetch("/api/send-otp", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -182,7 +172,9 @@ export default function AuthPage() {
       });
 
       if (!response.ok) {
-        throw new Error("Failed to send OTP");
+        const result = await response.json().catch(() => ({}));
+        setRegistrationError(result.message || "Failed to send OTP. Please try again.");
+        return;
       }
 
       setOtpSent(true);
@@ -221,10 +213,11 @@ export default function AuthPage() {
 
       if (result.valid) {
         setEmailVerified(true);
+        setVerificationToken(result.verificationToken);
         if (otpTimerRef.current) clearInterval(otpTimerRef.current);
         return true;
       } else {
-        setRegistrationError("Invalid OTP. Please try again.");
+        setRegistrationError(result.message || "Invalid OTP. Please try again.");
         return false;
       }
     } catch (error) {
@@ -251,6 +244,7 @@ export default function AuthPage() {
       const completeRegisterData = {
         ...registerData,
         mobile: "", // Send empty string as mobile is not collected
+        verificationToken,
       };
       
       registerMutation.mutate(completeRegisterData, {
@@ -261,7 +255,13 @@ export default function AuthPage() {
           const errorData = error.response?.data || {};
           const errorMessage = errorData.message || error.message || "Registration failed";
           
-          if (errorMessage.toLowerCase().includes("username")) {
+          if (errorMessage.toLowerCase().includes("verify your email")) {
+            // The verification expired or was for another address; verify again
+            setEmailVerified(false);
+            setVerificationToken("");
+            setRegistrationError("Please verify your email again before registering.");
+          }
+          else if (errorMessage.toLowerCase().includes("username")) {
             setUsernameExistsError("Username already exists. Please choose another username.");
           } 
           else if (errorMessage.toLowerCase().includes("email")) {
@@ -287,35 +287,34 @@ export default function AuthPage() {
         body: JSON.stringify({ email })
       });
 
+      const result = await response.json();
+
       if (!response.ok) {
-        throw new Error("Failed to send OTP");
+        setForgotPasswordError(result.message || "Failed to send verification code. Please try again.");
+        return;
       }
 
-      const result = await response.json();
-      setEmailExists(result.exists);
-
-      if (result.exists) {
-        setForgotPasswordStep("otp");
-        forgotPasswordOTPForm.setValue("email", email);
-        setForgotPasswordOtpCountdown(180); // 3 minutes countdown
+      // The server answers the same way whether or not the email is registered
+      setEmailExists(true);
 
-        if (forgotPasswordOtpTimerRef.current) {
-          clearInterval(forgotPasswordOtpTimerRef.current);
-        }
+      setForgotPasswordStep("otp");
+      forgotPasswordOTPForm.setValue("email", email);
+      setForgotPasswordOtpCountdown(180); // 3 minutes countdown
 
-        forgotPasswordOtpTimerRef.current = setInterval(() => {
-          setForgotPasswordOtpCountdown((prev) => {
-            if (prev <= 1) {
-              if (forgotPasswordOtpTimerRef.current) clearInterval(forgotPasswordOtpTimerRef.current);
-              setForgotPasswordStep("email");
-              return 0;
-            }
-            return prev - 1;
-          });
-        }, 1000);
-      } else {
-        setForgotPasswordError("Email not found. Please check and try again.");
+      if (forgotPasswordOtpTimerRef.current) {
+        clearInterval(forgotPasswordOtpTimerRef.current);
       }
+
+      forgotPasswordOtpTimerRef.current = setInterval(() => {
+        setForgotPasswordOtpCountdown((prev) => {
+          if (prev <= 1) {
+            if (forgotPasswordOtpTimerRef.current) clearInterval(forgotPasswordOtpTimerRef.current);
+            setForgotPasswordStep("email");
+            return 0;
+          }
+          return prev - 1;
+        });
+      }, 1000);
     } catch (error) {
       console.error("Forgot password OTP error:", error);
       setForgotPasswordError("Failed to send verification code. Please try again.");
@@ -338,9 +337,10 @@ export default function AuthPage() {
         if (forgotPasswordOtpTimerRef.current) clearInterval(forgotPasswordOtpTimerRef.current);
         setForgotPasswordStep("reset");
         setResetEmail(email);
+        setResetToken(result.resetToken);
         return true;
       } else {
-        setForgotPasswordError("Invalid verification code. Please try again.");
+        setForgotPasswordError(result.message || "Invalid verification code. Please try again.");
         return false;
       }
     } catch (error) {
@@ -357,15 +357,18 @@ export default function AuthPage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          email: resetEmail,
+          token: resetToken,
           newPassword: data.password
         })
       });
 
       if (!response.ok) {
-        throw new Error("Password reset failed");
+        const result = await response.json().catch(() => ({}));
+        setForgotPasswordError(result.message || "Failed to reset password. Please try again.");
+        return;
       }
 
+      setResetToken("");
       setPasswordResetSuccess(true);
       
       setTimeout(() => {
@@ -445,9 +448,20 @@ export default function AuthPage() {
     setUsernameExistsError("");
     setEmailExistsError("");
     setRegistrationError("");
-    setActiveTab(value as "login" | "register");
+    setActiveTab(value as "login" | "code" | "register");
   };
 
+  // A reset link emailed by an admin goes straight to choosing a new password
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("reset");
+    if (token) {
+      window.history.replaceState({}, '', '/auth');
+      setResetToken(token);
+      setForgotPasswordStep("reset");
+      setForgotPasswordOpen(true);
+    }
+  }, []);
+
   useEffect(() => {
     return () => {
       // Clean up timers on component unmount
@@ -457,7 +471,7 @@ export default function AuthPage() {
   }, []);
 
   if (user) {
-    if (user.isAdmin) {
+    if (hasPermission(user, "dashboard.view")) {
       return <Redirect to="/admin" />;
     }
     return <Redirect to="/" />;
@@ -484,9 +498,13 @@ export default function AuthPage() {
                 <h1 className="font-heading font-bold text-2xl text-white">Astro Appointments</h1>
               </div>
 
-              <Tabs value={activeTab} onValueChange={handleTabChange} className="text-white">
-                <TabsList className="grid grid-cols-2 mb-6 bg-white/20">
+              {twoFactorChallenge && <TwoFactorForm />}
+
+              {/* Hidden rather than unmounted during the two-factor step, so going back keeps what was typed */}
+              <Tabs value={activeTab} onValueChange={handleTabChange} className={twoFactorChallenge ? "hidden" : "text-white"}>
+                <TabsList className="grid grid-cols-3 mb-6 bg-white/20">
                   <TabsTrigger value="login" className="text-white data-[state=active]:bg-[#3D5DAB]/100 data-[state=active]:text-white">Sign In</TabsTrigger>
+                  <TabsTrigger value="code" className="text-white data-[state=active]:bg-[#3D5DAB]/100 data-[state=active]:text-white">Sign In with Code</TabsTrigger>
                   <TabsTrigger value="register" className="text-white data-[state=active]:bg-[#3D5DAB]/100 data-[state=active]:text-white">Register</TabsTrigger>
                 </TabsList>
 
@@ -504,13 +522,13 @@ export default function AuthPage() {
                         name="username"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel className="text-white">Username</FormLabel>
+                            <FormLabel className="text-white">Username, Email or Mobile</FormLabel>
                             <FormControl>
                               <div className="relative">
                                 <User className="absolute left-3 top-2.5 h-5 w-5 text-white/70" />
                                 <Input 
                                   className="pl-10 bg-white/10 border-white/20 text-[#0A1A38]/100 placeholder:text-white/50 focus:border-white/40"
-                                  placeholder="Enter your username" 
+                                  placeholder="Enter your username, email or mobile" 
                                   {...field} 
                                 />
                               </div>
@@ -721,9 +739,11 @@ export default function AuthPage() {
                             {forgotPasswordStep === "reset" && !passwordResetSuccess && (
                               <Form {...forgotPasswordResetForm}>
                                 <form onSubmit={forgotPasswordResetForm.handleSubmit(onForgotPasswordResetSubmit)}>
-                                  <div className="mb-4 bg-blue-900/30 text-blue-200 p-3 rounded-md border border-blue-500/30">
-                                    Creating new password for: <strong>{resetEmail}</strong>
-                                  </div>
+                                  {resetEmail && (
+                                    <div className="mb-4 bg-blue-900/30 text-blue-200 p-3 rounded-md border border-blue-500/30">
+                                      Creating new password for: <strong>{resetEmail}</strong>
+                                    </div>
+                                  )}
                                   
                                   <FormField
                                     control={forgotPasswordResetForm.control}
@@ -843,6 +863,10 @@ export default function AuthPage() {
                   </Form>
                 </TabsContent>
 
+                <TabsContent value="code">
+                  <OtpLoginForm />
+                </TabsContent>
+
                 <TabsContent value="register">
                   <Form {...registerForm}>
                     <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
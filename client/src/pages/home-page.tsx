@@ -8,25 +8,28 @@ import BookingSummary from "@/components/booking-summary";
 import MyAppointments from "@/components/my-appointments";
 import ProfileSettings from "@/components/profile-settings";
 import BookingDebug from "@/components/booking-debug";
+import WaitingRoom from "@/components/waiting-room";
+import LotteryPreferences, { LotteryResult } from "@/components/lottery-preferences";
+import { WaitlistOffers } from "@/components/waitlist";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { InfoIcon, AlertCircle, Clock } from "lucide-react";
 import { useLocation } from "wouter";
-import { isWithinBookingWindow } from "@/lib/utils";
+import { format } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
-import { useBookingConfig, CONFIG_UPDATED_EVENT } from "@/hooks/use-booking-config";
-import { useQueryClient } from "@tanstack/react-query";
+import { useBookingConfig } from "@/hooks/use-booking-config";
+import { useBookingWindow } from "@/hooks/use-booking-window";
+import { useWaitingRoom } from "@/hooks/use-waiting-room";
+import { useLottery } from "@/hooks/use-lottery";
+import { hasPermission } from "@shared/permissions";
 
 type Tab = "book" | "appointments" | "profile";
 
 export default function HomePage() {
-  const [configVersion, setConfigVersion] = useState(0);
   const [activeTab, setActiveTab] = useState<Tab>("book");
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<Date | null>(null);
-  const [canBook, setCanBook] = useState<boolean>(false);
   const [, navigate] = useLocation();
   const { user } = useAuth();
-  const queryClient = useQueryClient();
 
   
   
@@ -43,43 +46,17 @@ export default function HomePage() {
   // Use the booking configuration hook
   const bookingConfig = useBookingConfig();
   
-  // Check if current time is within booking window
-  const checkBookingWindow = () => {
-    const isAdmin = user?.isAdmin || false;
-    // Use the dynamic booking window configuration
-    const withinWindow = bookingConfig.isWithinBookingWindow();
-    setCanBook(withinWindow || isAdmin);
-  };
-  
-  // Set up initial check and interval
-  useEffect(() => {
-    checkBookingWindow();
-    
-    // Check every minute
-    const interval = setInterval(checkBookingWindow, 30000); // Reduce to 30 seconds
-    
-    // Listen for config updates
-    const handleConfigUpdate = () => {
-      console.log("Home page received config update");
-      // Force refetch
-      queryClient.invalidateQueries({ queryKey: ["/api/booking-configurations"] });
-      // Increment config version to force re-render
-      setConfigVersion(prev => prev + 1);
-      // Recheck booking window with a delay to ensure query completes
-      setTimeout(checkBookingWindow, 500);
-
-      // Recheck booking window immediately
-      checkBookingWindow();
-    };
-    
-    window.addEventListener(CONFIG_UPDATED_EVENT, handleConfigUpdate);
-    
-    return () => {
-      clearInterval(interval);
-      window.removeEventListener(CONFIG_UPDATED_EVENT, handleConfigUpdate);
-    };
-  }, [user, bookingConfig, queryClient, configVersion]);
-  
+  // The server decides whether the booking window is open (staff who manage appointments
+  // can book anytime). While it is open, users also need to have been admitted from the
+  // waiting room, except in lottery weeks where they submit ranked preferences instead.
+  const canBookAnytime = hasPermission(user, "appointments.manage");
+  const { bookingWindow, isOpen: isBookingWindowOpen } = useBookingWindow();
+  const { isLotteryMode: isLotteryWeek } = useLottery(!canBookAnytime);
+  const isLotteryMode = isLotteryWeek && !canBookAnytime;
+  const { isAdmitted, admissionToken } = useWaitingRoom(!canBookAnytime && !isLotteryMode);
+  const canBook = isLotteryMode
+    ? isBookingWindowOpen
+    : (isBookingWindowOpen && isAdmitted) || canBookAnytime;
 
   // Function to handle booking confirmation
   const handleConfirmBooking = () => {
@@ -135,6 +112,11 @@ export default function HomePage() {
       
       <main className="flex-grow">
         <div className="container mx-auto px-4 py-8">
+          {/* Slots offered from the waitlist, whichever tab is open */}
+          <div className="max-w-5xl mx-auto">
+            <WaitlistOffers />
+          </div>
+          
           {activeTab === "book" && (
             <div className="max-w-5xl mx-auto">
               <h2 className="font-heading text-2xl font-bold text-gray-800 mb-6">Book Your Astrology Consultation</h2>
@@ -142,8 +124,16 @@ export default function HomePage() {
               {/* Add debug component */}
               <BookingDebug />
               
+              {/* Result of the last lottery draw */}
+              {!canBookAnytime && <LotteryResult />}
+              
+              {/* Waiting room for the booking window (lottery weeks don't need one) */}
+              {!canBookAnytime && !isLotteryMode && (
+                <WaitingRoom isWindowOpen={isBookingWindowOpen} />
+              )}
+              
               {/* Booking window alert */}
-              {!canBook && !user?.isAdmin && (
+              {!isBookingWindowOpen && !canBookAnytime && (
                 <Alert className="bg-yellow-50 border-l-4 border-yellow-600 mb-8">
                   <AlertCircle className="h-4 w-4 text-yellow-600" />
                   <AlertTitle className="text-yellow-700">Booking Window Closed / బుకింగ్ విండో మూసివేయబడింది</AlertTitle>
@@ -161,6 +151,11 @@ export default function HomePage() {
                       } between {formatTo12Hour(bookingConfig.bookingWindowStartHour)} and {formatTo12Hour(bookingConfig.bookingWindowEndHour)}. 
                       You can browse available slots but cannot make a reservation at this time.
                     </p>
+                    {bookingWindow && (
+                      <p className="mb-2 font-medium">
+                        Next booking window opens / తదుపరి బుకింగ్ విండో: {format(new Date(bookingWindow.opensAt), "EEEE, MMMM d, h:mm a")}
+                      </p>
+                    )}
                     <p>
                       <span className="font-medium">తెలుగు: </span>
                       {
@@ -285,12 +280,20 @@ export default function HomePage() {
                     onSelectDate={handleDateSelect}
                   />
                   
-                  {selectedDate && selectedTime && (
+                  {isLotteryMode && (
+                    <LotteryPreferences 
+                      selectedSlot={selectedTime}
+                      onSlotAdded={() => setSelectedTime(null)}
+                    />
+                  )}
+                  
+                  {!isLotteryMode && selectedDate && selectedTime && (
                     <BookingSummary 
                       selectedDate={selectedDate}
                       selectedTime={selectedTime}
                       onConfirm={handleConfirmBooking}
                       disabled={!canBook}
+                      admissionToken={admissionToken}
                     />
                   )}
                 </div>
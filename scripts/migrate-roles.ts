@@ -0,0 +1,30 @@
+import { pool } from '../server/db';
+
+// Run once before `npm run db:push` when upgrading from the is_admin flag to roles:
+// existing admins become owners, everyone else a client. db:push then drops is_admin.
+async function migrateRoles() {
+  try {
+    console.log('Adding role column...');
+    await pool.query(`ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'client'`);
+
+    const { rows } = await pool.query(`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_name = 'users' AND column_name = 'is_admin'
+    `);
+    if (rows.length > 0) {
+      const result = await pool.query(`UPDATE users SET role = 'owner' WHERE is_admin AND role = 'client'`);
+      console.log(`${result.rowCount} admin(s) made owner`);
+    } else {
+      console.log('No is_admin column; nothing to copy');
+    }
+
+    console.log('Roles migrated');
+  } catch (error) {
+    console.error('Error migrating roles:', error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateRoles();
@@ -1,21 +1,26 @@
 import { db } from "../server/db";
-import { availableSlots } from "../shared/schema";
+import { availableSlots, bookingConfigurations } from "../shared/schema";
+import { parseBookingRules, isDisabledDay, getTimeSlots } from "../shared/booking-rules";
 
 async function seedOneSlot() {
   console.log("Seeding a single test slot...");
   
-  // Create a slot for tomorrow at 9 AM
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  tomorrow.setHours(9, 0, 0, 0);
+  const rules = parseBookingRules(await db.select().from(bookingConfigurations));
+  
+  // Create a slot for the first slot of the next day appointments are allowed
+  const day = new Date();
+  do {
+    day.setDate(day.getDate() + 1);
+  } while (isDisabledDay(rules, day));
+  const [firstSlot] = getTimeSlots(rules, day);
   
   try {
     const result = await db.insert(availableSlots).values({
-      date: tomorrow,
+      date: firstSlot,
       isEnabled: true
     });
     
-    console.log("Created test slot for tomorrow at 9 AM");
+    console.log(`Created test slot for ${firstSlot.toLocaleString()}`);
     console.log("Seeding completed successfully");
     process.exit(0);
   } catch (error) {
@@ -24,4 +29,4 @@ async function seedOneSlot() {
   }
 }
 
-seedOneSlot();
\ No newline at end of file
+seedOneSlot();
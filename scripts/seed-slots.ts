@@ -1,10 +1,14 @@
 import { db } from "../server/db";
-import { availableSlots } from "../shared/schema";
+import { availableSlots, bookingConfigurations } from "../shared/schema";
+import { parseBookingRules, isDisabledDay, getTimeSlots } from "../shared/booking-rules";
 
 // Seed only the next 7 days for the demo
 async function seedAvailableSlots() {
   console.log("Seeding available slots...");
   
+  // Use the same booking rules as the server so seeded slots are bookable
+  const rules = parseBookingRules(await db.select().from(bookingConfigurations));
+  
   // Get dates for the next 7 days
   const startDate = new Date();
   const slotsToInsert: { date: Date; isEnabled: boolean }[] = [];
@@ -14,26 +18,16 @@ async function seedAvailableSlots() {
     const date = new Date();
     date.setDate(startDate.getDate() + day);
     
-    // Skip Tuesdays (2) and Saturdays (6)
-    if (date.getDay() === 2 || date.getDay() === 6) {
+    // Skip days when appointments are disabled
+    if (isDisabledDay(rules, date)) {
       continue;
     }
     
-    // Morning slots: 9 AM, 10 AM, 11 AM, 12 PM (fewer for the demo)
-    for (let hour = 9; hour < 13; hour++) {
-      const slotTime = new Date(date);
-      slotTime.setHours(hour, 0, 0, 0);
-      
-      slotsToInsert.push({
-        date: slotTime,
-        isEnabled: true
-      });
-    }
-    
-    // Afternoon slots: 3 PM, 4 PM
-    for (let hour = 15; hour < 17; hour++) {
-      const slotTime = new Date(date);
-      slotTime.setHours(hour, 0, 0, 0);
+    // Morning and afternoon slots (hourly only for the demo)
+    for (const slotTime of getTimeSlots(rules, date)) {
+      if (slotTime.getMinutes() !== 0) {
+        continue;
+      }
       
       slotsToInsert.push({
         date: slotTime,
@@ -67,4 +61,4 @@ seedAvailableSlots()
   .catch((error) => {
     console.error("Seeding failed:", error);
     process.exit(1);
-  });
\ No newline at end of file
+  });
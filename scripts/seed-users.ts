@@ -29,7 +29,7 @@ async function seedUsers() {
         email: "admin@example.com",
         address: "123 Admin St",
         mobile: "1234567890",
-        isAdmin: true,
+        role: "owner",
       });
       console.log("Admin user created");
     } else {
@@ -49,7 +49,7 @@ async function seedUsers() {
         email: "user@example.com",
         address: "456 User St",
         mobile: "0987654321",
-        isAdmin: false,
+        role: "client",
       });
       console.log("Regular user created");
     } else {
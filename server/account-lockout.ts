@@ -0,0 +1,62 @@
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+// Progressive protection against password guessing on a single account. Every
+// wrong password adds a growing delay to the response; every LOCKOUT_THRESHOLD
+// wrong passwords lock password sign-in, each lock twice as long as the last.
+// Signing in with an emailed code still works while locked, so an attacker can't
+// keep the real owner out.
+
+export const LOCKOUT_THRESHOLD = 5;
+const BASE_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+const MAX_DELAY_MS = 8000;
+
+export function isLockedOut(user: User, now: Date = new Date()): boolean {
+  return !!user.lockedUntil && user.lockedUntil > now;
+}
+
+// Delay before answering a wrong password: none for the first, then 0.5s, 1s, 2s... up to 8s
+export function getFailedLoginDelayMs(failedLoginCount: number): number {
+  return failedLoginCount < 2 ? 0 : Math.min(500 * 2 ** (failedLoginCount - 2), MAX_DELAY_MS);
+}
+
+export async function recordFailedLogin(user: User, ip: string): Promise<User> {
+  const updatedUser = await storage.incrementFailedLogins(user.id) ?? user;
+  const failures = updatedUser.failedLoginCount;
+  if (failures === 0 || failures % LOCKOUT_THRESHOLD !== 0) {
+    return updatedUser;
+  }
+
+  const lockoutMs = Math.min(BASE_LOCKOUT_MS * 2 ** (failures / LOCKOUT_THRESHOLD - 1), MAX_LOCKOUT_MS);
+  const lockedUntil = new Date(Date.now() + lockoutMs);
+  const lockedUser = await storage.updateUser(user.id, { lockedUntil }) ?? updatedUser;
+
+  await storage.createSecurityEvent({
+    type: "account_locked",
+    userId: user.id,
+    identifier: user.username,
+    ip,
+    details: `${failures} failed sign-ins; locked for ${Math.round(lockoutMs / 60000)} minutes`,
+  });
+
+  return lockedUser;
+}
+
+export async function clearFailedLogins(user: User): Promise<User> {
+  if (user.failedLoginCount === 0 && !user.lockedUntil) return user;
+  return await storage.updateUser(user.id, { failedLoginCount: 0, lockedUntil: null }) ?? user;
+}
+
+// Admin override
+export async function unlockAccount(user: User, adminId: number): Promise<User> {
+  const unlockedUser = await clearFailedLogins(user);
+  await storage.createSecurityEvent({
+    type: "account_unlocked",
+    userId: user.id,
+    identifier: user.username,
+    ip: null,
+    details: `Unlocked by admin #${adminId}`,
+  });
+  return unlockedUser;
+}
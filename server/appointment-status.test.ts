@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { canTransition, getAllowedTransitions, getTimeBasedStatus } from "@shared/appointment-status";
+
+// A 15-minute appointment at 10 AM local time
+const start = new Date(2030, 0, 7, 10);
+const end = new Date(2030, 0, 7, 10, 15);
+const at = (hours: number, minutes = 0) => new Date(2030, 0, 7, hours, minutes);
+
+test("users can only cancel their upcoming appointments", () => {
+  assert.deepEqual(getAllowedTransitions("user", "confirmed"), ["cancelled"]);
+  assert.equal(canTransition("user", "confirmed", "completed"), false);
+  assert.equal(canTransition("user", "checked_in", "cancelled"), false);
+});
+
+test("staff move appointments through check-in and can correct attendance afterwards", () => {
+  assert.equal(canTransition("admin", "confirmed", "checked_in"), true);
+  assert.equal(canTransition("admin", "checked_in", "in_progress"), true);
+  assert.equal(canTransition("admin", "in_progress", "completed"), true);
+  assert.equal(canTransition("admin", "completed", "no_show"), true);
+  assert.equal(canTransition("admin", "no_show", "completed"), true);
+});
+
+test("invalid transitions are refused", () => {
+  assert.equal(canTransition("admin", "confirmed", "completed"), false);
+  assert.equal(canTransition("admin", "in_progress", "cancelled"), false);
+  assert.equal(canTransition("admin", "cancelled", "confirmed"), false);
+  assert.equal(canTransition("admin", "confirmed", "confirmed"), false);
+  assert.deepEqual(getAllowedTransitions("admin", "not-a-status"), []);
+});
+
+test("the time-based job never records a no-show or cancels", () => {
+  for (const from of ["confirmed", "checked_in", "in_progress"]) {
+    assert.equal(canTransition("system", from, "no_show"), false);
+    assert.equal(canTransition("system", from, "cancelled"), false);
+  }
+});
+
+test("checked-in appointments start at their start time and finish at their end", () => {
+  assert.equal(getTimeBasedStatus({ date: start, endTime: end, status: "checked_in" }, at(9, 59)), null);
+  assert.equal(getTimeBasedStatus({ date: start, endTime: end, status: "checked_in" }, at(10)), "in_progress");
+  assert.equal(getTimeBasedStatus({ date: start, endTime: end, status: "in_progress" }, at(10, 14)), null);
+  assert.equal(getTimeBasedStatus({ date: start, endTime: end, status: "in_progress" }, at(10, 15)), "completed");
+});
+
+test("appointments never checked in are completed at the end of their day", () => {
+  const appointment = { date: start, endTime: end, status: "confirmed" };
+  assert.equal(getTimeBasedStatus(appointment, at(23, 59)), null);
+  assert.equal(getTimeBasedStatus(appointment, new Date(2030, 0, 8)), "completed");
+});
+
+test("finished and cancelled appointments are left alone", () => {
+  const later = new Date(2030, 0, 9);
+  for (const status of ["completed", "cancelled", "no_show"]) {
+    assert.equal(getTimeBasedStatus({ date: start, endTime: end, status }, later), null);
+  }
+});
@@ -0,0 +1,25 @@
+import { storage } from "./storage";
+import { canTransition, getTimeBasedStatus } from "@shared/appointment-status";
+
+// Time-based status transitions (checked-in appointments start, running ones
+// finish, and appointments nobody checked in for are completed at the end of the
+// day). These used to be done by the browser on the user's clock; the server does
+// them now. No-shows are only ever recorded by staff.
+
+export async function applyTimeBasedTransitions(now: Date = new Date()): Promise<number> {
+  const candidates = await storage.getAppointmentsByStatus(["confirmed", "checked_in", "in_progress"]);
+  let updated = 0;
+
+  for (const appointment of candidates) {
+    const next = getTimeBasedStatus(appointment, now);
+    if (!next || !canTransition("system", appointment.status, next)) continue;
+
+    // Skipped if an admin changed the status in the meantime. The attendance policy
+    // isn't applied: strikes only come from what staff or the user did.
+    if (await storage.updateAppointmentStatus(appointment.id, appointment.status, next)) {
+      updated++;
+    }
+  }
+
+  return updated;
+}
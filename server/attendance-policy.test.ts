@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAttendancePolicy, getCountedStrikes, isLateCancellation } from "@shared/attendance-policy";
+
+// The default policy: strikes count for 60 days, late means within 24 hours of the start
+const policy = parseAttendancePolicy([]);
+const now = new Date(2030, 2, 1, 12);
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+test("only strikes of the given kind count", () => {
+  const strikes = [
+    { id: 1, kind: "no_show", occurredAt: daysAgo(1), blockId: null },
+    { id: 2, kind: "late_cancellation", occurredAt: daysAgo(1), blockId: null },
+  ];
+
+  assert.deepEqual(getCountedStrikes(policy, strikes, "no_show", now).map((strike) => strike.id), [1]);
+  assert.deepEqual(getCountedStrikes(policy, strikes, "late_cancellation", now).map((strike) => strike.id), [2]);
+});
+
+test("strikes older than the policy period stop counting", () => {
+  const strikes = [
+    { id: 1, kind: "no_show", occurredAt: daysAgo(60), blockId: null },
+    { id: 2, kind: "no_show", occurredAt: new Date(daysAgo(60).getTime() - 1), blockId: null },
+  ];
+
+  assert.deepEqual(getCountedStrikes(policy, strikes, "no_show", now).map((strike) => strike.id), [1]);
+});
+
+test("strikes that already led to a block don't count again", () => {
+  const strikes = [
+    { id: 1, kind: "no_show", occurredAt: daysAgo(2), blockId: 7 },
+    { id: 2, kind: "no_show", occurredAt: daysAgo(1).toISOString(), blockId: null },
+  ];
+
+  assert.deepEqual(getCountedStrikes(policy, strikes, "no_show", now).map((strike) => strike.id), [2]);
+});
+
+test("a cancellation is late from the cutoff onwards", () => {
+  const appointmentDate = new Date(2030, 2, 2, 12);
+
+  assert.equal(isLateCancellation(policy, appointmentDate, new Date(2030, 2, 1, 11, 59)), false);
+  assert.equal(isLateCancellation(policy, appointmentDate, new Date(2030, 2, 1, 12)), true);
+});
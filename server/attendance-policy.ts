@@ -0,0 +1,73 @@
+import { storage } from "./storage";
+import { blockUser } from "./user-blocks";
+import {
+  parseAttendancePolicy,
+  getStrikeLimit,
+  getCountedStrikes,
+  strikeKindLabels,
+  type AttendancePolicy,
+  type StrikeKind,
+} from "@shared/attendance-policy";
+import type { Appointment } from "@shared/schema";
+
+// Enforces the no-show and late cancellation policy. Called after every status
+// change made by staff or the user (never the time-based job) with the appointment
+// as it now is; strikes are added or taken back and the user is blocked once a
+// limit is reached.
+
+export async function getAttendancePolicy(): Promise<AttendancePolicy> {
+  return parseAttendancePolicy(await storage.getBookingConfigurations());
+}
+
+// Failures are only logged, so they never undo or fail the status change itself
+export async function applyAttendancePolicy(
+  appointment: Appointment,
+  options: { now?: Date } = {}
+): Promise<void> {
+  const now = options.now ?? new Date();
+  try {
+    const policy = await getAttendancePolicy();
+
+    if (appointment.status === "no_show") {
+      await addStrike(policy, appointment, "no_show", new Date(appointment.date), now);
+    } else {
+      // A no-show corrected to completed no longer counts
+      await storage.deleteStrike(appointment.id, "no_show");
+    }
+
+    // Only the user's own cancellations count; staff cancelling isn't the user's doing
+    if (appointment.status === "cancelled" && appointment.lateCancellation && appointment.cancelledBy === appointment.userId) {
+      await addStrike(policy, appointment, "late_cancellation", appointment.cancelledAt ?? now, now);
+    }
+  } catch (error) {
+    console.error(`Failed to apply attendance policy to appointment ${appointment.id}:`, error);
+  }
+}
+
+async function addStrike(policy: AttendancePolicy, appointment: Appointment, kind: StrikeKind, occurredAt: Date, now: Date) {
+  const strike = await storage.createStrike({
+    userId: appointment.userId,
+    appointmentId: appointment.id,
+    kind,
+    appointmentDate: new Date(appointment.date),
+    occurredAt,
+  });
+  if (!strike) return; // Already counted
+
+  const limit = getStrikeLimit(policy, kind);
+  if (limit === 0) return;
+
+  const counted = getCountedStrikes(policy, await storage.getStrikesByUser(appointment.userId), kind, now);
+  if (counted.length < limit) return;
+
+  // Strikes stay uncounted while a block is active, so they can add to the next one
+  const user = await storage.getUser(appointment.userId);
+  if (!user || await storage.getActiveUserBlock(user.id, now)) return;
+
+  const label = strikeKindLabels[kind].toLowerCase();
+  const block = await blockUser(user, {
+    reason: `${counted.length} ${label}s in ${policy.periodDays} days`,
+    endsAt: new Date(now.getTime() + policy.blockWeeks * 7 * 24 * 60 * 60 * 1000),
+  }, null);
+  await storage.assignStrikesToBlock(counted.map((countedStrike) => countedStrike.id), block.id);
+}
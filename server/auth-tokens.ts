@@ -0,0 +1,48 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { AuthToken } from "@shared/schema";
+
+// Single-use tokens handed to the client after a step has been verified (e.g. the
+// password-reset OTP), so the next request can prove it. Only a hash is stored.
+
+export type AuthTokenPurpose = "password_reset" | "registration";
+
+export const PASSWORD_RESET_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const ADMIN_PASSWORD_RESET_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // Emailed as a link, so it may not be opened straight away
+export const REGISTRATION_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Issue a new token for a user or an email address, replacing any the user had for the same purpose
+export async function issueAuthToken(
+  subject: { userId: number } | { email: string },
+  purpose: AuthTokenPurpose,
+  ttlMs: number
+): Promise<string> {
+  const token = crypto.randomBytes(32).toString("hex");
+  const userId = "userId" in subject ? subject.userId : null;
+  if (userId !== null) {
+    await storage.deleteAuthTokens(userId, purpose);
+  }
+
+  await storage.createAuthToken({
+    userId,
+    email: "email" in subject ? subject.email : null,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return token;
+}
+
+// Look a token up without using it; returns undefined if it is unknown, expired or already used
+export async function findAuthToken(token: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+  return await storage.getAuthToken(hashToken(token), purpose, new Date());
+}
+
+// Use up a token; returns undefined if it is unknown, expired or already used
+export async function consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+  return await storage.useAuthToken(hashToken(token), purpose, new Date());
+}
@@ -1,11 +1,25 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response, type NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, insertUserSchema } from "@shared/schema";
+import { findAuthToken } from "./auth-tokens";
+import { rateLimit, bodyField, clientIp } from "./rate-limit";
+import { trackSessionActivity } from "./sessions";
+import {
+  requiresTwoFactor,
+  isTwoFactorEnrolled,
+  beginEnrollment,
+  confirmEnrollment,
+  verifyTwoFactorCode,
+  TwoFactorError,
+  TWO_FACTOR_CHALLENGE_TTL_MS,
+  TWO_FACTOR_MAX_ATTEMPTS,
+} from "./two-factor";
+import { isLockedOut, recordFailedLogin, clearFailedLogins, getFailedLoginDelayMs } from "./account-lockout";
+import { User as SelectUser, insertUserSchema, twoFactorCodeSchema, normalizeEmail } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 
@@ -30,6 +44,54 @@ export async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Users can sign in with their username, email address or mobile number
+export async function findUserByIdentifier(identifier: string): Promise<SelectUser | undefined> {
+  const value = identifier.trim();
+  
+  const user = await storage.getUserByUsername(value);
+  if (user) return user;
+  
+  if (value.includes("@")) {
+    return await storage.getUserByEmail(value);
+  }
+  
+  const mobile = value.replace(/[\s-]/g, "");
+  if (/^\+?[0-9]+$/.test(mobile)) {
+    return await storage.getUserByMobile(mobile);
+  }
+  
+  return undefined;
+}
+
+// Sign the user in once their password or emailed code has been checked. Users who need a
+// second factor are only given a pending challenge, answered at /api/login/2fa/verify.
+export async function completeSignIn(req: Request, res: Response, next: NextFunction, user: SelectUser) {
+  if (await requiresTwoFactor(user)) {
+    req.session.twoFactorPending = {
+      userId: user.id,
+      expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS,
+      attempts: 0,
+    };
+    return res.json({ twoFactorRequired: true, enrolled: await isTwoFactorEnrolled(user.id) });
+  }
+  
+  req.login(user, (err) => {
+    if (err) return next(err);
+    // Don't send the password back
+    const { password, ...userWithoutPassword } = user;
+    res.json(userWithoutPassword);
+  });
+}
+
+// The user waiting on a second factor in this session, if the challenge hasn't run out
+async function getPendingTwoFactorUser(req: Request): Promise<SelectUser | undefined> {
+  const pending = req.session.twoFactorPending;
+  if (!pending || pending.expiresAt <= Date.now()) {
+    return undefined;
+  }
+  return await storage.getUser(pending.userId);
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "astrology-booking-secret",
@@ -45,16 +107,29 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionActivity);
 
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
-        const user = await storage.getUserByUsername(username);
-        if (!user || !(await comparePasswords(password, user.password))) {
+        const user = await findUserByIdentifier(username);
+        if (!user) {
+          return done(null, false);
+        }
+        // Refused like a wrong password, so a locked account can't be told apart from a missing one
+        if (isLockedOut(user)) {
+          return done(null, false);
+        }
+        if (!(await comparePasswords(password, user.password))) {
+          const updatedUser = await recordFailedLogin(user, clientIp(req));
+          // Slow down repeated guessing on the same account
+          const delayMs = getFailedLoginDelayMs(updatedUser.failedLoginCount);
+          if (delayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+          }
           return done(null, false);
-        } else {
-          return done(null, user);
         }
+        return done(null, await clearFailedLogins(user));
       } catch (error) {
         return done(error);
       }
@@ -79,7 +154,7 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", rateLimit({ name: "register", windowMs: 60 * 60 * 1000, max: 10 }), async (req, res, next) => {
     try {
       // Ensure mobile is either provided or set to null
       const body = {
@@ -89,6 +164,19 @@ export function setupAuth(app: Express) {
   
       const validatedUser = insertUserSchema.parse(body);
     
+      // The token from /api/verify-otp proves the email address belongs to whoever is registering.
+      // It's checked first so this endpoint can't be used to find out which emails are registered,
+      // and only used up with the account being created, so a taken username can be corrected.
+      const verification = typeof req.body.verificationToken === "string"
+        ? await findAuthToken(req.body.verificationToken, "registration")
+        : undefined;
+      if (!verification?.email || normalizeEmail(verification.email) !== validatedUser.email) {
+        return res.status(400).json({
+          code: "EMAIL_NOT_VERIFIED",
+          message: "Please verify your email address with the OTP before registering"
+        });
+      }
+  
       // Check username exists
       const existingUser = await storage.getUserByUsername(validatedUser.username);
       if (existingUser) {
@@ -100,10 +188,17 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ message: "Email already exists" });
       }
   
-      const user = await storage.createUser({
+      const user = await storage.createUserWithAuthToken({
         ...validatedUser,
         password: await hashPassword(validatedUser.password),
-      });
+      }, verification.id, new Date());
+      if (!user) {
+        // Used by a parallel request, or it ran out while this one was being checked
+        return res.status(400).json({
+          code: "EMAIL_NOT_VERIFIED",
+          message: "Please verify your email address with the OTP before registering"
+        });
+      }
   
       req.login(user, (err) => {
         if (err) return next(err);
@@ -133,23 +228,99 @@ export function setupAuth(app: Express) {
     
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
-      if (err) {
-        return next(err);
-      }
-      if (!user) {
-        return res.status(401).json({ message: "Invalid username or password" });
-      }
-      req.login(user, (err) => {
+  app.post(
+    "/api/login",
+    rateLimit({ name: "login-ip", windowMs: 15 * 60 * 1000, max: 30 }),
+    rateLimit({ name: "login-account", windowMs: 15 * 60 * 1000, max: 10, key: bodyField("username") }),
+    (req, res, next) => {
+      passport.authenticate("local", (err: any, user: SelectUser | false) => {
         if (err) {
           return next(err);
         }
-        // Don't send the password back
+        // The same answer for unknown accounts, wrong passwords and locked accounts
+        if (!user) {
+          return res.status(401).json({
+            message: "Invalid username, email, mobile number or password. After repeated failed attempts password sign-in is paused for a while; you can still sign in with a code sent to your email."
+          });
+        }
+        completeSignIn(req, res, next, user).catch(next);
+      })(req, res, next);
+    }
+  );
+  
+  const twoFactorLimit = rateLimit({ name: "two-factor", windowMs: 15 * 60 * 1000, max: 20 });
+  
+  // First sign-in of an admin without two-factor: a secret to add to their authenticator app
+  app.post("/api/login/2fa/setup", twoFactorLimit, async (req, res) => {
+    try {
+      const user = await getPendingTwoFactorUser(req);
+      if (!user) {
+        return res.status(401).json({ code: "TWO_FACTOR_EXPIRED", message: "Your sign-in has expired. Please sign in again." });
+      }
+      
+      res.json(await beginEnrollment(user));
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(409).json({ code: error.code, message: error.message });
+      }
+      console.error("Two-factor setup error:", error);
+      res.status(500).json({ message: "Failed to set up two-factor authentication" });
+    }
+  });
+  
+  // Finish signing in with an authenticator or recovery code; during setup this also confirms the app
+  app.post("/api/login/2fa/verify", twoFactorLimit, async (req, res, next) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const pending = req.session.twoFactorPending;
+      const user = await getPendingTwoFactorUser(req);
+      if (!pending || !user) {
+        return res.status(401).json({ code: "TWO_FACTOR_EXPIRED", message: "Your sign-in has expired. Please sign in again." });
+      }
+      
+      pending.attempts++;
+      if (pending.attempts > TWO_FACTOR_MAX_ATTEMPTS) {
+        delete req.session.twoFactorPending;
+        return res.status(429).json({ code: "TWO_FACTOR_LOCKED", message: "Too many incorrect codes. Please sign in again." });
+      }
+      
+      let recoveryCodes: string[] | undefined;
+      if (await isTwoFactorEnrolled(user.id)) {
+        const method = await verifyTwoFactorCode(user.id, code);
+        if (!method) {
+          return res.status(400).json({
+            message: "Invalid code. Please try again.",
+            attemptsRemaining: TWO_FACTOR_MAX_ATTEMPTS - pending.attempts
+          });
+        }
+      } else {
+        const codes = await confirmEnrollment(user.id, code);
+        if (!codes) {
+          return res.status(400).json({
+            message: "Invalid code. Check that your authenticator app shows the right account and try again.",
+            attemptsRemaining: TWO_FACTOR_MAX_ATTEMPTS - pending.attempts
+          });
+        }
+        recoveryCodes = codes;
+      }
+      
+      req.login(user, (err) => {
+        if (err) return next(err);
+        // Set on the new session passport creates at login; admin routes require it
+        req.session.twoFactorVerified = true;
         const { password, ...userWithoutPassword } = user;
-        return res.status(200).json(userWithoutPassword);
+        res.json(recoveryCodes ? { ...userWithoutPassword, recoveryCodes } : userWithoutPassword);
       });
-    })(req, res, next);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof TwoFactorError) {
+        return res.status(409).json({ code: error.code, message: error.message });
+      }
+      console.error("Two-factor verification error:", error);
+      res.status(500).json({ message: "Two-factor verification failed" });
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
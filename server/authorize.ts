@@ -0,0 +1,38 @@
+import type { Request, Response, NextFunction } from "express";
+import { hasPermission, isStaff, type Permission } from "@shared/permissions";
+
+// Route guards. Staff permissions only count in sessions that passed two-factor
+// sign-in, so a stolen staff password alone gets no further than a client's would.
+
+// Whether the signed-in user may do this; for checks inside a handler
+export function can(req: Request, permission: Permission): boolean {
+  if (!req.isAuthenticated() || !hasPermission(req.user, permission)) {
+    return false;
+  }
+  return !isStaff(req.user) || !!req.session.twoFactorVerified;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Unauthorized" });
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    if (!req.session.twoFactorVerified) {
+      return res.status(403).json({
+        code: "TWO_FACTOR_REQUIRED",
+        message: "Please sign out and sign in again with two-factor authentication to use staff features"
+      });
+    }
+    next();
+  };
+}
@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseBookingRules, evaluateBooking, evaluateReschedule, getBookingWindow } from "@shared/booking-rules";
+
+// The default rules: Sunday 8-9 AM window, Tuesdays and Saturdays off, 9 AM-1 PM and
+// 3-5 PM in 15-minute slots, one booking a week. Dates are local, like the rules.
+const rules = parseBookingRules([]);
+const now = new Date(2030, 0, 1, 12); // Tuesday
+const monday = (hours: number, minutes = 0) => new Date(2030, 0, 7, hours, minutes);
+
+function codes(evaluation: { violations: { code: string }[] }) {
+  return evaluation.violations.map((violation) => violation.code);
+}
+
+test("a free slot within the slot hours is allowed", () => {
+  const evaluation = evaluateBooking(rules, monday(9), [], now);
+  assert.equal(evaluation.allowed, true);
+  assert.deepEqual(evaluation.violations, []);
+});
+
+test("slot hours include their start and exclude their end", () => {
+  assert.deepEqual(codes(evaluateBooking(rules, monday(8, 45), [], now)), ["OUTSIDE_SLOT_HOURS"]);
+  assert.deepEqual(codes(evaluateBooking(rules, monday(12, 45), [], now)), []);
+  assert.deepEqual(codes(evaluateBooking(rules, monday(13), [], now)), ["OUTSIDE_SLOT_HOURS"]);
+  assert.deepEqual(codes(evaluateBooking(rules, monday(15), [], now)), []);
+  assert.deepEqual(codes(evaluateBooking(rules, monday(16, 45), [], now)), []);
+  assert.deepEqual(codes(evaluateBooking(rules, monday(17), [], now)), ["OUTSIDE_SLOT_HOURS"]);
+});
+
+test("slots off the interval, on disabled days, in the past or unparseable are refused", () => {
+  assert.deepEqual(codes(evaluateBooking(rules, monday(9, 10), [], now)), ["INVALID_SLOT_INTERVAL"]);
+  assert.deepEqual(codes(evaluateBooking(rules, new Date(2030, 0, 8, 9), [], now)), ["DISABLED_DAY"]);
+  assert.deepEqual(codes(evaluateBooking(rules, monday(9), [], new Date(2030, 0, 7, 9, 1))), ["PAST_SLOT"]);
+  assert.deepEqual(codes(evaluateBooking(rules, new Date("not a date"), [], now)), ["INVALID_DATE"]);
+});
+
+test("the weekly limit counts appointments from Sunday to Saturday", () => {
+  const sunday = [{ date: new Date(2030, 0, 6, 0, 0), status: "confirmed", userId: 1 }];
+  const lastSaturday = [{ date: new Date(2030, 0, 5, 23, 59), status: "completed", userId: 1 }];
+
+  assert.deepEqual(codes(evaluateBooking(rules, monday(9), sunday, now)), ["WEEKLY_LIMIT"]);
+  assert.deepEqual(codes(evaluateBooking(rules, monday(9), lastSaturday, now)), []);
+});
+
+test("the user's own cancellations count toward the weekly limit, staff cancellations don't", () => {
+  const cancelled = (cancelledBy: number | null) =>
+    [{ date: monday(10), status: "cancelled", userId: 1, cancelledBy }];
+
+  assert.deepEqual(codes(evaluateBooking(rules, monday(9), cancelled(1), now)), ["WEEKLY_LIMIT"]);
+  assert.deepEqual(codes(evaluateBooking(rules, monday(9), cancelled(null), now)), ["WEEKLY_LIMIT"]);
+  assert.deepEqual(codes(evaluateBooking(rules, monday(9), cancelled(2), now)), []);
+});
+
+test("a rescheduled appointment doesn't count against itself", () => {
+  const appointment = { id: 1, date: monday(9), status: "confirmed", rescheduleCount: 0, userId: 1 };
+
+  assert.deepEqual(codes(evaluateReschedule(rules, appointment, monday(10), [appointment], now)), []);
+  assert.deepEqual(
+    codes(evaluateReschedule(rules, appointment, monday(10), [appointment, { ...appointment, id: 2, date: monday(11) }], now)),
+    ["WEEKLY_LIMIT"]
+  );
+  assert.deepEqual(codes(evaluateReschedule(rules, appointment, monday(9), [appointment], now)), ["SAME_SLOT"]);
+});
+
+test("rescheduling is refused after the cutoff, past the limit or once the appointment has moved on", () => {
+  const appointment = { id: 1, date: monday(9), status: "confirmed", rescheduleCount: 0 };
+
+  // The default cutoff is 24 hours before the start
+  assert.deepEqual(codes(evaluateReschedule(rules, appointment, monday(10), [], new Date(2030, 0, 6, 8, 59))), []);
+  assert.deepEqual(codes(evaluateReschedule(rules, appointment, monday(10), [], new Date(2030, 0, 6, 9))), ["RESCHEDULE_CUTOFF"]);
+  assert.deepEqual(codes(evaluateReschedule(rules, { ...appointment, rescheduleCount: 1 }, monday(10), [], now)), ["RESCHEDULE_LIMIT"]);
+  assert.deepEqual(codes(evaluateReschedule(rules, { ...appointment, status: "completed" }, monday(10), [], now)), ["NOT_RESCHEDULABLE"]);
+});
+
+test("the booking window is open from its start hour until its end hour", () => {
+  const sunday = (hours: number, minutes = 0) => new Date(2030, 0, 6, hours, minutes);
+
+  const before = getBookingWindow(rules, sunday(7, 59));
+  assert.equal(before.isOpen, false);
+  assert.deepEqual(before.opensAt, sunday(8));
+
+  const opening = getBookingWindow(rules, sunday(8));
+  assert.equal(opening.isOpen, true);
+  assert.deepEqual(opening.closesAt, sunday(9));
+
+  // Once closed, the next window is a week later
+  const closed = getBookingWindow(rules, sunday(9));
+  assert.equal(closed.isOpen, false);
+  assert.deepEqual(closed.opensAt, new Date(2030, 0, 13, 8));
+});
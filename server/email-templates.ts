@@ -0,0 +1,650 @@
+import { storage } from "./storage";
+import { notifications } from "./notifications";
+import { OTP_TTL_MS } from "./otp";
+import {
+  parseBookingRules,
+  formatHour,
+  describeSlotHours,
+  describeDisabledDays,
+  type BookingConfigEntry,
+  type BookingRules,
+} from "@shared/booking-rules";
+import { parseAttendancePolicy, type AttendancePolicy } from "@shared/attendance-policy";
+import type { EmailLanguage } from "@shared/schema";
+
+// Named email templates. Each template has an English and a Telugu variant written
+// as a list of blocks, which are rendered to both a plain-text and an HTML part.
+// Users get their preferred language; "both" (the default) sends English followed
+// by Telugu in one email, as the app always has. Rules mentioned in emails come
+// from booking_configurations, so they match what the admin has configured.
+
+export type EmailLocale = "en" | "te";
+
+type Block =
+  | string
+  | { heading: string }
+  | { list: string[] }
+  | { code: string }
+  | { link: string; label: string };
+
+interface LocalizedEmail {
+  subject: string;
+  blocks: Block[];
+}
+
+interface TemplateContext {
+  rules: BookingRules;
+  policy: AttendancePolicy;
+  otpMinutes: number;
+}
+
+interface EmailTemplate<T> {
+  description: string;
+  sample: T;
+  locales: Record<EmailLocale, (data: T, context: TemplateContext) => LocalizedEmail>;
+}
+
+export interface EmailTemplateData {
+  "otp": { code: string };
+  "password-reset": { name: string; code: string };
+  "password-reset-link": { name: string; url: string; hours: number };
+  "password-changed": { name: string; changedAt: Date };
+  "email-verification": { name: string; code: string };
+  "login-code": { name: string; code: string };
+  "account-exists": { name: string };
+  "confirmation": { name: string; start: Date; end: Date };
+  "cancellation": { name: string; start: Date; cancelledByAdmin: boolean };
+  "reschedule": { name: string; previousStart: Date; start: Date };
+  "reminder": { name: string; start: Date; hours: number };
+  "block-notice": { name: string; blockedUntil: Date; reason: string };
+  "block-lifted": { name: string; expired: boolean };
+  "lottery-result": { name: string; start: Date | null };
+  "waitlist-offer": { name: string; start: Date; expiresAt: Date };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const TELUGU_DAY_NAMES = ["ఆదివారం", "సోమవారం", "మంగళవారం", "బుధవారం", "గురువారం", "శుక్రవారం", "శనివారం"];
+
+function formatDate(date: Date, locale: EmailLocale): string {
+  return date.toLocaleDateString(locale === "te" ? "te-IN" : "en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: true });
+}
+
+function formatDateTime(date: Date, locale: EmailLocale): string {
+  return `${formatDate(date, locale)}, ${formatTime(date)}`;
+}
+
+// The attendance policy as a rule line; none when both limits are off
+function describeAttendancePolicy(policy: AttendancePolicy, locale: EmailLocale): string[] {
+  const limits = locale === "en"
+    ? [
+        policy.noShowLimit > 0 ? `${policy.noShowLimit} missed appointments` : null,
+        policy.lateCancellationLimit > 0
+          ? `${policy.lateCancellationLimit} cancellations within ${policy.lateCancellationHours} hours of the appointment`
+          : null,
+      ]
+    : [
+        policy.noShowLimit > 0 ? `${policy.noShowLimit} సార్లు హాజరు కాకపోవడం` : null,
+        policy.lateCancellationLimit > 0
+          ? `అపాయింట్‌మెంట్‌కు ${policy.lateCancellationHours} గంటల లోపు ${policy.lateCancellationLimit} రద్దులు`
+          : null,
+      ];
+  const described = limits.filter((limit): limit is string => limit !== null);
+  if (described.length === 0) return [];
+
+  return [locale === "en"
+    ? `Attendance: ${described.join(" or ")} within ${policy.periodDays} days will block booking for ${policy.blockWeeks} weeks`
+    : `హాజరు: ${policy.periodDays} రోజుల్లో ${described.join(" లేదా ")} జరిగితే ${policy.blockWeeks} వారాల పాటు బుకింగ్ నిరోధించబడుతుంది`];
+}
+
+function describeSlotHoursTelugu(rules: BookingRules): string {
+  return `${formatHour(rules.morning.start)} - ${formatHour(rules.morning.end)} మరియు ` +
+    `${formatHour(rules.afternoon.start)} - ${formatHour(rules.afternoon.end)} మధ్య ${rules.slotDuration}-నిమిష అంతరాల్లో`;
+}
+
+function describeLeadTime(hours: number, locale: EmailLocale): string {
+  const days = hours >= 24 && hours % 24 === 0 ? hours / 24 : null;
+  if (locale === "te") return days ? `${days} రోజు(ల)` : `${hours} గంట(ల)`;
+  return days ? `${days} day(s)` : `${hours} hour(s)`;
+}
+
+const SIGN_OFF: Record<EmailLocale, string> = {
+  en: "Thank you,\nThe Appointment Team",
+  te: "ధన్యవాదాలు,\nఅపాయింట్‌మెంట్ టీమ్",
+};
+
+const sampleStart = new Date(2025, 0, 6, 9, 30);
+const sampleEnd = new Date(2025, 0, 6, 9, 45);
+
+const templates: { [N in EmailTemplateName]: EmailTemplate<EmailTemplateData[N]> } = {
+  "otp": {
+    description: "Registration one-time code",
+    sample: { code: "123456" },
+    locales: {
+      en: ({ code }, { otpMinutes }) => ({
+        subject: "Your OTP for Registration",
+        blocks: [
+          "Use this code to finish creating your account:",
+          { code },
+          `It will expire in ${otpMinutes} minutes. If you didn't request it, you can ignore this email.`,
+        ],
+      }),
+      te: ({ code }, { otpMinutes }) => ({
+        subject: "నమోదు కోసం మీ OTP",
+        blocks: [
+          "మీ ఖాతా సృష్టించడం పూర్తి చేయడానికి ఈ కోడ్‌ను ఉపయోగించండి:",
+          { code },
+          `ఇది ${otpMinutes} నిమిషాల్లో ముగుస్తుంది. మీరు దీన్ని అభ్యర్థించకపోతే, ఈ ఇమెయిల్‌ను పట్టించుకోకండి.`,
+        ],
+      }),
+    },
+  },
+  "password-reset": {
+    description: "Forgot-password one-time code",
+    sample: { name: "Sample User", code: "123456" },
+    locales: {
+      en: ({ name, code }, { otpMinutes }) => ({
+        subject: "Your OTP for Password Reset",
+        blocks: [
+          `Dear ${name},`,
+          "Use this code to reset your password:",
+          { code },
+          `It will expire in ${otpMinutes} minutes. If you didn't ask to reset your password, you can ignore this email.`,
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, code }, { otpMinutes }) => ({
+        subject: "పాస్‌వర్డ్ రీసెట్ కోసం మీ OTP",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          "మీ పాస్‌వర్డ్‌ను రీసెట్ చేయడానికి ఈ కోడ్‌ను ఉపయోగించండి:",
+          { code },
+          `ఇది ${otpMinutes} నిమిషాల్లో ముగుస్తుంది. మీరు పాస్‌వర్డ్ రీసెట్ అడగకపోతే, ఈ ఇమెయిల్‌ను పట్టించుకోకండి.`,
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "password-reset-link": {
+    description: "Sent when an admin resets a user's password",
+    sample: { name: "Sample User", url: "https://example.com/auth?reset=sample-token", hours: 24 },
+    locales: {
+      en: ({ name, url, hours }) => ({
+        subject: "Choose a New Password",
+        blocks: [
+          `Dear ${name},`,
+          "An administrator has asked for your password to be reset. Open this link to choose a new one:",
+          { link: url, label: "Choose a new password" },
+          `The link works once and expires in ${hours} hours. Your current password keeps working until you change it.`,
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, url, hours }) => ({
+        subject: "కొత్త పాస్‌వర్డ్‌ను ఎంచుకోండి",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          "మీ పాస్‌వర్డ్‌ను రీసెట్ చేయమని నిర్వాహకుడు కోరారు. కొత్త పాస్‌వర్డ్‌ను ఎంచుకోవడానికి ఈ లింక్‌ను తెరవండి:",
+          { link: url, label: "కొత్త పాస్‌వర్డ్‌ను ఎంచుకోండి" },
+          `ఈ లింక్ ఒక్కసారి మాత్రమే పనిచేస్తుంది మరియు ${hours} గంటల్లో ముగుస్తుంది. మీరు మార్చే వరకు మీ ప్రస్తుత పాస్‌వర్డ్ పనిచేస్తుంది.`,
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "password-changed": {
+    description: "Sent after a password has been reset",
+    sample: { name: "Sample User", changedAt: sampleStart },
+    locales: {
+      en: ({ name, changedAt }) => ({
+        subject: "Your Password Has Been Changed",
+        blocks: [
+          `Dear ${name},`,
+          `The password for your account was changed on ${formatDateTime(changedAt, "en")}. You have been signed out on all devices.`,
+          "If you didn't make this change, please reset your password straight away and contact our support team.",
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, changedAt }) => ({
+        subject: "మీ పాస్‌వర్డ్ మార్చబడింది",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          `మీ ఖాతా పాస్‌వర్డ్ ${formatDateTime(changedAt, "te")}న మార్చబడింది. అన్ని పరికరాల నుండి మీరు సైన్ అవుట్ చేయబడ్డారు.`,
+          "ఈ మార్పు మీరు చేయకపోతే, వెంటనే మీ పాస్‌వర్డ్‌ను రీసెట్ చేసి మా సపోర్ట్ టీమ్‌ని సంప్రదించండి.",
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "email-verification": {
+    description: "One-time code to confirm a changed email address",
+    sample: { name: "Sample User", code: "123456" },
+    locales: {
+      en: ({ name, code }, { otpMinutes }) => ({
+        subject: "Confirm Your Email Address",
+        blocks: [
+          `Dear ${name},`,
+          "Use this code to confirm this email address for your account:",
+          { code },
+          `It will expire in ${otpMinutes} minutes. If you didn't request it, you can ignore this email.`,
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, code }, { otpMinutes }) => ({
+        subject: "మీ ఇమెయిల్ చిరునామాను నిర్ధారించండి",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          "మీ ఖాతా కోసం ఈ ఇమెయిల్ చిరునామాను నిర్ధారించడానికి ఈ కోడ్‌ను ఉపయోగించండి:",
+          { code },
+          `ఇది ${otpMinutes} నిమిషాల్లో ముగుస్తుంది. మీరు దీన్ని అభ్యర్థించకపోతే, ఈ ఇమెయిల్‌ను పట్టించుకోకండి.`,
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "login-code": {
+    description: "One-time code for signing in without a password",
+    sample: { name: "Sample User", code: "123456" },
+    locales: {
+      en: ({ name, code }, { otpMinutes }) => ({
+        subject: "Your Sign-In Code",
+        blocks: [
+          `Dear ${name},`,
+          "Use this code to sign in to your account:",
+          { code },
+          `It will expire in ${otpMinutes} minutes. If you didn't try to sign in, you can ignore this email; your account is safe.`,
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, code }, { otpMinutes }) => ({
+        subject: "మీ సైన్-ఇన్ కోడ్",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          "మీ ఖాతాలోకి సైన్ ఇన్ చేయడానికి ఈ కోడ్‌ను ఉపయోగించండి:",
+          { code },
+          `ఇది ${otpMinutes} నిమిషాల్లో ముగుస్తుంది. మీరు సైన్ ఇన్ చేయడానికి ప్రయత్నించకపోతే, ఈ ఇమెయిల్‌ను పట్టించుకోకండి; మీ ఖాతా సురక్షితంగా ఉంది.`,
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "account-exists": {
+    description: "Sent instead of a registration code when the email already has an account",
+    sample: { name: "Sample User" },
+    locales: {
+      en: ({ name }) => ({
+        subject: "You Already Have an Account",
+        blocks: [
+          `Dear ${name},`,
+          "Someone tried to register a new account with this email address, but it already belongs to your account.",
+          "If it was you, please sign in instead. If you've forgotten your password, use \"Forgot password\" on the sign-in page. If it wasn't you, you can ignore this email.",
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name }) => ({
+        subject: "మీకు ఇప్పటికే ఖాతా ఉంది",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          "ఈ ఇమెయిల్ చిరునామాతో ఎవరో కొత్త ఖాతాను నమోదు చేయడానికి ప్రయత్నించారు, కానీ ఇది ఇప్పటికే మీ ఖాతాకు చెందినది.",
+          "అది మీరే అయితే, దయచేసి సైన్ ఇన్ చేయండి. మీ పాస్‌వర్డ్ మర్చిపోతే, సైన్-ఇన్ పేజీలో \"పాస్‌వర్డ్ మర్చిపోయారా\" ఉపయోగించండి. అది మీరు కాకపోతే, ఈ ఇమెయిల్‌ను పట్టించుకోకండి.",
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "confirmation": {
+    description: "Sent when an appointment is booked",
+    sample: { name: "Sample User", start: sampleStart, end: sampleEnd },
+    locales: {
+      en: ({ name, start, end }, { rules, policy }) => ({
+        subject: "Your Appointment Confirmation",
+        blocks: [
+          `Dear ${name},`,
+          "Your appointment has been successfully booked.",
+          { heading: "Appointment Details" },
+          { list: [
+            `Date: ${formatDate(start, "en")}`,
+            `Time: ${formatTime(start)} - ${formatTime(end)}`,
+            `Duration: ${rules.slotDuration} minutes`,
+          ] },
+          { heading: "Important Rules & Information" },
+          { list: [
+            `Time Slots: Appointments are available between ${describeSlotHours(rules)}`,
+            `Weekly Limit: Only ${rules.weeklyLimit} appointment(s) per week are allowed`,
+            rules.weeklyLimit === 1
+              ? "Cancellation Policy: If you cancel an appointment, you cannot book another in the same week"
+              : `Cancellation Policy: A cancelled appointment still counts toward the limit of ${rules.weeklyLimit} appointments that week`,
+            ...(rules.disabledDays.length > 0
+              ? [`Blocked Days: No appointments are available on ${describeDisabledDays(rules)}`]
+              : []),
+            rules.reschedule.limit > 0
+              ? `Rescheduling: You can reschedule up to ${rules.reschedule.limit} time(s), until ${rules.reschedule.cutoffHours} hours before the appointment`
+              : "Rescheduling: Appointments can't be rescheduled",
+            ...describeAttendancePolicy(policy, "en"),
+          ] },
+          "Please arrive 5 minutes before your scheduled time. Late arrivals may result in appointment cancellation.",
+          "For any questions or changes, please contact our support team.",
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, start, end }, { rules, policy }) => ({
+        subject: "మీ అపాయింట్‌మెంట్ నిర్ధారణ",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          "మీ అపాయింట్‌మెంట్ విజయవంతంగా బుక్ చేయబడింది.",
+          { heading: "అపాయింట్‌మెంట్ వివరాలు" },
+          { list: [
+            `తేదీ: ${formatDate(start, "te")}`,
+            `సమయం: ${formatTime(start)} - ${formatTime(end)}`,
+            `వ్యవధి: ${rules.slotDuration} నిమిషాలు`,
+          ] },
+          { heading: "ముఖ్యమైన నియమాలు & సమాచారం" },
+          { list: [
+            `సమయ స్లాట్లు: అపాయింట్‌మెంట్లు ${describeSlotHoursTelugu(rules)} లభ్యం`,
+            `వారపు పరిమితి: వారానికి ${rules.weeklyLimit} అపాయింట్‌మెంట్ మాత్రమే బుక్ చేయగలరు`,
+            rules.weeklyLimit === 1
+              ? "రద్దు విధానం: ఒకవేళ మీరు అపాయింట్‌మెంట్ రద్దు చేస్తే, అదే వారంలో మరోదాన్ని బుక్ చేయలేరు"
+              : `రద్దు విధానం: రద్దు చేసిన అపాయింట్‌మెంట్ కూడా ఆ వారపు ${rules.weeklyLimit} అపాయింట్‌మెంట్ల పరిమితిలో లెక్కించబడుతుంది`,
+            ...(rules.disabledDays.length > 0
+              ? [`నిషేధిత రోజులు: ${rules.disabledDays.map(day => TELUGU_DAY_NAMES[day]).join(", ")} అపాయింట్‌మెంట్లు లభ్యం కావు`]
+              : []),
+            rules.reschedule.limit > 0
+              ? `సమయం మార్పు: అపాయింట్‌మెంట్‌కు ${rules.reschedule.cutoffHours} గంటల ముందు వరకు ${rules.reschedule.limit} సార్లు సమయం మార్చుకోవచ్చు`
+              : "సమయం మార్పు: అపాయింట్‌మెంట్ సమయం మార్చడం సాధ్యం కాదు",
+            ...describeAttendancePolicy(policy, "te"),
+          ] },
+          "దయచేసి మీ స్కెడ్యూల్ సమయానికి 5 నిమిషాల ముందు వెళ్లండి. ఆలస్యంగా వచ్చినట్లయితే అపాయింట్‌మెంట్ రద్దు కావచ్చు.",
+          "ఏవైనా ప్రశ్నలు లేదా మార్పుల కోసం, దయచేసి మా సపోర్ట్ టీమ్‌ని సంప్రదించండి.",
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "cancellation": {
+    description: "Sent when an appointment is cancelled",
+    sample: { name: "Sample User", start: sampleStart, cancelledByAdmin: false },
+    locales: {
+      en: ({ name, start, cancelledByAdmin }) => ({
+        subject: "Your Appointment Has Been Cancelled",
+        blocks: [
+          `Dear ${name},`,
+          cancelledByAdmin
+            ? `Your appointment on ${formatDateTime(start, "en")} has been cancelled by our team.`
+            : `Your appointment on ${formatDateTime(start, "en")} has been cancelled as you requested.`,
+          "You can book a new appointment when the booking window next opens.",
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, start, cancelledByAdmin }) => ({
+        subject: "మీ అపాయింట్‌మెంట్ రద్దు చేయబడింది",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          cancelledByAdmin
+            ? `${formatDateTime(start, "te")} నాటి మీ అపాయింట్‌మెంట్ మా టీమ్ ద్వారా రద్దు చేయబడింది.`
+            : `మీ అభ్యర్థన మేరకు ${formatDateTime(start, "te")} నాటి మీ అపాయింట్‌మెంట్ రద్దు చేయబడింది.`,
+          "బుకింగ్ విండో తదుపరి సారి తెరిచినప్పుడు మీరు కొత్త అపాయింట్‌మెంట్ బుక్ చేయవచ్చు.",
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "reschedule": {
+    description: "Sent when an appointment is moved to a new time",
+    sample: { name: "Sample User", previousStart: sampleStart, start: new Date(2025, 0, 8, 15, 0) },
+    locales: {
+      en: ({ name, previousStart, start }) => ({
+        subject: "Your Appointment Has Been Rescheduled",
+        blocks: [
+          `Dear ${name},`,
+          "Your appointment has been moved.",
+          { list: [
+            `Previous time: ${formatDateTime(previousStart, "en")}`,
+            `New time: ${formatDateTime(start, "en")}`,
+          ] },
+          "Please arrive 5 minutes before your scheduled time.",
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, previousStart, start }) => ({
+        subject: "మీ అపాయింట్‌మెంట్ సమయం మార్చబడింది",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          "మీ అపాయింట్‌మెంట్ సమయం మార్చబడింది.",
+          { list: [
+            `పాత సమయం: ${formatDateTime(previousStart, "te")}`,
+            `కొత్త సమయం: ${formatDateTime(start, "te")}`,
+          ] },
+          "దయచేసి మీ సమయానికి 5 నిమిషాల ముందు రండి.",
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "reminder": {
+    description: "Sent at each configured lead time before an appointment",
+    sample: { name: "Sample User", start: sampleStart, hours: 24 },
+    locales: {
+      en: ({ name, start, hours }) => ({
+        subject: "Reminder: Your Upcoming Appointment",
+        blocks: [
+          `Dear ${name},`,
+          `This is a reminder that your appointment is in about ${describeLeadTime(hours, "en")}.`,
+          { heading: "Appointment Details" },
+          { list: [`Date: ${formatDate(start, "en")}`, `Time: ${formatTime(start)}`] },
+          "Please arrive 5 minutes before your scheduled time. If you can no longer attend, please reschedule or cancel from My Appointments.",
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, start, hours }) => ({
+        subject: "రిమైండర్: మీ రాబోయే అపాయింట్‌మెంట్",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          `మీ అపాయింట్‌మెంట్ సుమారు ${describeLeadTime(hours, "te")}లో ఉందని గుర్తు చేస్తున్నాము.`,
+          { heading: "అపాయింట్‌మెంట్ వివరాలు" },
+          { list: [`తేదీ: ${formatDate(start, "te")}`, `సమయం: ${formatTime(start)}`] },
+          "దయచేసి మీ సమయానికి 5 నిమిషాల ముందు రండి. మీరు హాజరు కాలేకపోతే, దయచేసి నా అపాయింట్‌మెంట్‌ల నుండి సమయం మార్చండి లేదా రద్దు చేయండి.",
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "block-notice": {
+    description: "Sent when an account is blocked from booking",
+    sample: { name: "Sample User", blockedUntil: new Date(2025, 1, 1), reason: "Missed appointment without notice" },
+    locales: {
+      en: ({ name, blockedUntil, reason }) => ({
+        subject: "Your Account Has Been Blocked From Booking",
+        blocks: [
+          `Dear ${name},`,
+          `Your account has been blocked from booking appointments until ${formatDate(blockedUntil, "en")}.`,
+          `Reason: ${reason}`,
+          "If you think this is a mistake, please contact our support team.",
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, blockedUntil, reason }) => ({
+        subject: "మీ ఖాతా బుకింగ్ నుండి నిరోధించబడింది",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          `మీ ఖాతా ${formatDate(blockedUntil, "te")} వరకు అపాయింట్‌మెంట్లు బుక్ చేయకుండా నిరోధించబడింది.`,
+          `కారణం: ${reason}`,
+          "ఇది పొరపాటు అని మీరు భావిస్తే, దయచేసి మా సపోర్ట్ టీమ్‌ని సంప్రదించండి.",
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "block-lifted": {
+    description: "Sent when a booking block is lifted by an admin or runs out",
+    sample: { name: "Sample User", expired: true },
+    locales: {
+      en: ({ name, expired }) => ({
+        subject: "You Can Book Appointments Again",
+        blocks: [
+          `Dear ${name},`,
+          expired
+            ? "The block on your account has ended."
+            : "The block on your account has been lifted.",
+          "You can book appointments again.",
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, expired }) => ({
+        subject: "మీరు మళ్ళీ అపాయింట్‌మెంట్లు బుక్ చేయవచ్చు",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          expired
+            ? "మీ ఖాతాపై ఉన్న నిరోధం ముగిసింది."
+            : "మీ ఖాతాపై ఉన్న నిరోధం తొలగించబడింది.",
+          "మీరు మళ్ళీ అపాయింట్‌మెంట్లు బుక్ చేయవచ్చు.",
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+  "lottery-result": {
+    description: "Sent to everyone who took part in a lottery draw",
+    sample: { name: "Sample User", start: sampleStart },
+    locales: {
+      en: ({ name, start }) => ({
+        subject: start ? "Your Appointment Lottery Result: Allocated" : "Your Appointment Lottery Result",
+        blocks: start
+          ? [`Dear ${name},`, "Good news! You were allocated an appointment in this week's draw:", { list: [formatDateTime(start, "en")] }, SIGN_OFF.en]
+          : [`Dear ${name},`, "Unfortunately you were not allocated an appointment in this week's draw. Please try again next week.", SIGN_OFF.en],
+      }),
+      te: ({ name, start }) => ({
+        subject: start ? "మీ అపాయింట్‌మెంట్ లాటరీ ఫలితం: కేటాయించబడింది" : "మీ అపాయింట్‌మెంట్ లాటరీ ఫలితం",
+        blocks: start
+          ? [`ప్రియమైన ${name},`, "శుభవార్త! ఈ వారం డ్రాలో మీకు అపాయింట్‌మెంట్ కేటాయించబడింది:", { list: [formatDateTime(start, "te")] }, SIGN_OFF.te]
+          : [`ప్రియమైన ${name},`, "క్షమించండి, ఈ వారం డ్రాలో మీకు అపాయింట్‌మెంట్ కేటాయించబడలేదు. దయచేసి వచ్చే వారం మళ్లీ ప్రయత్నించండి.", SIGN_OFF.te],
+      }),
+    },
+  },
+  "waitlist-offer": {
+    description: "Sent when a freed slot is offered to the next user on the waitlist",
+    sample: { name: "Sample User", start: sampleStart, expiresAt: new Date(2025, 0, 5, 10, 30) },
+    locales: {
+      en: ({ name, start, expiresAt }) => ({
+        subject: "A Slot Has Opened Up For You",
+        blocks: [
+          `Dear ${name},`,
+          "A slot you were waiting for has become free and is being held for you:",
+          { list: [formatDateTime(start, "en")] },
+          `Sign in and open My Appointments to book it before ${formatTime(expiresAt)}. After that it will be offered to the next person on the waitlist.`,
+          SIGN_OFF.en,
+        ],
+      }),
+      te: ({ name, start, expiresAt }) => ({
+        subject: "మీ కోసం ఒక స్లాట్ అందుబాటులోకి వచ్చింది",
+        blocks: [
+          `ప్రియమైన ${name},`,
+          "మీరు ఎదురుచూస్తున్న స్లాట్ ఖాళీ అయింది మరియు మీ కోసం ఉంచబడింది:",
+          { list: [formatDateTime(start, "te")] },
+          `${formatTime(expiresAt)} లోపు సైన్ ఇన్ చేసి నా అపాయింట్‌మెంట్‌ల నుండి బుక్ చేసుకోండి. ఆ తర్వాత ఇది వెయిటింగ్ లిస్ట్‌లోని తదుపరి వ్యక్తికి అందించబడుతుంది.`,
+          SIGN_OFF.te,
+        ],
+      }),
+    },
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function blocksToText(blocks: Block[]): string {
+  return blocks.map(block => {
+    if (typeof block === "string") return block;
+    if ("heading" in block) return `${block.heading}:`;
+    if ("list" in block) return block.list.map(item => `- ${item}`).join("\n");
+    if ("link" in block) return `${block.label}: ${block.link}`;
+    return block.code;
+  }).join("\n\n");
+}
+
+function blocksToHtml(blocks: Block[]): string {
+  return blocks.map(block => {
+    if (typeof block === "string") return `<p>${escapeHtml(block).replace(/\n/g, "<br>")}</p>`;
+    if ("heading" in block) return `<h3 style="margin:16px 0 8px">${escapeHtml(block.heading)}</h3>`;
+    if ("list" in block) return `<ul>${block.list.map(item => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`;
+    if ("link" in block) return `<p><a href="${escapeHtml(block.link)}">${escapeHtml(block.label)}</a></p>`;
+    return `<p style="font-size:24px;font-weight:bold;letter-spacing:4px">${escapeHtml(block.code)}</p>`;
+  }).join("\n");
+}
+
+function wrapHtml(body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<body style="font-family:Arial,sans-serif;line-height:1.5;color:#1f2937;max-width:600px;margin:0 auto;padding:16px">
+${body}
+</body>
+</html>`;
+}
+
+export function getEmailTemplates(): { name: EmailTemplateName; description: string }[] {
+  return (Object.keys(templates) as EmailTemplateName[]).map(name => ({
+    name,
+    description: templates[name].description,
+  }));
+}
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return name in templates;
+}
+
+export function getSampleData<N extends EmailTemplateName>(name: N): EmailTemplateData[N] {
+  return templates[name].sample;
+}
+
+export function renderEmail<N extends EmailTemplateName>(
+  name: N,
+  data: EmailTemplateData[N],
+  options: { language?: EmailLanguage | string; configs: BookingConfigEntry[] }
+): RenderedEmail {
+  const template = templates[name] as EmailTemplate<EmailTemplateData[N]>;
+  const context: TemplateContext = {
+    rules: parseBookingRules(options.configs),
+    policy: parseAttendancePolicy(options.configs),
+    otpMinutes: Math.round(OTP_TTL_MS / 60000),
+  };
+
+  const locales: EmailLocale[] = options.language === "en" || options.language === "te"
+    ? [options.language]
+    : ["en", "te"];
+  const parts = locales.map(locale => template.locales[locale](data, context));
+
+  return {
+    subject: parts.map(part => part.subject).join(" / "),
+    text: parts.map(part => blocksToText(part.blocks)).join("\n\n--\n\n"),
+    html: wrapHtml(parts.map(part => blocksToHtml(part.blocks)).join('\n<hr style="margin:24px 0">\n')),
+  };
+}
+
+// Render a template with the current booking configuration and send it
+export async function sendTemplatedEmail<N extends EmailTemplateName>(
+  to: string,
+  name: N,
+  data: EmailTemplateData[N],
+  language?: EmailLanguage | string
+): Promise<void> {
+  const configs = await storage.getBookingConfigurations();
+  await notifications.sendEmail({ to, ...renderEmail(name, data, { language, configs }) });
+}
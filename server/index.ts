@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { scheduler } from "./jobs";
 
 const app = express();
 app.use(express.json());
@@ -63,4 +64,7 @@ app.use((req, res, next) => {
   server.listen(port, 'localhost', () => {
     log(`serving on http://localhost:${port}`);
   });
+
+  // Background jobs: appointment statuses, reminders, clean-up and lottery draws
+  scheduler.start().catch(error => console.error("Failed to start job scheduler:", error));
 })();
@@ -0,0 +1,92 @@
+import { storage } from "./storage";
+import { JobScheduler, type JobDefinition } from "./scheduler";
+import { applyTimeBasedTransitions } from "./appointment-status";
+import { sendDueReminders } from "./reminders";
+import { purgeExpiredOtps } from "./otp";
+import { runDueLotteries } from "./lottery";
+import { expireBlocks } from "./user-blocks";
+import { expireWaitlistOffers } from "./waitlist";
+
+// How long job run records are kept
+const JOB_RUN_RETENTION_DAYS = 14;
+// How long lockout and rate limit events are kept
+const SECURITY_EVENT_RETENTION_DAYS = 90;
+
+const jobs: JobDefinition[] = [
+  {
+    name: "appointment-status",
+    description: "Move checked-in appointments along as their times pass, and complete those never checked in at the end of the day",
+    intervalMinutes: 1,
+    run: async () => `${await applyTimeBasedTransitions()} appointment(s) updated`,
+  },
+  {
+    name: "expire-blocks",
+    description: "End account blocks that have run out and email their users",
+    intervalMinutes: 15,
+    run: async () => `${await expireBlocks(new Date())} block(s) ended`,
+  },
+  {
+    name: "waitlist-offers",
+    description: "Offer slots that weren't claimed in time to the next user on the waitlist",
+    intervalMinutes: 1,
+    run: async () => `${await expireWaitlistOffers(new Date())} offer(s) expired`,
+  },
+  {
+    name: "appointment-reminders",
+    description: "Email appointment reminders at the configured lead times",
+    intervalMinutes: 5,
+    run: async () => {
+      const { sent, failed } = await sendDueReminders();
+      if (failed > 0) {
+        throw new Error(`${failed} reminder(s) failed to send (${sent} sent); they will be retried`);
+      }
+      return `${sent} reminder(s) sent`;
+    },
+  },
+  {
+    name: "purge-otps",
+    description: "Remove expired one-time passwords",
+    intervalMinutes: 15,
+    run: async (scheduledFor) => `${await purgeExpiredOtps(scheduledFor)} OTP(s) purged`,
+  },
+  {
+    name: "purge-slot-holds",
+    description: "Remove slot holds that ran out during checkout",
+    intervalMinutes: 15,
+    run: async (scheduledFor) => `${await storage.deleteExpiredSlotHolds(scheduledFor)} hold(s) purged`,
+  },
+  {
+    name: "purge-auth-tokens",
+    description: "Remove expired password reset tokens",
+    intervalMinutes: 60,
+    run: async (scheduledFor) => `${await storage.deleteExpiredAuthTokens(scheduledFor)} token(s) purged`,
+  },
+  {
+    name: "lottery-draw",
+    description: "Draw lottery-mode weeks when their booking window closes",
+    intervalMinutes: 1,
+    run: async () => {
+      await runDueLotteries();
+    },
+  },
+  {
+    name: "purge-job-runs",
+    description: `Remove job run records older than ${JOB_RUN_RETENTION_DAYS} days`,
+    intervalMinutes: 24 * 60,
+    run: async () => {
+      const cutoff = new Date(Date.now() - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      return `${await storage.deleteJobRunsBefore(cutoff)} run record(s) removed`;
+    },
+  },
+  {
+    name: "purge-security-events",
+    description: `Remove security events older than ${SECURITY_EVENT_RETENTION_DAYS} days`,
+    intervalMinutes: 24 * 60,
+    run: async () => {
+      const cutoff = new Date(Date.now() - SECURITY_EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      return `${await storage.deleteSecurityEventsBefore(cutoff)} event(s) removed`;
+    },
+  },
+];
+
+export const scheduler = new JobScheduler(jobs);
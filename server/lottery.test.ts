@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { allocateLottery, replayLotteryRun, type RankedPreference } from "@shared/lottery";
+import type { LotteryRun } from "@shared/schema";
+
+// Four users competing for two slots, each ranking slot 1 above slot 2
+const preferences: RankedPreference[] = [1, 2, 3, 4].flatMap((userId) => [
+  { userId, slotId: 1, rank: 1 },
+  { userId, slotId: 2, rank: 2 },
+]);
+
+function storedRun(seed: string, allocations = allocateLottery(preferences, seed)): LotteryRun {
+  return {
+    id: 1,
+    weekStart: new Date(2030, 0, 6),
+    seed,
+    preferences,
+    allocations,
+    runBy: null,
+    createdAt: new Date(),
+  };
+}
+
+test("the same seed draws the same order and allocations", () => {
+  const first = allocateLottery(preferences, "seed-a");
+  assert.deepEqual(allocateLottery(preferences, "seed-a"), first);
+
+  // Every user is drawn once; the first two get their first and second choice
+  assert.deepEqual(first.map((allocation) => allocation.userId).sort(), [1, 2, 3, 4]);
+  assert.deepEqual(first.map((allocation) => allocation.slotId), [1, 2, null, null]);
+});
+
+test("the order doesn't depend on the order preferences were submitted in", () => {
+  assert.deepEqual(allocateLottery([...preferences].reverse(), "seed-a"), allocateLottery(preferences, "seed-a"));
+});
+
+test("different seeds can draw different orders", () => {
+  const orders = new Set(["a", "b", "c", "d", "e", "f"].map((seed) =>
+    allocateLottery(preferences, seed).map((allocation) => allocation.userId).join(",")
+  ));
+  assert.ok(orders.size > 1);
+});
+
+test("excluded users and taken slots are left out of the draw", () => {
+  const allocations = allocateLottery(preferences, "seed-a", new Set([1]), new Set([2, 3]));
+
+  assert.deepEqual(allocations.map((allocation) => allocation.userId).sort(), [1, 4]);
+  // Only slot 2 is left, so one of them goes without
+  assert.deepEqual(allocations.map((allocation) => allocation.slotId), [2, null]);
+});
+
+test("a stored run replays to the same allocations", () => {
+  const replay = replayLotteryRun(storedRun("seed-a"));
+  assert.equal(replay.matches, true);
+  assert.deepEqual(replay.allocations, allocateLottery(preferences, "seed-a"));
+});
+
+test("a replay reports a run whose allocations don't follow from its seed", () => {
+  const [first, second, ...rest] = allocateLottery(preferences, "seed-a");
+  const swapped = [{ ...first, slotId: second.slotId }, { ...second, slotId: first.slotId }, ...rest];
+
+  assert.equal(replayLotteryRun(storedRun("seed-a", swapped)).matches, false);
+  assert.equal(replayLotteryRun(storedRun("seed-a", [first, second])).matches, false);
+});
@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import { format } from "date-fns";
+import { storage, BookingConflictError } from "./storage";
+import { sendTemplatedEmail } from "./email-templates";
+import { parseBookingRules, getBookingWindow, getWeekRange, countsTowardWeeklyLimit, type BookingConfigEntry } from "@shared/booking-rules";
+import { allocateLottery } from "@shared/lottery";
+import type { LotteryRun } from "@shared/schema";
+
+// Lottery-mode allocation. During a lottery week's booking window users submit
+// ranked slot preferences; when the window closes a seeded draw (shared/lottery.ts)
+// orders the users and gives each one their highest-ranked slot that is still free.
+// The seed and the preferences are stored with the run so the draw can be replayed for audit.
+
+function toDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+// Whether the week starting at `weekStart` is configured for lottery allocation
+export function isLotteryWeek(configs: BookingConfigEntry[], weekStart: Date): boolean {
+  const config = configs.find(c => c.key === "lottery_weeks");
+  if (!config) return false;
+
+  const weeks = config.value.split(",").map(week => week.trim()).filter(Boolean);
+  return weeks.includes(toDateKey(weekStart));
+}
+
+// Slots that are unavailable to the draw, and users who already booked that week or
+// are blocked from booking
+async function getDrawContext(weekStart: Date, userIds: number[], now: Date = new Date()) {
+  const week = getWeekRange(weekStart);
+  const slots = await storage.getAvailableSlotsByDateRange(week.start, week.end);
+  const weekAppointments = await storage.getAppointmentsByDateRange(week.start, week.end);
+  const appointments = weekAppointments.filter(appointment => appointment.status !== "cancelled");
+
+  const bookedTimes = new Set(appointments.map(appointment => new Date(appointment.date).getTime()));
+  const takenSlotIds = new Set(
+    slots
+      .filter(slot => !slot.isEnabled || bookedTimes.has(new Date(slot.date).getTime()))
+      .map(slot => slot.id)
+  );
+  // Cancelling doesn't give a user their booking for the week back
+  const excludedUserIds = new Set(
+    weekAppointments.filter(countsTowardWeeklyLimit).map(appointment => appointment.userId)
+  );
+  // Same check as booking directly
+  for (const userId of Array.from(new Set(userIds))) {
+    const user = await storage.getUser(userId);
+    if (user?.blockedUntil && new Date(user.blockedUntil) > now) {
+      excludedUserIds.add(userId);
+    }
+  }
+
+  return { slots, takenSlotIds, excludedUserIds };
+}
+
+async function notifyLotteryResult(userId: number, slotDate: Date | null) {
+  const user = await storage.getUser(userId);
+  if (!user?.email) return;
+
+  try {
+    await sendTemplatedEmail(user.email, "lottery-result", {
+      name: user.name || 'User',
+      start: slotDate
+    }, user.preferredLanguage);
+  } catch (error) {
+    console.error(`Failed to send lottery result to user ${userId}:`, error);
+  }
+}
+
+// Run the draw for a week, book the winners and notify everyone who took part
+export async function runLottery(weekStart: Date, options: { seed?: string; runBy?: number } = {}): Promise<LotteryRun> {
+  const existingRun = await storage.getLotteryRunByWeek(weekStart);
+  if (existingRun) {
+    throw new Error("The lottery for this week has already been drawn");
+  }
+
+  const seed = options.seed || crypto.randomBytes(16).toString("hex");
+  const submittedPreferences = await storage.getLotteryPreferences(weekStart);
+  const { slots, takenSlotIds, excludedUserIds } = await getDrawContext(weekStart, submittedPreferences.map(p => p.userId));
+
+  // The stored snapshot is exactly the input to the draw, so it can be replayed as-is
+  const preferences = submittedPreferences
+    .filter(p => !excludedUserIds.has(p.userId) && !takenSlotIds.has(p.slotId))
+    .map(({ userId, slotId, rank }) => ({ userId, slotId, rank }));
+
+  const allocations = allocateLottery(preferences, seed);
+  const run = await storage.createLotteryRun({
+    weekStart,
+    seed,
+    preferences,
+    allocations,
+    runBy: options.runBy ?? null,
+  });
+
+  const rules = parseBookingRules(await storage.getBookingConfigurations());
+  const slotsById = new Map(slots.map(slot => [slot.id, slot]));
+
+  for (const allocation of allocations) {
+    const slot = allocation.slotId !== null ? slotsById.get(allocation.slotId) : undefined;
+    if (!slot) {
+      await notifyLotteryResult(allocation.userId, null);
+      continue;
+    }
+
+    const date = new Date(slot.date);
+    try {
+      const appointment = await storage.bookAppointment({
+        userId: allocation.userId,
+        date,
+        endTime: new Date(date.getTime() + rules.slotDuration * 60 * 1000),
+      }, rules.weeklyLimit);
+      allocation.appointmentId = appointment.id;
+      await notifyLotteryResult(allocation.userId, date);
+    } catch (error) {
+      // Someone booked the slot outside the draw (e.g. an admin); treat as not allocated.
+      // Other failures are treated the same way rather than thrown: the run is already stored,
+      // so stopping here would leave the rest of the winners unbooked with no way to redraw.
+      if (!(error instanceof BookingConflictError)) {
+        console.error(`Failed to book lottery slot ${slot.id} for user ${allocation.userId}:`, error);
+      }
+      allocation.appointmentId = null;
+      await notifyLotteryResult(allocation.userId, null);
+    }
+  }
+
+  return (await storage.updateLotteryRun(run.id, { allocations })) ?? run;
+}
+
+// Draw any lottery week whose booking window has closed
+export async function runDueLotteries(now: Date = new Date()) {
+  const configs = await storage.getBookingConfigurations();
+  const rules = parseBookingRules(configs);
+
+  // getBookingWindow returns this week's window until it closes and next week's
+  // after, so the most recently closed window ended a week before its close
+  const lastClose = new Date(getBookingWindow(rules, now).closesAt);
+  lastClose.setDate(lastClose.getDate() - 7);
+
+  const weekStart = getWeekRange(lastClose).start;
+  if (!isLotteryWeek(configs, weekStart)) return;
+
+  if (!(await storage.getLotteryRunByWeek(weekStart))) {
+    console.log(`Running lottery draw for week of ${toDateKey(weekStart)}`);
+    await runLottery(weekStart);
+  }
+}
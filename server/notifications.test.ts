@@ -0,0 +1,43 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import dotenv from "dotenv";
+
+// Emails sent through the memory driver. Templates read the booking settings, so this
+// needs DATABASE_URL like storage.test.ts; skipped without one.
+dotenv.config();
+const skip = process.env.DATABASE_URL ? false : "DATABASE_URL is not set";
+
+// Chosen when the notifications module loads
+process.env.NOTIFICATION_DRIVER = "memory";
+
+after(async () => {
+  if (skip) return;
+  const { pool } = await import("./db");
+  await pool.end();
+});
+
+test("the registration code is emailed through the memory driver and verifies", { skip }, async () => {
+  const { notifications, MemoryDriver } = await import("./notifications");
+  const { sendTemplatedEmail } = await import("./email-templates");
+  const { issueOtp, verifyOtp } = await import("./otp");
+  const { storage } = await import("./storage");
+
+  const driver = notifications.driver;
+  assert.ok(driver instanceof MemoryDriver);
+
+  const email = `otp-test-${Date.now()}-${process.pid}@example.com`;
+  try {
+    const code = await issueOtp(email, "registration");
+    await sendTemplatedEmail(email, "otp", { code });
+
+    const [sent] = driver.sentTo(email);
+    assert.ok(sent, "no email was sent");
+    assert.ok(sent.text.includes(code), "the code is missing from the text part");
+    assert.ok(sent.html?.includes(code), "the code is missing from the HTML part");
+
+    assert.deepEqual(await verifyOtp(email, "registration", code), { valid: true });
+  } finally {
+    const otpCode = await storage.getOtpCode(email, "registration");
+    if (otpCode) await storage.deleteOtpCode(otpCode.id);
+  }
+});
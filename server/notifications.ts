@@ -0,0 +1,123 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import nodemailer from "nodemailer";
+
+// Every email the server sends goes through `notifications`. The driver is chosen by
+// NOTIFICATION_DRIVER:
+//   smtp   - real delivery through nodemailer (Gmail by default, or SMTP_HOST/SMTP_PORT)
+//   outbox - each message is written as a JSON file to NOTIFICATION_OUTBOX_DIR (./outbox)
+//   memory - messages are kept in memory so tests can assert against them
+// Without NOTIFICATION_DRIVER, smtp is used when EMAIL_USER is set and outbox otherwise,
+// so local development works without real credentials.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentEmail extends EmailMessage {
+  from: string;
+  sentAt: Date;
+}
+
+export interface NotificationDriver {
+  readonly name: string;
+  send(email: SentEmail): Promise<void>;
+}
+
+export class SmtpDriver implements NotificationDriver {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    const auth = { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASS };
+    this.transporter = process.env.SMTP_HOST
+      ? nodemailer.createTransport({
+          host: process.env.SMTP_HOST,
+          port: parseInt(process.env.SMTP_PORT || "587"),
+          secure: process.env.SMTP_SECURE === "true",
+          auth,
+        })
+      : nodemailer.createTransport({ service: process.env.EMAIL_SERVICE || "gmail", auth });
+  }
+
+  async send(email: SentEmail) {
+    await this.transporter.sendMail({
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    });
+  }
+}
+
+export class OutboxDriver implements NotificationDriver {
+  readonly name = "outbox";
+
+  constructor(private directory: string) {}
+
+  async send(email: SentEmail) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = path.join(
+      this.directory,
+      `${email.sentAt.getTime()}-${crypto.randomBytes(4).toString("hex")}.json`
+    );
+    await fs.writeFile(file, JSON.stringify(email, null, 2));
+    console.log(`Email "${email.subject}" to ${email.to} written to ${file}`);
+  }
+}
+
+export class MemoryDriver implements NotificationDriver {
+  readonly name = "memory";
+  readonly sent: SentEmail[] = [];
+
+  async send(email: SentEmail) {
+    this.sent.push(email);
+  }
+
+  // Messages sent to one address, oldest first
+  sentTo(to: string): SentEmail[] {
+    return this.sent.filter(email => email.to === to);
+  }
+
+  clear() {
+    this.sent.length = 0;
+  }
+}
+
+export function createNotificationDriver(driver = process.env.NOTIFICATION_DRIVER): NotificationDriver {
+  switch (driver || (process.env.EMAIL_USER ? "smtp" : "outbox")) {
+    case "smtp":
+      return new SmtpDriver();
+    case "outbox":
+      return new OutboxDriver(process.env.NOTIFICATION_OUTBOX_DIR || path.resolve("outbox"));
+    case "memory":
+      return new MemoryDriver();
+    default:
+      throw new Error(`Unknown NOTIFICATION_DRIVER "${driver}" (expected smtp, outbox or memory)`);
+  }
+}
+
+export class NotificationService {
+  constructor(
+    readonly driver: NotificationDriver,
+    private from: string,
+  ) {}
+
+  get driverName(): string {
+    return this.driver.name;
+  }
+
+  async sendEmail(message: EmailMessage): Promise<void> {
+    await this.driver.send({ ...message, from: this.from, sentAt: new Date() });
+  }
+}
+
+export const notifications = new NotificationService(
+  createNotificationDriver(),
+  process.env.MAIL_FROM || process.env.EMAIL_USER || "no-reply@localhost"
+);
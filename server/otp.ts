@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { normalizeEmail } from "@shared/schema";
+
+// One-time codes for email verification, kept in the otp_codes table. Each email
+// has at most one active code per purpose, stored only as a hash. Verification
+// attempts are counted before the code is checked, and once they are used up the
+// email is locked out of that purpose for a while. Codes are keyed by the normalised
+// email, so one typed with different capitals or spaces still finds its code.
+
+export type OtpPurpose = "registration" | "password_reset" | "email_change" | "login";
+
+// OTPs expire 3 minutes after they are sent
+export const OTP_TTL_MS = 3 * 60 * 1000;
+export const OTP_RESEND_COOLDOWN_MS = 60 * 1000;
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_LOCKOUT_MS = 15 * 60 * 1000;
+
+export type OtpErrorCode = "OTP_COOLDOWN" | "OTP_LOCKED";
+
+export class OtpError extends Error {
+  constructor(public code: OtpErrorCode, message: string, public retryAfterSeconds: number) {
+    super(message);
+    this.name = "OtpError";
+  }
+}
+
+export type OtpVerification =
+  | { valid: true }
+  | { valid: false; reason: "NOT_FOUND" | "EXPIRED" | "INVALID" | "LOCKED"; attemptsRemaining: number };
+
+function hashCode(email: string, purpose: OtpPurpose, code: string): string {
+  return crypto.createHash("sha256").update(`${purpose}:${email}:${code}`).digest("hex");
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+// Create a new code for the email, replacing any earlier one. The caller sends it.
+export async function issueOtp(email: string, purpose: OtpPurpose, now: Date = new Date()): Promise<string> {
+  email = normalizeEmail(email);
+  const existing = await storage.getOtpCode(email, purpose);
+
+  if (existing?.lockedUntil && existing.lockedUntil > now) {
+    throw new OtpError(
+      "OTP_LOCKED",
+      "Too many incorrect codes. Please try again later.",
+      secondsUntil(existing.lockedUntil, now)
+    );
+  }
+
+  const resendAt = existing ? new Date(existing.sentAt.getTime() + OTP_RESEND_COOLDOWN_MS) : null;
+  if (resendAt && resendAt > now) {
+    throw new OtpError(
+      "OTP_COOLDOWN",
+      "Please wait before requesting another code.",
+      secondsUntil(resendAt, now)
+    );
+  }
+
+  const code = crypto.randomInt(100000, 1000000).toString();
+  await storage.saveOtpCode({
+    email,
+    purpose,
+    codeHash: hashCode(email, purpose, code),
+    sentAt: now,
+    expiresAt: new Date(now.getTime() + OTP_TTL_MS),
+  });
+
+  return code;
+}
+
+// Check a code; a correct code is used up
+export async function verifyOtp(
+  email: string,
+  purpose: OtpPurpose,
+  code: string,
+  now: Date = new Date()
+): Promise<OtpVerification> {
+  email = normalizeEmail(email);
+  const existing = await storage.getOtpCode(email, purpose);
+
+  if (!existing) {
+    return { valid: false, reason: "NOT_FOUND", attemptsRemaining: 0 };
+  }
+  if (existing.lockedUntil && existing.lockedUntil > now) {
+    return { valid: false, reason: "LOCKED", attemptsRemaining: 0 };
+  }
+  if (existing.expiresAt <= now) {
+    return { valid: false, reason: "EXPIRED", attemptsRemaining: 0 };
+  }
+
+  // Claim the attempt first so parallel guesses can't get past the limit
+  const attempt = await storage.claimOtpAttempt(existing.id, OTP_MAX_ATTEMPTS);
+  if (!attempt) {
+    return { valid: false, reason: "LOCKED", attemptsRemaining: 0 };
+  }
+
+  const expected = Buffer.from(attempt.codeHash, "hex");
+  const actual = Buffer.from(hashCode(email, purpose, String(code)), "hex");
+  if (crypto.timingSafeEqual(expected, actual)) {
+    // Only one request can use the code
+    return (await storage.deleteOtpCode(attempt.id))
+      ? { valid: true }
+      : { valid: false, reason: "NOT_FOUND", attemptsRemaining: 0 };
+  }
+
+  const attemptsRemaining = OTP_MAX_ATTEMPTS - attempt.attempts;
+  if (attemptsRemaining <= 0) {
+    await storage.updateOtpCode(attempt.id, { lockedUntil: new Date(now.getTime() + OTP_LOCKOUT_MS) });
+    return { valid: false, reason: "LOCKED", attemptsRemaining: 0 };
+  }
+
+  return { valid: false, reason: "INVALID", attemptsRemaining };
+}
+
+// Drop expired codes that were never verified
+export async function purgeExpiredOtps(now: Date = new Date()): Promise<number> {
+  return await storage.deleteExpiredOtpCodes(now);
+}
@@ -0,0 +1,88 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+
+// Fixed-window rate limiting for the auth and OTP endpoints. Counters live in
+// memory, which is enough for a single server process. Each limiter counts per
+// key: the client IP by default, or something from the request such as the
+// account being signed in to, so an attacker can't spread guesses across IPs.
+
+interface RateLimitOptions {
+  name: string;
+  windowMs: number;
+  max: number;
+  key?: (req: Request) => string | undefined; // Requests without a key aren't limited
+}
+
+interface Counter {
+  count: number;
+  resetAt: number;
+}
+
+const counters = new Map<string, Counter>();
+const SWEEP_INTERVAL_MS = 60 * 1000;
+let nextSweep = 0;
+
+function sweep(now: number) {
+  for (const [key, counter] of Array.from(counters.entries())) {
+    if (counter.resetAt <= now) counters.delete(key);
+  }
+  nextSweep = now + SWEEP_INTERVAL_MS;
+}
+
+export function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+// The email, username or mobile a request is about, normalised so case doesn't give extra tries
+export function bodyField(field: string) {
+  return (req: Request): string | undefined => {
+    const value = req.body?.[field];
+    return typeof value === "string" && value.trim() ? value.trim().toLowerCase() : undefined;
+  };
+}
+
+export function rateLimit(options: RateLimitOptions) {
+  const getKey = options.key || clientIp;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    if (now >= nextSweep) sweep(now);
+
+    const key = getKey(req);
+    if (!key) return next();
+
+    const counterKey = `${options.name}:${key}`;
+    let counter = counters.get(counterKey);
+    if (!counter || counter.resetAt <= now) {
+      counter = { count: 0, resetAt: now + options.windowMs };
+      counters.set(counterKey, counter);
+    }
+    counter.count++;
+
+    if (counter.count <= options.max) return next();
+
+    const retryAfter = Math.ceil((counter.resetAt - now) / 1000);
+
+    // Record the first blocked request of each window
+    if (counter.count === options.max + 1) {
+      try {
+        await storage.createSecurityEvent({
+          type: "rate_limited",
+          userId: req.user?.id ?? null,
+          identifier: options.key ? key : null,
+          ip: clientIp(req),
+          details: `${options.name}: more than ${options.max} requests in ${Math.round(options.windowMs / 60000)} minutes`,
+        });
+      } catch (error) {
+        console.error("Failed to record rate limit event:", error);
+      }
+    }
+
+    res.set("Retry-After", String(retryAfter));
+    res.status(429).json({
+      code: "RATE_LIMITED",
+      message: "Too many attempts. Please wait a few minutes and try again.",
+      retryAfter,
+    });
+  };
+}
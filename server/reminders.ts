@@ -0,0 +1,72 @@
+import { storage } from "./storage";
+import { sendTemplatedEmail } from "./email-templates";
+import type { BookingConfigEntry } from "@shared/booking-rules";
+import type { Appointment } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours before an appointment at which reminders go out, largest first
+export function getReminderLeadTimes(configs: BookingConfigEntry[]): number[] {
+  const config = configs.find(c => c.key === "reminder_lead_times");
+  const hours = (config ? config.value : "24,2")
+    .split(",")
+    .map(value => parseFloat(value.trim()))
+    .filter(value => !isNaN(value) && value > 0);
+
+  return Array.from(new Set(hours)).sort((a, b) => b - a);
+}
+
+function reminderKind(hours: number): string {
+  return `${hours}h`;
+}
+
+// The reminder that is due for an appointment at `now`: the closest lead time that
+// has been reached. Lead times that had already passed when it was booked are skipped.
+function getDueLeadTime(appointment: Appointment, leadTimes: number[], now: Date): number | null {
+  const start = new Date(appointment.date).getTime();
+  const due = leadTimes.filter(hours =>
+    now.getTime() >= start - hours * HOUR_MS &&
+    new Date(appointment.createdAt).getTime() <= start - hours * HOUR_MS
+  );
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+// Send due reminders for confirmed appointments. Each reminder is recorded before it
+// is sent, so it goes out at most once per appointment.
+export async function sendDueReminders(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+  const leadTimes = getReminderLeadTimes(await storage.getBookingConfigurations());
+  if (leadTimes.length === 0) return { sent: 0, failed: 0 };
+
+  const upcoming = (await storage.getAppointmentsByDateRange(now, new Date(now.getTime() + leadTimes[0] * HOUR_MS)))
+    .filter(appointment => appointment.status === "confirmed");
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const appointment of upcoming) {
+    const hours = getDueLeadTime(appointment, leadTimes, now);
+    if (hours === null) continue;
+
+    const user = await storage.getUser(appointment.userId);
+    if (!user?.email || !user.remindersEnabled) continue;
+
+    const kind = reminderKind(hours);
+    if (!(await storage.createAppointmentReminder(appointment.id, kind))) continue;
+
+    try {
+      await sendTemplatedEmail(user.email, "reminder", {
+        name: user.name || 'User',
+        start: new Date(appointment.date),
+        hours
+      }, user.preferredLanguage);
+      sent++;
+    } catch (error) {
+      // Forget the reminder so the next run tries again
+      console.error(`Failed to send ${kind} reminder for appointment ${appointment.id}:`, error);
+      await storage.deleteAppointmentReminder(appointment.id, kind);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
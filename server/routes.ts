@@ -1,201 +1,361 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth, comparePasswords, hashPassword } from "./auth";
-import { storage } from "./storage";
-import { insertAppointmentSchema, insertAvailableSlotSchema, User } from "@shared/schema";
+import { setupAuth, comparePasswords, hashPassword, findUserByIdentifier, completeSignIn } from "./auth";
+import { storage, BookingConflictError } from "./storage";
+import { parseBookingRules, evaluateBooking, evaluateReschedule, getBookingWindow, getWeekRange } from "@shared/booking-rules";
+import { waitingRoom, getWaitingRoomSettings } from "./waiting-room";
+import { isLotteryWeek, runLottery } from "./lottery";
+import { replayLotteryRun } from "@shared/lottery";
+import { updateAppointmentStatusSchema, canTransition, getAllowedTransitions } from "@shared/appointment-status";
+import { insertAppointmentSchema, insertAvailableSlotSchema, lotteryPreferencesSchema, rescheduleAppointmentSchema, cancelAppointmentSchema, notificationPreferencesSchema, resetPasswordSchema, verifyEmailChangeSchema, twoFactorCodeSchema, createUserBlockSchema, normalizeEmail, User } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import nodemailer from "nodemailer";
-import crypto from "crypto";
+import { sendTemplatedEmail, getEmailTemplates, getSampleData, isEmailTemplateName, renderEmail } from "./email-templates";
+import { issueOtp, verifyOtp, OtpError, type OtpVerification } from "./otp";
+import { issueAuthToken, consumeAuthToken, PASSWORD_RESET_TOKEN_TTL_MS, ADMIN_PASSWORD_RESET_TOKEN_TTL_MS, REGISTRATION_TOKEN_TTL_MS } from "./auth-tokens";
+import { scheduler } from "./jobs";
+import { requireAuth, requirePermission, can } from "./authorize";
+import { updateUserRoleSchema, roleLabels, isStaff } from "@shared/permissions";
+import { rateLimit, bodyField } from "./rate-limit";
+import { clearFailedLogins, unlockAccount } from "./account-lockout";
+import { listUserSessions, revokeUserSession, publicSessionId } from "./sessions";
+import { applyAttendancePolicy, getAttendancePolicy } from "./attendance-policy";
+import { blockUser, liftBlock, getBlockedMessage, UserBlockError } from "./user-blocks";
+import { getTwoFactorStatus, verifyTwoFactorCode, regenerateRecoveryCodes, TwoFactorError } from "./two-factor";
+import { strikeKinds, getCountedStrikes, isLateCancellation } from "@shared/attendance-policy";
+import { joinWaitlistSchema, reorderWaitlistSchema, getWaitlistPeriod } from "@shared/waitlist";
+import { joinWaitlist, offerSlot, claimOffer, leaveWaitlist, releaseOffer, WaitlistError } from "./waitlist";
+import { createSlotHoldSchema } from "@shared/slot-holds";
+import { holdSlot, getSlotsHeldForOthers, SlotHoldError } from "./slot-holds";
+import type { Appointment, BookingConfiguration } from "@shared/schema";
+
+// Each email can only be sent a few codes, and each IP can only ask for or check so many
+const otpSendIpLimit = rateLimit({ name: "otp-send-ip", windowMs: 60 * 60 * 1000, max: 20 });
+const otpSendLimits = [
+  otpSendIpLimit,
+  rateLimit({ name: "otp-send-email", windowMs: 60 * 60 * 1000, max: 5, key: bodyField("email") }),
+];
+const otpVerifyLimit = rateLimit({ name: "otp-verify-ip", windowMs: 15 * 60 * 1000, max: 30 });
+const checkLimit = rateLimit({ name: "check", windowMs: 15 * 60 * 1000, max: 20 });
+
+// Let the appointment's owner know it was cancelled; failures are only logged
+async function sendCancellationEmail(appointment: Appointment, cancelledByAdmin: boolean) {
+  try {
+    const user = await storage.getUser(appointment.userId);
+    if (!user?.email) return;
+    
+    await sendTemplatedEmail(user.email, "cancellation", {
+      name: user.name || 'User',
+      start: new Date(appointment.date),
+      cancelledByAdmin
+    }, user.preferredLanguage);
+  } catch (error) {
+    console.error("Failed to send cancellation email:", error);
+  }
+}
+
+// Cancel in place, recording who cancelled, when, why and whether it was late.
+// Returns undefined if the appointment changed status in the meantime.
+async function cancelAppointment(appointment: Appointment, cancelledBy: number, reason: string | null) {
+  const now = new Date();
+  const policy = await getAttendancePolicy();
+  const cancelledAppointment = await storage.updateAppointmentStatus(appointment.id, appointment.status, "cancelled", {
+    cancelledAt: now,
+    cancelledBy,
+    cancellationReason: reason,
+    lateCancellation: isLateCancellation(policy, appointment.date, now),
+  });
+  if (!cancelledAppointment) return undefined;
+  
+  await applyAttendancePolicy(cancelledAppointment, { now });
+  await sendCancellationEmail(cancelledAppointment, cancelledBy !== appointment.userId);
+  await offerSlot(cancelledAppointment.date, now);
+  return cancelledAppointment;
+}
 
-// Middleware to check if user is authenticated
-const isAuthenticated = (req: Request, res: Response, next: Function) => {
-  if (req.isAuthenticated()) {
-    return next();
+// Why the user can't book right now, if they can't: outside the weekly booking window,
+// in a lottery week, or not yet admitted from the waiting room. Staff who manage
+// appointments can book anytime.
+function getBookingWindowRefusal(req: Request, configs: BookingConfiguration[], admissionToken: string | undefined) {
+  if (can(req, "appointments.manage")) return undefined;
+  
+  const bookingWindow = getBookingWindow(parseBookingRules(configs));
+  if (!bookingWindow.isOpen) {
+    return {
+      code: "BOOKING_WINDOW_CLOSED",
+      message: "Booking is only available during the weekly booking window / బుకింగ్ విండో సమయంలో మాత్రమే బుకింగ్ అందుబాటులో ఉంటుంది",
+      opensAt: bookingWindow.opensAt,
+      closesAt: bookingWindow.closesAt,
+    };
   }
-  res.status(401).json({ message: "Unauthorized" });
-};
+  
+  // In lottery weeks slots are allocated by the draw instead
+  if (isLotteryWeek(configs, getWeekRange(bookingWindow.opensAt).start)) {
+    return {
+      code: "LOTTERY_MODE",
+      message: "This week's slots are allocated by lottery. Please submit your preferences instead / ఈ వారం స్లాట్లు లాటరీ ద్వారా కేటాయించబడతాయి. దయచేసి మీ ప్రాధాన్యతలను సమర్పించండి",
+    };
+  }
+  
+  // Users must have been admitted from the waiting room
+  if (!waitingRoom.isAdmitted(req.user!.id, admissionToken, bookingWindow, getWaitingRoomSettings(configs))) {
+    return {
+      code: "ADMISSION_REQUIRED",
+      message: "Please wait for your turn in the waiting room / దయచేసి వెయిటింగ్ రూమ్‌లో మీ వంతు కోసం వేచి ఉండండి",
+    };
+  }
+  return undefined;
+}
 
-// Middleware to check if user is an admin
-const isAdmin = (req: Request, res: Response, next: Function) => {
-  if (req.isAuthenticated() && req.user.isAdmin) {
-    return next();
+// Response for an OTP check; a wrong code still answers 200 so the form can show how many tries are left
+function sendOtpVerification(res: Response, result: OtpVerification) {
+  if (result.valid) {
+    return res.json({ valid: true });
   }
-  res.status(403).json({ message: "Forbidden" });
-};
-
-// OTP Storage (in-memory for simplicity, consider using Redis in production)
-const otpStore: Record<string, { otp: string, createdAt: number }> = {};
-
-// Create a nodemailer transporter
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASS
+  
+  switch (result.reason) {
+    case "NOT_FOUND":
+      return res.status(400).json({ valid: false, message: "No OTP found. Please request a new one." });
+    case "EXPIRED":
+      return res.status(400).json({ valid: false, message: "OTP expired. Please request a new one." });
+    case "LOCKED":
+      return res.status(429).json({ valid: false, message: "Too many incorrect codes. Please try again later." });
+    default:
+      return res.json({
+        valid: false,
+        message: `Invalid OTP. ${result.attemptsRemaining} attempt(s) left.`,
+        attemptsRemaining: result.attemptsRemaining
+      });
   }
-});
+}
+
+function sendOtpError(res: Response, error: OtpError) {
+  res.set("Retry-After", String(error.retryAfterSeconds));
+  return res.status(429).json({ code: error.code, message: error.message, retryAfter: error.retryAfterSeconds });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
 
   // Send OTP for registration
-  app.post("/api/send-otp", async (req, res) => {
+  app.post("/api/send-otp", ...otpSendLimits, async (req, res) => {
     try {
       const { email } = req.body;
+      if (typeof email !== "string" || !email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
       
-      // Check if email already exists
+      // Answer the same way for registered emails so this can't be used to look up accounts;
+      // the owner gets a note pointing them to sign in instead of a code
       const existingUser = await storage.getUserByEmail(email);
       if (existingUser) {
-        return res.status(400).json({ message: "Email already registered" });
+        await sendTemplatedEmail(email, "account-exists", {
+          name: existingUser.name || 'User'
+        }, existingUser.preferredLanguage);
+        return res.json({ message: "OTP sent successfully" });
       }
 
-      // Generate OTP
-      const otp = crypto.randomInt(100000, 999999).toString();
-      
-      // Store OTP with timestamp
-      otpStore[email] = {
-        otp,
-        createdAt: Date.now()
-      };
+      const otp = await issueOtp(email, "registration");
 
       // Send OTP via email
-      await transporter.sendMail({
-        from: 'veldandikethankumar@gmail.com',
-        to: email,
-        subject: 'Your OTP for Registration',
-        text: `Your OTP is ${otp}. It will expire in 3 minutes.`
-      });
+      await sendTemplatedEmail(email, "otp", { code: otp });
 
       res.json({ message: "OTP sent successfully" });
     } catch (error) {
+      if (error instanceof OtpError) {
+        return sendOtpError(res, error);
+      }
       console.error("OTP sending error:", error);
       res.status(500).json({ message: "Failed to send OTP" });
     }
   });
 
   // Verify OTP for registration
-  app.post("/api/verify-otp", async (req, res) => {
+  app.post("/api/verify-otp", otpVerifyLimit, async (req, res) => {
     try {
       const { email, otp } = req.body;
+      if (typeof email !== "string" || typeof otp !== "string") {
+        return res.status(400).json({ valid: false, message: "Email and OTP are required" });
+      }
       
-      const storedOtp = otpStore[email];
-      
-      if (!storedOtp) {
-        return res.status(400).json({ valid: false, message: "No OTP found" });
+      const result = await verifyOtp(email, "registration", otp);
+      if (!result.valid) {
+        return sendOtpVerification(res, result);
       }
+      
+      // /api/register only accepts this email together with this token
+      const verificationToken = await issueAuthToken({ email }, "registration", REGISTRATION_TOKEN_TTL_MS);
+      res.json({ valid: true, verificationToken });
+    } catch (error) {
+      console.error("OTP verification error:", error);
+      res.status(500).json({ valid: false, message: "OTP verification failed" });
+    }
+  });
 
-      // Check OTP expiry (3 minutes)
-      const currentTime = Date.now();
-      if (currentTime - storedOtp.createdAt > 3 * 60 * 1000) {
-        delete otpStore[email];
-        return res.status(400).json({ valid: false, message: "OTP expired" });
+  // Send a sign-in code to the email address of the account with this username, email or mobile.
+  // Every request gets the same answer, so this can't be used to find out who has an account.
+  const loginOtpAccountLimit = rateLimit({ name: "login-otp-send", windowMs: 60 * 60 * 1000, max: 5, key: bodyField("identifier") });
+  app.post("/api/login/send-otp", otpSendIpLimit, loginOtpAccountLimit, async (req, res) => {
+    try {
+      const { identifier } = req.body;
+      if (typeof identifier !== "string" || !identifier.trim()) {
+        return res.status(400).json({ message: "Username, email or mobile number is required" });
       }
-
-      // Verify OTP
-      const valid = storedOtp.otp === otp;
-      if (valid) {
-        delete otpStore[email]; // Clear OTP after successful verification
+      
+      const user = await findUserByIdentifier(identifier);
+      if (user?.email) {
+        const otp = await issueOtp(user.email, "login");
+        await sendTemplatedEmail(user.email, "login-code", {
+          name: user.name || 'User',
+          code: otp
+        }, user.preferredLanguage);
       }
-
-      res.json({ valid });
+      
+      res.json({ message: "If an account with these details exists, a code has been sent to its email address" });
     } catch (error) {
-      console.error("OTP verification error:", error);
+      // A code sent too recently or too many wrong codes only happen for real accounts,
+      // so they get the same answer too; the earlier code is still valid
+      if (error instanceof OtpError) {
+        return res.json({ message: "If an account with these details exists, a code has been sent to its email address" });
+      }
+      console.error("Login OTP sending error:", error);
+      res.status(500).json({ message: "Failed to send OTP" });
+    }
+  });
+  
+  // Sign in with the code instead of a password
+  app.post("/api/login/verify-otp", otpVerifyLimit, async (req, res, next) => {
+    try {
+      const { identifier, otp } = req.body;
+      if (typeof identifier !== "string" || typeof otp !== "string") {
+        return res.status(400).json({ valid: false, message: "Identifier and OTP are required" });
+      }
+      
+      const user = await findUserByIdentifier(identifier);
+      if (!user?.email) {
+        return res.status(400).json({ valid: false, message: "No OTP found. Please request a new one." });
+      }
+      
+      const result = await verifyOtp(user.email, "login", otp);
+      if (!result.valid) {
+        return sendOtpVerification(res, result);
+      }
+      
+      // Receiving the code proves the address, for accounts that never verified it.
+      // It also lifts a password lockout, so the owner isn't kept out by someone guessing.
+      const unlockedUser = await clearFailedLogins(user);
+      const signedInUser = unlockedUser.emailVerifiedAt
+        ? unlockedUser
+        : (await storage.updateUser(user.id, { emailVerifiedAt: new Date() })) ?? unlockedUser;
+      
+      await completeSignIn(req, res, next, signedInUser);
+    } catch (error) {
+      console.error("Login OTP verification error:", error);
       res.status(500).json({ valid: false, message: "OTP verification failed" });
     }
   });
 
   // Send OTP for Forgot Password
-  app.post("/api/send-forgot-password-otp", async (req, res) => {
+  app.post("/api/send-forgot-password-otp", ...otpSendLimits, async (req, res) => {
     try {
       const { email } = req.body;
+      if (typeof email !== "string" || !email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
       
-      // Check if email exists
+      // Unregistered emails get the same answer, so this can't be used to look up accounts
       const existingUser = await storage.getUserByEmail(email);
       if (!existingUser) {
-        return res.status(404).json({ exists: false, message: "Email not registered" });
+        return res.json({ message: "If this email is registered, a code has been sent to it" });
       }
 
-      // Generate OTP
-      const otp = crypto.randomInt(100000, 999999).toString();
-      
-      // Store OTP with timestamp
-      otpStore[email] = {
-        otp,
-        createdAt: Date.now()
-      };
+      const otp = await issueOtp(email, "password_reset");
 
       // Send OTP via email
-      await transporter.sendMail({
-        from: 'veldandikethankumar@gmail.com',
-        to: email,
-        subject: 'Your OTP for Password Reset',
-        text: `Your OTP is ${otp}. It will expire in 3 minutes.`
-      });
+      await sendTemplatedEmail(email, "password-reset", {
+        name: existingUser.name || 'User',
+        code: otp
+      }, existingUser.preferredLanguage);
 
-      res.json({ exists: true, message: "OTP sent successfully" });
+      res.json({ message: "If this email is registered, a code has been sent to it" });
     } catch (error) {
+      if (error instanceof OtpError) {
+        return sendOtpError(res, error);
+      }
       console.error("Forgot Password OTP sending error:", error);
-      res.status(500).json({ exists: false, message: "Failed to send OTP" });
+      res.status(500).json({ message: "Failed to send OTP" });
     }
   });
 
   // Verify OTP for Forgot Password
-  app.post("/api/verify-forgot-password-otp", async (req, res) => {
+  app.post("/api/verify-forgot-password-otp", otpVerifyLimit, async (req, res) => {
     try {
       const { email, otp } = req.body;
-      
-      const storedOtp = otpStore[email];
-      
-      if (!storedOtp) {
-        return res.status(400).json({ valid: false, message: "No OTP found" });
+      if (typeof email !== "string" || typeof otp !== "string") {
+        return res.status(400).json({ valid: false, message: "Email and OTP are required" });
       }
-
-      // Check OTP expiry (3 minutes)
-      const currentTime = Date.now();
-      if (currentTime - storedOtp.createdAt > 3 * 60 * 1000) {
-        delete otpStore[email];
-        return res.status(400).json({ valid: false, message: "OTP expired" });
+      
+      const result = await verifyOtp(email, "password_reset", otp);
+      if (!result.valid) {
+        return sendOtpVerification(res, result);
       }
-
-      // Verify OTP
-      const valid = storedOtp.otp === otp;
-      if (valid) {
-        delete otpStore[email]; // Clear OTP after successful verification
+      
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(400).json({ valid: false, message: "No OTP found. Please request a new one." });
       }
-
-      res.json({ valid });
+      
+      // The reset endpoint only accepts this token, so the OTP can't be skipped
+      const resetToken = await issueAuthToken({ userId: user.id }, "password_reset", PASSWORD_RESET_TOKEN_TTL_MS);
+      res.json({ valid: true, resetToken });
     } catch (error) {
       console.error("Forgot Password OTP verification error:", error);
       res.status(500).json({ valid: false, message: "OTP verification failed" });
     }
   });
 
-  // Update Forgot Password
-  app.post("/api/forgot-password", async (req, res) => {
+  // Reset a forgotten password with the token from verify-forgot-password-otp
+  app.post("/api/reset-password", otpVerifyLimit, async (req, res) => {
     try {
-      const { email, newPassword } = req.body;
+      const { token, newPassword } = resetPasswordSchema.parse(req.body);
       
-      // Find user by email
-      const user = await storage.getUserByEmail(email);
+      const resetToken = await consumeAuthToken(token, "password_reset");
+      if (!resetToken?.userId) {
+        return res.status(400).json({ message: "This reset link has expired or was already used. Please start again." });
+      }
+      
+      const user = await storage.updateUser(resetToken.userId, { password: await hashPassword(newPassword) });
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-
-      // Update password
-      const hashedPassword = await hashPassword(newPassword);
-      await storage.updateUser(user.id, { password: hashedPassword });
+      
+      // Sign out every device that used the old password
+      await storage.destroyUserSessions(user.id);
+      
+      if (user.email) {
+        try {
+          await sendTemplatedEmail(user.email, "password-changed", {
+            name: user.name || 'User',
+            changedAt: new Date()
+          }, user.preferredLanguage);
+        } catch (emailError) {
+          console.error("Failed to send password changed email:", emailError);
+        }
+      }
       
       res.json({ message: "Password updated successfully" });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Password reset error:", error);
       res.status(500).json({ message: "Failed to reset password" });
     }
   });
 
-  // Cancel an appointment
-  app.delete("/api/appointments/:id", isAuthenticated, async (req, res) => {
+  // Cancel an appointment. It is kept as cancelled; only the admin purge deletes it.
+  app.delete("/api/appointments/:id", requireAuth, async (req, res) => {
     try {
       const appointmentId = parseInt(req.params.id);
       const appointment = await storage.getAppointment(appointmentId);
@@ -204,23 +364,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Appointment not found" });
       }
       
-      // Only allow users to cancel their own appointments or admins to cancel any appointment
-      if (appointment.userId !== req.user.id && !req.user.isAdmin) {
+      // Only allow users to cancel their own appointments, or staff who manage appointments to cancel any
+      const canManage = can(req, "appointments.manage");
+      if (appointment.userId !== req.user!.id && !canManage) {
         return res.status(403).json({ message: "You can only cancel your own appointments" });
       }
       
-      // Delete the appointment
-      await storage.deleteAppointment(appointmentId);
+      const { reason } = cancelAppointmentSchema.parse(req.body ?? {});
+      const actor = canManage ? "admin" : "user";
+      
+      if (!canTransition(actor, appointment.status, "cancelled")) {
+        return res.status(400).json({
+          code: "INVALID_STATUS_TRANSITION",
+          message: `An appointment that is ${appointment.status} can't be cancelled`,
+          allowed: getAllowedTransitions(actor, appointment.status),
+        });
+      }
+      
+      // Users can't cancel once the appointment has started
+      if (actor === "user" && new Date(appointment.date) <= new Date()) {
+        return res.status(400).json({ message: "This appointment has already started" });
+      }
+      
+      const cancelledAppointment = await cancelAppointment(appointment, req.user!.id, reason || null);
+      if (!cancelledAppointment) {
+        return res.status(409).json({ message: "The appointment was updated by someone else. Please refresh and try again." });
+      }
       
-      res.json({ message: "Appointment cancelled successfully" });
+      res.json(cancelledAppointment);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error cancelling appointment:", error);
       res.status(500).json({ message: "Failed to cancel appointment" });
     }
   });
 
   // Get current user's appointments
-    app.get("/api/appointments", isAuthenticated, async (req, res) => {
+    app.get("/api/appointments", requireAuth, async (req, res) => {
       try {
         const appointments = await storage.getAppointmentsByUser(req.user.id);
         res.json(appointments);
@@ -230,7 +412,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     // Get all appointments (admin only)
-    app.get("/api/admin/appointments", isAdmin, async (req, res) => {
+    app.get("/api/admin/appointments", requirePermission("appointments.view_all"), async (req, res) => {
       try {
         const appointments = await storage.getAppointments();
         
@@ -253,72 +435,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     
 
-    app.post("/api/check-email", async (req, res) => {
+    // Whether another account already uses this email or mobile, for signed-in users changing
+    // their details. Not available to anonymous visitors, who could use it to find accounts.
+    app.post("/api/check-email", requireAuth, checkLimit, async (req, res) => {
       try {
         const { email } = req.body;
+        if (typeof email !== "string" || !email) {
+          return res.status(400).json({ message: "Email is required" });
+        }
         const user = await storage.getUserByEmail(email);
-        res.json({ exists: !!user });
+        res.json({ exists: !!user && user.id !== req.user!.id });
       } catch (error) {
         console.error("Email check error:", error);
         res.status(500).json({ message: "Error checking email address" });
       }
     });
 
-    app.post("/api/check-mobile", async (req, res) => {
+    app.post("/api/check-mobile", requireAuth, checkLimit, async (req, res) => {
       try {
         const { mobile } = req.body;
+        if (typeof mobile !== "string" || !mobile) {
+          return res.status(400).json({ message: "Mobile number is required" });
+        }
         const user = await storage.getUserByMobile(mobile);
-        res.json({ exists: !!user });
+        res.json({ exists: !!user && user.id !== req.user!.id });
       } catch (error) {
         console.error("Mobile check error:", error);
         res.status(500).json({ message: "Error checking mobile number" });
       }
     });
 
-    app.post("/api/forgot-password", async (req, res) => {
-      try {
-        const { mobile, newPassword } = req.body;
-        
-        // Find user by mobile
-        const user = await storage.getUserByMobile(mobile);
-        if (!user) {
-          return res.status(404).json({ message: "User not found" });
-        }
-    
-        // Update password
-        const hashedPassword = await hashPassword(newPassword);
-        await storage.updateUser(user.id, { password: hashedPassword });
-        
-        res.json({ message: "Password updated successfully" });
-      } catch (error) {
-        console.error("Password reset error:", error);
-        res.status(500).json({ message: "Failed to reset password" });
-      }
-    });
-
-    const morningStart = 9;  // 9 AM
-    const morningEnd = 13;   // 1 PM
-    const afternoonStart = 15; // 3 PM
-    const afternoonEnd = 17;   // 5 PM
-
-    // Create a new appointment
-  // This is the updated code for the appointment creation endpoint in routes.ts
-  // It includes sending email notifications to users after booking
-
   // Create a new appointment
-  app.post("/api/appointments", isAuthenticated, async (req, res) => {
+  app.post("/api/appointments", requireAuth, async (req, res) => {
     try {
       const userId = req.user.id;
       
-      // Add block check here ------------
+      // Blocked users can't book; the message gives the reason for the block
       const user = await storage.getUser(userId);
       if (user?.blockedUntil && new Date(user.blockedUntil) > new Date()) {
-        const blockedDate = new Date(user.blockedUntil).toLocaleDateString();
-        return res.status(403).json({ 
-          message: `Your account is blocked until ${blockedDate}. Please contact support. / మీ ఖాతా ${blockedDate} వరకు నిరోధించబడింది. దయచేసి సపోర్ట్‌ని సంప్రదించండి.`
-        });
+        return res.status(403).json({ code: "USER_BLOCKED", ...await getBlockedMessage(user) });
       }
-      // End of block check --------------
       
       const appointmentData = insertAppointmentSchema.parse({
         ...req.body,
@@ -327,56 +483,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         endTime: new Date(req.body.endTime),
       });
 
-      // No booking window restriction - users can book anytime
-
-      // Check if the user already has an appointment in the same week
-      const appointmentDate = new Date(appointmentData.date);
-      const startOfWeek = new Date(appointmentDate);
-      startOfWeek.setDate(appointmentDate.getDate() - appointmentDate.getDay()); // Sunday
-      startOfWeek.setHours(0, 0, 0, 0);
-      
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6); // Saturday
-      endOfWeek.setHours(23, 59, 59, 999);
-      
-      const existingAppointments = await storage.getAppointmentsByDateRange(startOfWeek, endOfWeek);
-      const userAppointmentsInWeek = existingAppointments.filter(a => a.userId === userId);
-      
-      if (userAppointmentsInWeek.length > 0) {
-        return res.status(400).json({ message: "You can only book one appointment per week" });
-      }
-
-      // Check if the date is a Tuesday or Saturday
-      const day = appointmentDate.getDay();
-      if (day === 2 || day === 6) { // 2 is Tuesday, 6 is Saturday
-        return res.status(400).json({ message: "Appointments are not available on Tuesdays and Saturdays" });
-      }
+      const configs = await storage.getBookingConfigurations();
+      const rules = parseBookingRules(configs);
 
-      // Check if the time is in the allowed slots (9 AM - 1 PM or 3 PM - 5 PM)
-      const appointmentTime = new Date(appointmentData.date);
-      
-      // Make sure the date is valid before extracting hours/minutes
-      if (isNaN(appointmentTime.getTime())) {
-        return res.status(400).json({ message: "Invalid appointment time format" });
+      // Only allow bookings while the weekly booking window is open
+      const refusal = getBookingWindowRefusal(req, configs, req.body.admissionToken);
+      if (refusal) {
+        return res.status(403).json(refusal);
       }
-      
-      const hours = appointmentTime.getHours();
-      const minutes = appointmentTime.getMinutes();
-
-      console.log("Appointment validation:", {
-        appointmentTime: appointmentTime.toISOString(),
-        hours,
-        minutes,
-        morningSlot: `${morningStart}:00 - ${morningEnd}:00`,
-        afternoonSlot: `${afternoonStart}:00 - ${afternoonEnd}:00`
-      });
 
-      const isMorningSlot = (hours >= morningStart && hours < morningEnd) && minutes % 15 === 0;
-      const isAfternoonSlot = (hours >= afternoonStart && hours < afternoonEnd) && minutes % 15 === 0;
-
-      if (!isMorningSlot && !isAfternoonSlot) {
-        return res.status(400).json({ 
-          message: `Appointments are only available from ${morningStart} AM - ${morningEnd > 12 ? (morningEnd-12) + ' PM' : morningEnd + ' AM'} and ${afternoonStart > 12 ? (afternoonStart-12) + ' PM' : afternoonStart + ' AM'} - ${afternoonEnd > 12 ? (afternoonEnd-12) + ' PM' : afternoonEnd + ' AM'} in 15-minute intervals` 
+      // Check the requested slot against the configured booking rules
+      const appointmentDate = new Date(appointmentData.date);
+      const userAppointments = await storage.getAppointmentsByUser(userId);
+      const evaluation = evaluateBooking(rules, appointmentDate, userAppointments);
+
+      if (!evaluation.allowed) {
+        const [violation] = evaluation.violations;
+        return res.status(400).json({
+          code: violation.code,
+          message: violation.message,
+          violations: evaluation.violations,
         });
       }
 
@@ -391,104 +517,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "This slot is not available" });
       }
 
-      // Check if there's already an appointment at this time
-      const existingAppointmentsAtTime = await storage.getAppointmentsByDate(appointmentDate);
-      const hasConflict = existingAppointmentsAtTime.some(a => 
-        a.status !== 'cancelled' && 
-        new Date(a.date).getTime() === appointmentDate.getTime()
-      );
-      
-      if (hasConflict) {
-        return res.status(400).json({ message: "This slot is already booked" });
-      }
-
-      // All checks passed, create the appointment
-      const appointment = await storage.createAppointment(appointmentData);
+      // Claim the slot atomically; a concurrent booking of the same slot or week, or a slot
+      // offered from the waitlist or held by someone else, loses with a 409
+      const appointment = await storage.bookAppointment(appointmentData, rules.weeklyLimit);
       
       // Send confirmation email to the user
       if (user && user.email) {
         try {
-          // Format appointment date and time for email
-          const formattedDate = appointmentDate.toLocaleDateString('en-US', { 
-            weekday: 'long', 
-            year: 'numeric', 
-            month: 'long', 
-            day: 'numeric' 
-          });
-          
-          const formattedStartTime = appointmentDate.toLocaleTimeString('en-US', { 
-            hour: '2-digit', 
-            minute: '2-digit', 
-            hour12: true 
-          });
-          
-          const endTime = new Date(appointmentData.endTime);
-          const formattedEndTime = endTime.toLocaleTimeString('en-US', { 
-            hour: '2-digit', 
-            minute: '2-digit', 
-            hour12: true 
-          });
-
-          // Create email content
-          // Create email content
-          const emailSubject = 'Your Appointment Confirmation';
-          const emailBody = `
-          Dear ${user.name || 'User'},
-
-          Your appointment has been successfully booked.
-
-          Appointment Details:
-          - Date: ${formattedDate}
-          - Time: ${formattedStartTime} - ${formattedEndTime}
-          - Duration: 15 minutes
-
-          Important Rules & Information:
-          1. Time Slots: Appointments are available between 9:00 AM - 1:00 PM and 3:00 PM - 5:00 PM in 15-minute intervals
-          2. Weekly Limit: Only one appointment per week is allowed
-          3. Blocked Days: No appointments available on Tuesdays and Saturdays
-          4. Cancellation Policy: 
-            - If you cancel an appointment, you cannot book another in the same week
-            - Repeated cancellations may lead to account suspension
-
-          Please arrive 5 minutes before your scheduled time. Late arrivals may result in appointment cancellation.
-
-          For any questions or changes, please contact our support team.
-
-          Thank you,
-          The Appointment Team
-
-          --
-          ప్రియమైన ${user.name || 'వినియోగదారు'},
-
-          మీ అపాయింట్‌మెంట్ విజయవంతంగా బుక్ చేయబడింది.
-
-          అపాయింట్‌మెంట్ వివరాలు:
-          - తేదీ: ${formattedDate}
-          - సమయం: ${formattedStartTime} - ${formattedEndTime}
-          - వ్యవధి: 15 నిమిషాలు
-
-          ముఖ్యమైన నియమాలు & సమాచారం:
-          1. సమయ స్లాట్లు: అపాయింట్‌మెంట్లు 9:00 AM - 1:00 PM మరియు 3:00 PM - 5:00 PM మధ్య 15-నిమిష అంతరాల్లో లభ్యం
-          2. వారపు పరిమితి: వారానికి ఒక అపాయింట్‌మెంట్ మాత్రమే బుక్ చేయగలరు
-          3. నిషేధిత రోజులు: మంగళవారాలు మరియు శనివారాలు అపాయింట్‌మెంట్లు లభ్యం కావు
-          4. రద్దు విధానం:
-            - ఒకవేళ మీరు అపాయింట్‌మెంట్ రద్దు చేస్తే, అదే వారంలో మరోదాన్ని బుక్ చేయలేరు
-            - పదేపదే రద్దులు ఖాతా నిలిపివేతకు దారి తీయవచ్చు
-
-          దయచేసి మీ స్కెడ్యూల్ సమయానికి 5 నిమిషాల ముందు వెళ్లండి. ఆలస్యంగా వచ్చినట్లయితే అపాయింట్‌మెంట్ రద్దు కావచ్చు.
-
-          ఏవైనా ప్రశ్నలు లేదా మార్పుల కోసం, దయచేసి మా సపోర్ట్ టీమ్‌ని సంప్రదించండి.
-
-          ధన్యవాదాలు,
-          అపాయింట్‌మెంట్ టీమ్
-          `;
-          // Send the email
-          await transporter.sendMail({
-            from: process.env.EMAIL_USER || 'veldandikethankumar@gmail.com',
-            to: user.email,
-            subject: emailSubject,
-            text: emailBody
-          });
+          await sendTemplatedEmail(user.email, "confirmation", {
+            name: user.name || 'User',
+            start: appointmentDate,
+            end: new Date(appointmentData.endTime)
+          }, user.preferredLanguage);
           
           console.log(`Confirmation email sent to ${user.email}`);
         } catch (emailError) {
@@ -501,6 +541,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       if (error instanceof ZodError) {
         res.status(400).json({ message: fromZodError(error).message });
+      } else if (error instanceof BookingConflictError) {
+        res.status(409).json({ code: error.code, message: error.message });
       } else {
         console.error("Error creating appointment:", error);
         res.status(500).json({ message: "Failed to create appointment" });
@@ -508,7 +550,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   // Get a specific appointment
-  app.get("/api/appointments/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/appointments/:id", requireAuth, async (req, res) => {
     try {
       const appointmentId = parseInt(req.params.id);
       const appointment = await storage.getAppointment(appointmentId);
@@ -517,8 +559,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Appointment not found" });
       }
       
-      // Only the appointment owner or an admin can view it
-      if (appointment.userId !== req.user.id && !req.user.isAdmin) {
+      // Only the appointment owner or staff can view it
+      if (appointment.userId !== req.user!.id && !can(req, "appointments.view_all")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
@@ -528,8 +570,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update an appointment
-  app.put("/api/appointments/:id", isAuthenticated, async (req, res) => {
+  // Move an appointment to another slot, releasing the old slot in the same step
+  app.post("/api/appointments/:id/reschedule", requireAuth, async (req, res) => {
     try {
       const appointmentId = parseInt(req.params.id);
       const appointment = await storage.getAppointment(appointmentId);
@@ -538,46 +580,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Appointment not found" });
       }
       
-      // Only the appointment owner or an admin can update it
-      if (appointment.userId !== req.user.id && !req.user.isAdmin) {
+      // Only the appointment owner or staff who manage appointments can reschedule it
+      const canManage = can(req, "appointments.manage");
+      if (appointment.userId !== req.user!.id && !canManage) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const updatedAppointment = await storage.updateAppointment(appointmentId, req.body);
+      const user = await storage.getUser(appointment.userId);
+      if (!canManage && user?.blockedUntil && new Date(user.blockedUntil) > new Date()) {
+        return res.status(403).json({ code: "USER_BLOCKED", ...await getBlockedMessage(user) });
+      }
+      
+      const { date: newDate } = rescheduleAppointmentSchema.parse(req.body);
+      const rules = parseBookingRules(await storage.getBookingConfigurations());
+      
+      // Same rules as a new booking, plus the reschedule limit and cut-off
+      const userAppointments = await storage.getAppointmentsByUser(appointment.userId);
+      const evaluation = evaluateReschedule(rules, appointment, newDate, userAppointments);
+      
+      if (!evaluation.allowed) {
+        const [violation] = evaluation.violations;
+        return res.status(400).json({
+          code: violation.code,
+          message: violation.message,
+          violations: evaluation.violations,
+        });
+      }
+      
+      const availableSlots = await storage.getAvailableSlotsByDate(newDate);
+      const slotIsAvailable = availableSlots.some(
+        slot => slot.isEnabled && 
+        new Date(slot.date).getTime() === newDate.getTime()
+      );
+      
+      if (!slotIsAvailable) {
+        return res.status(400).json({ message: "This slot is not available" });
+      }
+      
+      const updatedAppointment = await storage.rescheduleAppointment(
+        appointmentId,
+        { date: newDate, endTime: new Date(newDate.getTime() + rules.slotDuration * 60 * 1000) },
+        { weeklyLimit: rules.weeklyLimit, rescheduleLimit: rules.reschedule.limit }
+      );
+      
+      // Reminders for the old time no longer apply
+      await storage.clearAppointmentReminders(appointmentId);
+      await offerSlot(new Date(appointment.date));
+      
+      if (user && user.email) {
+        try {
+          await sendTemplatedEmail(user.email, "reschedule", {
+            name: user.name || 'User',
+            previousStart: new Date(appointment.date),
+            start: newDate
+          }, user.preferredLanguage);
+        } catch (emailError) {
+          console.error("Failed to send reschedule email:", emailError);
+        }
+      }
+      
       res.json(updatedAppointment);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update appointment" });
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: fromZodError(error).message });
+      } else if (error instanceof BookingConflictError) {
+        res.status(409).json({ code: error.code, message: error.message });
+      } else {
+        console.error("Error rescheduling appointment:", error);
+        res.status(500).json({ message: "Failed to reschedule appointment" });
+      }
     }
   });
 
-  app.delete("/api/admin/appointments/:id", isAdmin, async (req, res) => {
+  // Move an appointment along its lifecycle; which transitions are allowed depends on who asks
+  app.patch("/api/appointments/:id/status", requireAuth, async (req, res) => {
     try {
       const appointmentId = parseInt(req.params.id);
-      await storage.deleteAppointment(appointmentId);
-      res.sendStatus(204);
+      const appointment = await storage.getAppointment(appointmentId);
+      
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      
+      // Only the appointment owner or staff who run appointments can update it
+      const canUpdateStatus = can(req, "appointments.update_status");
+      if (appointment.userId !== req.user!.id && !canUpdateStatus) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { status, reason } = updateAppointmentStatusSchema.parse(req.body);
+      const actor = canUpdateStatus ? "admin" : "user";
+      
+      if (!canTransition(actor, appointment.status, status)) {
+        return res.status(400).json({
+          code: "INVALID_STATUS_TRANSITION",
+          message: `An appointment that is ${appointment.status} can't be marked as ${status}`,
+          allowed: getAllowedTransitions(actor, appointment.status),
+        });
+      }
+      
+      // Running appointments doesn't include cancelling other people's
+      if (status === "cancelled" && appointment.userId !== req.user!.id && !can(req, "appointments.manage")) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      // Users can't cancel once the appointment has started
+      if (actor === "user" && new Date(appointment.date) <= new Date()) {
+        return res.status(400).json({ message: "This appointment has already started" });
+      }
+      
+      const updatedAppointment = status === "cancelled"
+        ? await cancelAppointment(appointment, req.user!.id, reason || null)
+        : await storage.updateAppointmentStatus(appointmentId, appointment.status, status);
+      if (!updatedAppointment) {
+        return res.status(409).json({ message: "The appointment was updated by someone else. Please refresh and try again." });
+      }
+      
+      if (status !== "cancelled") {
+        await applyAttendancePolicy(updatedAppointment);
+      }
+      
+      res.json(updatedAppointment);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete appointment" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating appointment status:", error);
+      res.status(500).json({ message: "Failed to update appointment status" });
     }
   });
 
-  // Delete an appointment
-  app.delete("/api/appointments/:id", isAuthenticated, async (req, res) => {
+  // Permanently delete an appointment and its history. Cancelling keeps it; this is for test or mistaken bookings.
+  app.delete("/api/admin/appointments/:id", requirePermission("appointments.purge"), async (req, res) => {
     try {
       const appointmentId = parseInt(req.params.id);
       const appointment = await storage.getAppointment(appointmentId);
-      
-      if (!appointment) {
+      if (!appointment || !(await storage.deleteAppointment(appointmentId))) {
         return res.status(404).json({ message: "Appointment not found" });
       }
-      
-      // Only the appointment owner or an admin can delete it
-      if (appointment.userId !== req.user.id && !req.user.isAdmin) {
-        return res.status(403).json({ message: "Forbidden" });
+      if (appointment.status === "confirmed") {
+        await offerSlot(appointment.date);
       }
-      
-      await storage.deleteAppointment(appointmentId);
       res.sendStatus(204);
     } catch (error) {
+      console.error("Error purging appointment:", error);
       res.status(500).json({ message: "Failed to delete appointment" });
     }
   });
@@ -587,15 +733,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const date = req.query.date ? new Date(req.query.date as string) : new Date();
       const availableSlots = await storage.getAvailableSlotsByDate(date);
-      res.json(availableSlots);
+      
+      // Slots held for someone else, from the waitlist or while they book, show as booked
+      const heldTimes = await getSlotsHeldForOthers(req.user?.id);
+      res.json(availableSlots.map(slot =>
+        heldTimes.has(new Date(slot.date).getTime()) ? { ...slot, isBooked: true, status: 'booked' } : slot
+      ));
     } catch (error) {
       console.error("Error fetching available slots:", error);
       res.status(500).json({ message: "Failed to fetch available slots" });
     }
   });
 
+  // Hold a slot for the user while they confirm the booking
+  app.post("/api/slot-holds", requireAuth, async (req, res) => {
+    try {
+      const { date, admissionToken } = createSlotHoldSchema.parse(req.body);
+      
+      const user = await storage.getUser(req.user!.id);
+      if (user?.blockedUntil && new Date(user.blockedUntil) > new Date()) {
+        return res.status(403).json({ code: "USER_BLOCKED", ...await getBlockedMessage(user) });
+      }
+      
+      const refusal = getBookingWindowRefusal(req, await storage.getBookingConfigurations(), admissionToken);
+      if (refusal) {
+        return res.status(403).json(refusal);
+      }
+      
+      const hold = await holdSlot(req.user!.id, date);
+      res.status(201).json(hold);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof SlotHoldError) {
+        return res.status(409).json({ code: error.code, message: error.message });
+      }
+      console.error("Error holding slot:", error);
+      res.status(500).json({ message: "Failed to hold slot" });
+    }
+  });
+
+  // Let the slot go, e.g. when the user picks another time or leaves the page
+  app.delete("/api/slot-holds/:id", requireAuth, async (req, res) => {
+    try {
+      const hold = await storage.getSlotHold(parseInt(req.params.id));
+      if (!hold || hold.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Slot hold not found" });
+      }
+      
+      await storage.deleteSlotHold(hold.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error releasing slot hold:", error);
+      res.status(500).json({ message: "Failed to release slot hold" });
+    }
+  });
+
   // Create available slots (admin only)
-  app.post("/api/available-slots", isAdmin, async (req, res) => {
+  app.post("/api/available-slots", requirePermission("slots.manage"), async (req, res) => {
     try {
       const slotData = insertAvailableSlotSchema.parse({
         ...req.body,
@@ -613,7 +809,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update an available slot (admin only)
-  app.put("/api/available-slots/:id", isAdmin, async (req, res) => {
+  app.put("/api/available-slots/:id", requirePermission("slots.manage"), async (req, res) => {
     try {
       const slotId = parseInt(req.params.id);
       const slot = await storage.updateAvailableSlot(slotId, req.body);
@@ -629,7 +825,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete an available slot (admin only)
-  app.delete("/api/available-slots/:id", isAdmin, async (req, res) => {
+  app.delete("/api/available-slots/:id", requirePermission("slots.manage"), async (req, res) => {
     try {
       const slotId = parseInt(req.params.id);
       const success = await storage.deleteAvailableSlot(slotId);
@@ -671,26 +867,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(userWithoutPassword);
   });
 
-  // Block user endpoint
-  app.patch("/api/users/:id/block", isAdmin, async (req, res) => {
-    try {
-      const userId = parseInt(req.params.id);
-      const { blockedUntil } = req.body;
-      
-      const updatedUser = await storage.updateUser(userId, { 
-        blockedUntil: new Date(blockedUntil)
-      });
-      
-      res.json(updatedUser);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to block user" });
-    }
-  });
-  
   // Update user profile
-  app.patch("/api/user", isAuthenticated, async (req, res) => {
+  app.patch("/api/user", requireAuth, async (req, res) => {
     try {
-      const { name, phone } = req.body;
+      const { name, email, phone } = req.body;
+      
+      // Email addresses are only changed through the verification flow below
+      if (email && email !== req.user!.email) {
+        return res.status(400).json({
+          code: "EMAIL_VERIFICATION_REQUIRED",
+          message: "Please verify your new email address to change it"
+        });
+      }
       
       // Update user profile (mobile field in database maps to phone in UI)
       const updatedUser = await storage.updateUser(req.user!.id, { 
@@ -712,43 +900,233 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Update user password
-  app.patch("/api/user/password", isAuthenticated, async (req, res) => {
+  // Send a code to confirm a new email address (or the current one, if it was never verified)
+  app.post("/api/user/email/send-otp", requireAuth, async (req, res) => {
     try {
-      const { currentPassword, newPassword } = req.body;
-      
-      // Verify current password
-      const user = await storage.getUser(req.user!.id);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const { email } = req.body;
+      if (typeof email !== "string" || !email) {
+        return res.status(400).json({ message: "Email is required" });
       }
       
-      const isPasswordValid = await comparePasswords(currentPassword, user.password);
-      
-      if (!isPasswordValid) {
-        return res.status(400).json({ message: "Current password is incorrect" });
+      if (normalizeEmail(email) === req.user!.email && req.user!.emailVerifiedAt) {
+        return res.status(400).json({ message: "This email address is already verified" });
       }
       
-      // Hash new password and update
-      const hashedPassword = await hashPassword(newPassword);
-      const updatedUser = await storage.updateUser(req.user!.id, { password: hashedPassword });
-      
-      if (!updatedUser) {
-        return res.status(404).json({ message: "User not found" });
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser && existingUser.id !== req.user!.id) {
+        return res.status(400).json({ message: "Email already registered" });
       }
       
-      res.json({ message: "Password updated successfully" });
+      const otp = await issueOtp(email, "email_change");
+      await sendTemplatedEmail(email, "email-verification", {
+        name: req.user!.name || 'User',
+        code: otp
+      }, req.user!.preferredLanguage);
+      
+      res.json({ message: "OTP sent successfully" });
     } catch (error) {
-      console.error("Error updating password:", error);
-      res.status(500).json({ message: "Failed to update password" });
+      if (error instanceof OtpError) {
+        return sendOtpError(res, error);
+      }
+      console.error("Email verification OTP sending error:", error);
+      res.status(500).json({ message: "Failed to send OTP" });
     }
   });
   
-  // Delete user account
-  app.delete("/api/user", isAuthenticated, async (req, res) => {
+  // Confirm the code and switch the account to the verified email address
+  app.post("/api/user/email/verify", requireAuth, async (req, res) => {
     try {
-      const result = await storage.deleteUser(req.user!.id);
+      const { email, otp } = verifyEmailChangeSchema.parse(req.body);
+      
+      const result = await verifyOtp(email, "email_change", otp);
+      if (!result.valid) {
+        return sendOtpVerification(res, result);
+      }
+      
+      // Someone else may have registered it since the code was sent
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser && existingUser.id !== req.user!.id) {
+        return res.status(400).json({ valid: false, message: "Email already registered" });
+      }
+      
+      const updatedUser = await storage.updateUser(req.user!.id, { email, emailVerifiedAt: new Date() });
+      if (!updatedUser) {
+        return res.status(404).json({ valid: false, message: "User not found" });
+      }
+      
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json({ valid: true, user: userWithoutPassword });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ valid: false, message: fromZodError(error).message });
+      }
+      console.error("Email verification error:", error);
+      res.status(500).json({ valid: false, message: "Email verification failed" });
+    }
+  });
+  
+  // The attendance policy, the user's no-shows and late cancellations, and any block they are under
+  app.get("/api/user/attendance", requireAuth, async (req, res) => {
+    try {
+      const now = new Date();
+      const policy = await getAttendancePolicy();
+      const strikes = await storage.getStrikesByUser(req.user!.id);
+      const countedIds = new Set(
+        strikeKinds.flatMap((kind) => getCountedStrikes(policy, strikes, kind, now)).map((strike) => strike.id)
+      );
+      const block = await storage.getActiveUserBlock(req.user!.id, now);
+      
+      res.json({
+        policy,
+        strikes: strikes.map((strike) => ({ ...strike, counted: countedIds.has(strike.id) })),
+        block: block ? { reason: block.reason, endsAt: block.endsAt, automatic: block.createdBy === null } : null,
+      });
+    } catch (error) {
+      console.error("Error fetching attendance:", error);
+      res.status(500).json({ message: "Failed to fetch attendance" });
+    }
+  });
+  
+  // Devices the user is signed in on
+  app.get("/api/user/sessions", requireAuth, async (req, res) => {
+    try {
+      res.json(await listUserSessions(req.user!.id, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+  
+  // Sign out one device
+  app.delete("/api/user/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      // The current session is ended through express-session so it isn't saved again after this request
+      if (req.params.id === publicSessionId(req.sessionID)) {
+        return req.session.destroy((err) => {
+          if (err) {
+            console.error("Error ending current session:", err);
+            return res.status(500).json({ message: "Failed to sign out session" });
+          }
+          res.json({ message: "Signed out", signedOut: true });
+        });
+      }
+      
+      if (!(await revokeUserSession(req.user!.id, req.params.id))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json({ message: "Signed out", signedOut: false });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+  
+  // Sign out every device, including this one
+  app.post("/api/user/sessions/logout-all", requireAuth, async (req, res) => {
+    try {
+      const count = await storage.destroyUserSessions(req.user!.id);
+      req.session.destroy((err) => {
+        if (err) {
+          console.error("Error ending current session:", err);
+        }
+        res.json({ message: `Signed out of ${count} session(s)` });
+      });
+    } catch (error) {
+      console.error("Error signing out everywhere:", error);
+      res.status(500).json({ message: "Failed to sign out everywhere" });
+    }
+  });
+  
+  // Whether two-factor sign-in is on and how many recovery codes are left
+  app.get("/api/user/2fa", requireAuth, async (req, res) => {
+    try {
+      res.json(await getTwoFactorStatus(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+  
+  // New recovery codes, confirmed with a current authenticator code; the old ones stop working
+  app.post("/api/user/2fa/recovery-codes", requireAuth, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      // Checked before verifying so a recovery code typed here isn't used up
+      if (!/^\d{6}$/.test(code) || (await verifyTwoFactorCode(req.user!.id, code)) !== "totp") {
+        return res.status(400).json({ message: "Invalid code. Please enter the code from your authenticator app." });
+      }
+      
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!.id) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof TwoFactorError) {
+        return res.status(409).json({ code: error.code, message: error.message });
+      }
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to generate recovery codes" });
+    }
+  });
+  
+  // Update the user's reminder and email language preferences
+  app.patch("/api/user/notifications", requireAuth, async (req, res) => {
+    try {
+      const preferences = notificationPreferencesSchema.parse(req.body);
+      const updatedUser = await storage.updateUser(req.user!.id, preferences);
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+  
+  // Update user password
+  app.patch("/api/user/password", requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      
+      // Verify current password
+      const user = await storage.getUser(req.user!.id);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const isPasswordValid = await comparePasswords(currentPassword, user.password);
+      
+      if (!isPasswordValid) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+      
+      // Hash new password and update
+      const hashedPassword = await hashPassword(newPassword);
+      const updatedUser = await storage.updateUser(req.user!.id, { password: hashedPassword });
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json({ message: "Password updated successfully" });
+    } catch (error) {
+      console.error("Error updating password:", error);
+      res.status(500).json({ message: "Failed to update password" });
+    }
+  });
+  
+  // Delete user account
+  app.delete("/api/user", requireAuth, async (req, res) => {
+    try {
+      const result = await storage.deleteUser(req.user!.id);
       
       if (!result) {
         return res.status(404).json({ message: "User not found" });
@@ -784,8 +1162,677 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the current state of the weekly booking window
+  app.get("/api/booking-window", async (req, res) => {
+    try {
+      res.set('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+
+      const rules = parseBookingRules(await storage.getBookingConfigurations());
+      res.json({ ...getBookingWindow(rules), serverTime: new Date() });
+    } catch (error) {
+      console.error("Error fetching booking window:", error);
+      res.status(500).json({ message: "Failed to fetch booking window" });
+    }
+  });
+
+  // Join the waiting room for the current or upcoming booking window
+  app.post("/api/waiting-room", requireAuth, async (req, res) => {
+    try {
+      const configs = await storage.getBookingConfigurations();
+      const bookingWindow = getBookingWindow(parseBookingRules(configs));
+      res.json(waitingRoom.join(req.user!.id, bookingWindow, getWaitingRoomSettings(configs)));
+    } catch (error) {
+      console.error("Error joining waiting room:", error);
+      res.status(500).json({ message: "Failed to join waiting room" });
+    }
+  });
+
+  // Get the current user's place in the waiting room
+  app.get("/api/waiting-room", requireAuth, async (req, res) => {
+    try {
+      res.set('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+
+      const configs = await storage.getBookingConfigurations();
+      const bookingWindow = getBookingWindow(parseBookingRules(configs));
+      res.json(waitingRoom.status(req.user!.id, bookingWindow, getWaitingRoomSettings(configs)));
+    } catch (error) {
+      console.error("Error fetching waiting room status:", error);
+      res.status(500).json({ message: "Failed to fetch waiting room status" });
+    }
+  });
+
+  // Waiting room queue length and admission rate (admin only)
+  app.get("/api/admin/waiting-room", requirePermission("appointments.view_all"), async (req, res) => {
+    try {
+      const configs = await storage.getBookingConfigurations();
+      const bookingWindow = getBookingWindow(parseBookingRules(configs));
+      res.json(waitingRoom.stats(bookingWindow, getWaitingRoomSettings(configs)));
+    } catch (error) {
+      console.error("Error fetching waiting room stats:", error);
+      res.status(500).json({ message: "Failed to fetch waiting room stats" });
+    }
+  });
+
+  // Lottery mode for the current or upcoming booking window, with the user's preferences and result
+  app.get("/api/lottery", requireAuth, async (req, res) => {
+    try {
+      res.set('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+
+      const configs = await storage.getBookingConfigurations();
+      const bookingWindow = getBookingWindow(parseBookingRules(configs));
+      const weekStart = getWeekRange(bookingWindow.opensAt).start;
+
+      // Show the result of the week that just closed until the next window opens
+      const lastWeekStart = new Date(weekStart);
+      lastWeekStart.setDate(lastWeekStart.getDate() - 7);
+      const lastRun = await storage.getLotteryRunByWeek(lastWeekStart);
+      const lastAllocation = lastRun?.allocations.find(allocation => allocation.userId === req.user!.id);
+
+      const preferences = await storage.getLotteryPreferencesByUser(req.user!.id, weekStart);
+      const slots = await storage.getAvailableSlots();
+      const slotDates = new Map(slots.map(slot => [slot.id, slot.date]));
+
+      res.json({
+        isLottery: isLotteryWeek(configs, weekStart),
+        weekStart,
+        isOpen: bookingWindow.isOpen,
+        opensAt: bookingWindow.opensAt,
+        closesAt: bookingWindow.closesAt,
+        preferences: preferences.map(p => ({ rank: p.rank, slotId: p.slotId, date: slotDates.get(p.slotId) })),
+        lastResult: lastAllocation ? {
+          weekStart: lastWeekStart,
+          allocated: lastAllocation.slotId !== null && !!lastAllocation.appointmentId,
+          date: lastAllocation.slotId !== null ? slotDates.get(lastAllocation.slotId) : null,
+        } : null,
+      });
+    } catch (error) {
+      console.error("Error fetching lottery status:", error);
+      res.status(500).json({ message: "Failed to fetch lottery status" });
+    }
+  });
+
+  // Submit ranked slot preferences for this week's lottery (replaces any earlier submission)
+  app.put("/api/lottery/preferences", requireAuth, async (req, res) => {
+    try {
+      const { slots: requestedDates } = lotteryPreferencesSchema.parse(req.body);
+
+      const configs = await storage.getBookingConfigurations();
+      const rules = parseBookingRules(configs);
+      const bookingWindow = getBookingWindow(rules);
+      const week = getWeekRange(bookingWindow.opensAt);
+
+      if (!isLotteryWeek(configs, week.start)) {
+        return res.status(400).json({ message: "This week is not in lottery mode / ఈ వారం లాటరీ మోడ్‌లో లేదు" });
+      }
+
+      if (!bookingWindow.isOpen) {
+        return res.status(403).json({
+          code: "BOOKING_WINDOW_CLOSED",
+          message: "Preferences can only be submitted during the weekly booking window / వారపు బుకింగ్ విండో సమయంలో మాత్రమే ప్రాధాన్యతలను సమర్పించవచ్చు",
+          opensAt: bookingWindow.opensAt,
+          closesAt: bookingWindow.closesAt,
+        });
+      }
+
+      const weekSlots = await storage.getAvailableSlotsByDateRange(week.start, week.end);
+      const booked = (await storage.getAppointmentsByDateRange(week.start, week.end))
+        .filter(appointment => appointment.status !== "cancelled");
+      const bookedTimes = new Set(booked.map(appointment => new Date(appointment.date).getTime()));
+      const userAppointments = await storage.getAppointmentsByUser(req.user!.id);
+
+      const slotIds: number[] = [];
+      for (const date of requestedDates) {
+        const slot = weekSlots.find(s => new Date(s.date).getTime() === date.getTime());
+        if (!slot || !slot.isEnabled || bookedTimes.has(date.getTime())) {
+          return res.status(400).json({ message: `The slot on ${date.toLocaleString()} is not available / ఈ స్లాట్ అందుబాటులో లేదు` });
+        }
+
+        const evaluation = evaluateBooking(rules, date, userAppointments);
+        if (!evaluation.allowed) {
+          const [violation] = evaluation.violations;
+          return res.status(400).json({ code: violation.code, message: violation.message, violations: evaluation.violations });
+        }
+
+        if (!slotIds.includes(slot.id)) {
+          slotIds.push(slot.id);
+        }
+      }
+
+      await storage.setLotteryPreferences(req.user!.id, week.start, slotIds);
+      res.json({ success: true, count: slotIds.length });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error saving lottery preferences:", error);
+      res.status(500).json({ message: "Failed to save lottery preferences" });
+    }
+  });
+
+  // Past lottery draws (admin only)
+  app.get("/api/admin/lottery/runs", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      res.json(await storage.getLotteryRuns());
+    } catch (error) {
+      console.error("Error fetching lottery runs:", error);
+      res.status(500).json({ message: "Failed to fetch lottery runs" });
+    }
+  });
+
+  // Draw the lottery for the current lottery week now, optionally with a given seed (admin only)
+  app.post("/api/admin/lottery/run", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const configs = await storage.getBookingConfigurations();
+      const bookingWindow = getBookingWindow(parseBookingRules(configs));
+
+      // The week of the open window, otherwise the current week (whose window has usually just closed)
+      const weekStart = getWeekRange(bookingWindow.isOpen ? bookingWindow.opensAt : new Date()).start;
+
+      if (!isLotteryWeek(configs, weekStart)) {
+        return res.status(400).json({ message: "This week is not in lottery mode" });
+      }
+
+      if (await storage.getLotteryRunByWeek(weekStart)) {
+        return res.status(409).json({ message: "The lottery for this week has already been drawn" });
+      }
+
+      const seed = typeof req.body?.seed === "string" && req.body.seed.trim() ? req.body.seed.trim() : undefined;
+      res.json(await runLottery(weekStart, { seed, runBy: req.user!.id }));
+    } catch (error) {
+      console.error("Error running lottery:", error);
+      res.status(500).json({ message: "Failed to run lottery" });
+    }
+  });
+
+  // Replay a stored draw from its seed and preferences to check the result (admin only)
+  app.post("/api/admin/lottery/runs/:id/verify", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const run = await storage.getLotteryRun(parseInt(req.params.id));
+      if (!run) {
+        return res.status(404).json({ message: "Lottery run not found" });
+      }
+
+      res.json(replayLotteryRun(run));
+    } catch (error) {
+      console.error("Error verifying lottery run:", error);
+      res.status(500).json({ message: "Failed to verify lottery run" });
+    }
+  });
+
+  // The user's waitlist entries for this week onwards, including any slot being offered to them
+  app.get("/api/waitlist", requireAuth, async (req, res) => {
+    try {
+      res.set('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+      res.json(await storage.getWaitlistEntriesByUser(req.user!.id, getWeekRange(new Date()).start));
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  // Join the waitlist for a fully booked day or week
+  app.post("/api/waitlist", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.blockedUntil && new Date(user.blockedUntil) > new Date()) {
+        return res.status(403).json({ code: "USER_BLOCKED", ...await getBlockedMessage(user) });
+      }
+      
+      const { scope, date } = joinWaitlistSchema.parse(req.body);
+      res.status(201).json(await joinWaitlist(user, scope, date));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof WaitlistError) {
+        return res.status(error.code === "ALREADY_WAITING" ? 409 : 400).json({ code: error.code, message: error.message });
+      }
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  // Book the slot being offered for a waitlist entry
+  app.post("/api/waitlist/:id/claim", requireAuth, async (req, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(parseInt(req.params.id));
+      if (!entry || entry.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      
+      const user = await storage.getUser(entry.userId);
+      if (user?.blockedUntil && new Date(user.blockedUntil) > new Date()) {
+        return res.status(403).json({ code: "USER_BLOCKED", ...await getBlockedMessage(user) });
+      }
+      
+      if (entry.offeredSlot) {
+        const rules = parseBookingRules(await storage.getBookingConfigurations());
+        const evaluation = evaluateBooking(rules, entry.offeredSlot, await storage.getAppointmentsByUser(entry.userId));
+        if (!evaluation.allowed) {
+          const [violation] = evaluation.violations;
+          return res.status(400).json({ code: violation.code, message: violation.message, violations: evaluation.violations });
+        }
+      }
+      
+      res.status(201).json(await claimOffer(entry));
+    } catch (error) {
+      if (error instanceof WaitlistError) {
+        return res.status(409).json({ code: error.code, message: error.message });
+      }
+      if (error instanceof BookingConflictError) {
+        return res.status(409).json({ code: error.code, message: error.message });
+      }
+      console.error("Error claiming waitlist offer:", error);
+      res.status(500).json({ message: "Failed to book the offered slot" });
+    }
+  });
+
+  // Turn down an offered slot; the entry leaves the waitlist and the slot is offered on
+  app.post("/api/waitlist/:id/decline", requireAuth, async (req, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(parseInt(req.params.id));
+      if (!entry || entry.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      
+      if (!(await releaseOffer(entry, "declined"))) {
+        return res.status(409).json({ code: "NOT_OFFERED", message: "No slot is being offered for this waitlist entry" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error declining waitlist offer:", error);
+      res.status(500).json({ message: "Failed to decline the offer" });
+    }
+  });
+
+  app.delete("/api/waitlist/:id", requireAuth, async (req, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(parseInt(req.params.id));
+      if (!entry || entry.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      
+      await leaveWaitlist(entry);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  // Everyone waiting for a day, including week entries covering it, in the order slots are offered
+  app.get("/api/admin/waitlist", requirePermission("appointments.view_all"), async (req, res) => {
+    try {
+      const date = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      
+      const entries = await storage.getOpenWaitlistEntries(getWaitlistPeriod("day", date).start, getWeekRange(date).start);
+      const withUsers = await Promise.all(entries.map(async (entry) => {
+        const user = await storage.getUser(entry.userId);
+        return {
+          ...entry,
+          user: user ? { id: user.id, name: user.name, email: user.email, mobile: user.mobile } : null,
+        };
+      }));
+      res.json(withUsers);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  // Put a day's waitlist in a new order
+  app.put("/api/admin/waitlist/order", requirePermission("appointments.manage"), async (req, res) => {
+    try {
+      const { entryIds } = reorderWaitlistSchema.parse(req.body);
+      if (!(await storage.reorderWaitlistEntries(entryIds))) {
+        return res.status(409).json({ message: "The waitlist has changed. Please refresh and try again." });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error reordering waitlist:", error);
+      res.status(500).json({ message: "Failed to reorder waitlist" });
+    }
+  });
+
+  app.delete("/api/admin/waitlist/:id", requirePermission("appointments.manage"), async (req, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      
+      await leaveWaitlist(entry);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error removing waitlist entry:", error);
+      res.status(500).json({ message: "Failed to remove waitlist entry" });
+    }
+  });
+
+  // Background jobs with their latest run, plus recent runs (admin only)
+  app.get("/api/admin/jobs", requirePermission("system.view"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      
+      const jobs = await Promise.all(scheduler.getJobs().map(async (job) => ({
+        name: job.name,
+        description: job.description,
+        intervalMinutes: job.intervalMinutes,
+        lastRun: (await storage.getLatestJobRun(job.name)) ?? null,
+      })));
+      const runs = await storage.getJobRuns({ status, limit: 100 });
+      
+      res.json({ jobs, runs });
+    } catch (error) {
+      console.error("Error fetching job runs:", error);
+      res.status(500).json({ message: "Failed to fetch job runs" });
+    }
+  });
+  
+  // Account lockouts and rate-limited requests, newest first (admin only)
+  app.get("/api/admin/security-events", requirePermission("security.manage"), async (req, res) => {
+    try {
+      const type = typeof req.query.type === "string" ? req.query.type : undefined;
+      const events = await storage.getSecurityEvents({ type, limit: 200 });
+      
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching security events:", error);
+      res.status(500).json({ message: "Failed to fetch security events" });
+    }
+  });
+  
+  // Users matching a search on name, username, email or mobile, newest first, a page at a time
+  app.get("/api/admin/users", requirePermission("users.view"), async (req, res) => {
+    try {
+      const search = typeof req.query.search === "string" ? req.query.search.trim() : "";
+      const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+      const pageSize = Math.min(100, Math.max(1, parseInt(String(req.query.pageSize)) || 20));
+      
+      const { users, total } = await storage.searchUsers({
+        search: search || undefined,
+        offset: (page - 1) * pageSize,
+        limit: pageSize,
+      });
+      
+      res.json({
+        users: users.map(({ password, ...userWithoutPassword }) => userWithoutPassword),
+        total,
+        page,
+        pageSize,
+      });
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+  
+  // A user with their appointments, how many they cancelled and their blocks
+  app.get("/api/admin/users/:id", requirePermission("users.view"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const appointments = (await storage.getAppointmentsByUser(userId))
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      const blocks = await storage.getUserBlocks(userId);
+      
+      // Names of the staff who created and lifted the blocks
+      const staffIds = new Set(blocks.flatMap((block) => [block.createdBy, block.liftedBy]).filter((id): id is number => id !== null));
+      const staffNames = new Map<number, string>();
+      for (const staffId of Array.from(staffIds)) {
+        const staff = await storage.getUser(staffId);
+        if (staff) staffNames.set(staffId, staff.name);
+      }
+      const blockHistory = blocks.map((block) => ({
+        ...block,
+        createdByName: block.createdBy !== null ? staffNames.get(block.createdBy) ?? null : null,
+        liftedByName: block.liftedBy !== null ? staffNames.get(block.liftedBy) ?? null : null,
+      }));
+      
+      const { password, ...userWithoutPassword } = user;
+      res.json({
+        user: userWithoutPassword,
+        appointments,
+        cancellationCount: appointments.filter((appointment) => appointment.status === "cancelled").length,
+        blockHistory,
+      });
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+  
+  // Block a user from booking until a date, with a reason they are told about
+  app.post("/api/admin/users/:id/blocks", requirePermission("users.block"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { reason, endsAt } = createUserBlockSchema.parse(req.body);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You can't block yourself" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const block = await blockUser(user, { reason, endsAt }, req.user!.id);
+      res.status(201).json(block);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof UserBlockError) {
+        return res.status(error.code === "ALREADY_BLOCKED" ? 409 : 400).json({ code: error.code, message: error.message });
+      }
+      console.error("Error blocking user:", error);
+      res.status(500).json({ message: "Failed to block user" });
+    }
+  });
+  
+  // End a block early
+  app.post("/api/admin/blocks/:id/lift", requirePermission("users.block"), async (req, res) => {
+    try {
+      const block = await storage.getUserBlock(parseInt(req.params.id));
+      if (!block) {
+        return res.status(404).json({ message: "Block not found" });
+      }
+      
+      res.json(await liftBlock(block, req.user!.id));
+    } catch (error) {
+      if (error instanceof UserBlockError) {
+        return res.status(409).json({ code: error.code, message: error.message });
+      }
+      console.error("Error lifting block:", error);
+      res.status(500).json({ message: "Failed to lift block" });
+    }
+  });
+  
+  // Email the user a link to choose a new password. Their current password keeps working until they do.
+  app.post("/api/admin/users/:id/reset-password", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!user.email) {
+        return res.status(400).json({ message: "This user has no email address to send a reset link to" });
+      }
+      
+      const token = await issueAuthToken({ userId }, "password_reset", ADMIN_PASSWORD_RESET_TOKEN_TTL_MS);
+      const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+      await sendTemplatedEmail(user.email, "password-reset-link", {
+        name: user.name || 'User',
+        url: `${baseUrl}/auth?reset=${token}`,
+        hours: ADMIN_PASSWORD_RESET_TOKEN_TTL_MS / (60 * 60 * 1000),
+      }, user.preferredLanguage);
+      
+      res.json({ message: `A password reset link was sent to ${user.email}` });
+    } catch (error) {
+      console.error("Error sending password reset link:", error);
+      res.status(500).json({ message: "Failed to send password reset link" });
+    }
+  });
+  
+  // Delete an account. Only owners can delete staff accounts, and nobody can delete their own.
+  app.delete("/api/admin/users/:id", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You can't delete your own account here" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (isStaff(user) && !can(req, "users.manage_roles")) {
+        return res.status(403).json({ message: "Only an owner can delete staff accounts" });
+      }
+      
+      try {
+        await storage.deleteUser(userId);
+      } catch (error) {
+        // Appointments and lottery entries still refer to the user
+        if ((error as { code?: string }).code === "23503") {
+          return res.status(409).json({
+            message: "This user has appointments on record and can't be deleted. Block the account instead."
+          });
+        }
+        throw error;
+      }
+      await storage.destroyUserSessions(userId);
+      await storage.createSecurityEvent({
+        type: "user_deleted",
+        userId: null,
+        identifier: user.username,
+        ip: null,
+        details: `${user.name} (#${user.id}), deleted by admin #${req.user!.id}`,
+      });
+      
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+  
+  // Sign a user out on every device
+  app.post("/api/admin/users/:id/logout", requirePermission("security.manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const count = await storage.destroyUserSessions(userId);
+      res.json({ message: `Signed out of ${count} session(s)`, count });
+    } catch (error) {
+      console.error("Error signing out user:", error);
+      res.status(500).json({ message: "Failed to sign out user" });
+    }
+  });
+  
+  // Change a user's role. Their sessions are ended so the new role applies from their next
+  // sign-in, with two-factor authentication if it is a staff role.
+  app.patch("/api/admin/users/:id/role", requirePermission("users.manage_roles"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { role } = updateUserRoleSchema.parse(req.body);
+      
+      // Owners can't demote themselves, so there is always at least one owner
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You can't change your own role" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.role === role) {
+        const { password, ...userWithoutPassword } = user;
+        return res.json(userWithoutPassword);
+      }
+      
+      const updatedUser = await storage.updateUser(userId, { role });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await storage.destroyUserSessions(userId);
+      await storage.createSecurityEvent({
+        type: "role_changed",
+        userId,
+        identifier: user.username,
+        ip: null,
+        details: `${roleLabels[role]} (was ${user.role}), changed by admin #${req.user!.id}`,
+      });
+      
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error changing user role:", error);
+      res.status(500).json({ message: "Failed to change role" });
+    }
+  });
+  
+  // Lift a password sign-in lockout before it runs out
+  app.post("/api/admin/users/:id/unlock", requirePermission("security.manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { password, ...userWithoutPassword } = await unlockAccount(user, req.user!.id);
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+  
+  // Email templates and a preview of each rendered with sample data
+  app.get("/api/admin/email-templates", requirePermission("system.view"), (req, res) => {
+    res.json(getEmailTemplates());
+  });
+  
+  app.get("/api/admin/email-templates/:name/preview", requirePermission("system.view"), async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isEmailTemplateName(name)) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+      
+      const configs = await storage.getBookingConfigurations();
+      const language = typeof req.query.language === "string" ? req.query.language : undefined;
+      res.json(renderEmail(name, getSampleData(name), { language, configs }));
+    } catch (error) {
+      console.error("Error rendering email preview:", error);
+      res.status(500).json({ message: "Failed to render email preview" });
+    }
+  });
+
   // Update a booking configuration
-  app.put("/api/booking-configurations/:id", isAdmin, async (req, res) => {
+  app.put("/api/booking-configurations/:id", requirePermission("settings.manage"), async (req, res) => {
     try {
       const configId = parseInt(req.params.id);
       const { value } = req.body;
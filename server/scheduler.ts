@@ -0,0 +1,92 @@
+import { storage } from "./storage";
+import type { JobRun } from "@shared/schema";
+
+// In-process runner for time-driven background jobs. Time is divided into slots of
+// each job's interval and every slot is claimed with a row in job_runs before the
+// job runs, so a slot never runs twice, even across restarts. Jobs are written as
+// sweeps over everything that is due, so a slot missed while the server was down
+// is picked up by the next one.
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  run: (scheduledFor: Date) => Promise<string | void>; // Returns a short summary for the run record
+}
+
+const TICK_MS = 30 * 1000;
+
+function getSlot(job: JobDefinition, now: Date): Date {
+  const intervalMs = job.intervalMinutes * 60 * 1000;
+  return new Date(Math.floor(now.getTime() / intervalMs) * intervalMs);
+}
+
+export class JobScheduler {
+  private lastClaimed = new Map<string, number>();
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private jobs: JobDefinition[]) {}
+
+  getJobs(): JobDefinition[] {
+    return this.jobs;
+  }
+
+  async start() {
+    const interrupted = await storage.failInterruptedJobRuns();
+    if (interrupted > 0) {
+      console.log(`Marked ${interrupted} interrupted job run(s) as failed`);
+    }
+
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    await this.tick();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Run every job whose current slot hasn't been claimed yet; jobs run one at a time
+  private async tick(now: Date = new Date()) {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      for (const job of this.jobs) {
+        const slot = getSlot(job, now);
+        if (this.lastClaimed.get(job.name) === slot.getTime()) continue;
+
+        try {
+          await this.runSlot(job, slot);
+        } catch (error) {
+          console.error(`Error scheduling job ${job.name}:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runSlot(job: JobDefinition, slot: Date): Promise<JobRun | undefined> {
+    const run = await storage.claimJobRun(job.name, slot);
+    this.lastClaimed.set(job.name, slot.getTime());
+    if (!run) return undefined;
+
+    try {
+      const result = await job.run(slot);
+      return await storage.updateJobRun(run.id, {
+        status: "succeeded",
+        finishedAt: new Date(),
+        result: result || null,
+      });
+    } catch (error) {
+      console.error(`Job ${job.name} failed:`, error);
+      return await storage.updateJobRun(run.id, {
+        status: "failed",
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
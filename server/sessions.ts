@@ -0,0 +1,86 @@
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { storage, type StoredSession } from "./storage";
+import { clientIp } from "./rate-limit";
+
+// Device details kept in each signed-in session, so users can see where they are
+// signed in and sign out sessions they don't recognise.
+
+declare module "express-session" {
+  interface SessionData {
+    device?: {
+      userAgent: string;
+      ip: string;
+      createdAt: string;
+      lastSeenAt: string;
+    };
+  }
+}
+
+// Only write last-seen back to the store this often; the client polls /api/user every few seconds
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+export interface UserSessionInfo {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string | null;
+  current: boolean;
+}
+
+// Sessions are shown and revoked by a hash of their ID, so the real ID never reaches the client
+export function publicSessionId(sid: string): string {
+  return crypto.createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+export function trackSessionActivity(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return next();
+
+  const now = new Date();
+  const device = req.session.device;
+  if (!device) {
+    req.session.device = {
+      userAgent: req.get("user-agent") || "",
+      ip: clientIp(req),
+      createdAt: now.toISOString(),
+      lastSeenAt: now.toISOString(),
+    };
+  } else if (now.getTime() - new Date(device.lastSeenAt).getTime() >= LAST_SEEN_INTERVAL_MS) {
+    device.ip = clientIp(req);
+    device.lastSeenAt = now.toISOString();
+  }
+  next();
+}
+
+function describeSession(stored: StoredSession, currentSid: string): UserSessionInfo {
+  const device = stored.data.device;
+  return {
+    id: publicSessionId(stored.sid),
+    userAgent: device?.userAgent || null,
+    ip: device?.ip || null,
+    createdAt: device?.createdAt || null,
+    lastSeenAt: device?.lastSeenAt || null,
+    expiresAt: stored.expiresAt ? stored.expiresAt.toISOString() : null,
+    current: stored.sid === currentSid,
+  };
+}
+
+// The user's sessions, most recently active first
+export async function listUserSessions(userId: number, currentSid: string): Promise<UserSessionInfo[]> {
+  const sessions = await storage.getUserSessions(userId);
+  return sessions
+    .map((stored) => describeSession(stored, currentSid))
+    .sort((a, b) => (b.lastSeenAt || "").localeCompare(a.lastSeenAt || ""));
+}
+
+// Sign out one of the user's sessions; false if it isn't theirs or has already ended
+export async function revokeUserSession(userId: number, id: string): Promise<boolean> {
+  const sessions = await storage.getUserSessions(userId);
+  const stored = sessions.find((s) => publicSessionId(s.sid) === id);
+  if (!stored) return false;
+
+  await storage.destroySession(stored.sid);
+  return true;
+}
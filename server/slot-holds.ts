@@ -0,0 +1,70 @@
+import { storage } from "./storage";
+import { getSlotHoldMinutes } from "@shared/slot-holds";
+import type { SlotHold } from "@shared/schema";
+
+// Slots are held either by a waitlist offer or by a user part way through booking.
+// Either way nobody else can book or hold them until the hold runs out.
+
+export type SlotHoldErrorCode = "SLOT_UNAVAILABLE" | "SLOT_HELD";
+
+export class SlotHoldError extends Error {
+  constructor(public code: SlotHoldErrorCode, message: string) {
+    super(message);
+    this.name = "SlotHoldError";
+  }
+}
+
+// Who a slot is being held for, if anyone
+export async function getSlotHolder(slot: Date, now: Date = new Date()): Promise<number | undefined> {
+  const offer = (await storage.getWaitlistOffers(now)).find(
+    (entry) => entry.offeredSlot?.getTime() === slot.getTime()
+  );
+  if (offer) return offer.userId;
+
+  const hold = (await storage.getActiveSlotHolds(now)).find((hold) => hold.slot.getTime() === slot.getTime());
+  return hold?.userId;
+}
+
+// Start times of the slots held for anyone other than the given user
+export async function getSlotsHeldForOthers(userId: number | undefined, now: Date = new Date()): Promise<Set<number>> {
+  const offers = (await storage.getWaitlistOffers(now))
+    .filter((offer) => offer.userId !== userId)
+    .map((offer) => offer.offeredSlot!.getTime());
+  const holds = (await storage.getActiveSlotHolds(now))
+    .filter((hold) => hold.userId !== userId)
+    .map((hold) => hold.slot.getTime());
+  return new Set([...offers, ...holds]);
+}
+
+// Hold a free slot for the user while they confirm. Holding another slot releases
+// the user's earlier hold, and holding the same slot again starts the time afresh.
+export async function holdSlot(userId: number, slot: Date, now: Date = new Date()): Promise<SlotHold> {
+  if (slot <= now) {
+    throw new SlotHoldError("SLOT_UNAVAILABLE", "This slot has already started");
+  }
+
+  const [availableSlot] = await storage.getAvailableSlotsByDateRange(slot, slot);
+  const isBooked = (await storage.getAppointmentsByDateRange(slot, slot))
+    .some((appointment) => appointment.status !== "cancelled");
+  if (!availableSlot?.isEnabled || isBooked) {
+    throw new SlotHoldError("SLOT_UNAVAILABLE", "This slot is not available");
+  }
+
+  const offer = (await storage.getWaitlistOffers(now)).find(
+    (entry) => entry.offeredSlot?.getTime() === slot.getTime()
+  );
+  if (offer && offer.userId !== userId) {
+    throw new SlotHoldError("SLOT_HELD", "This slot is being held for someone else. Please select another time.");
+  }
+
+  const minutes = getSlotHoldMinutes(await storage.getBookingConfigurations());
+  const hold = await storage.holdSlot({
+    userId,
+    slot,
+    expiresAt: new Date(now.getTime() + minutes * 60 * 1000),
+  }, now);
+  if (!hold) {
+    throw new SlotHoldError("SLOT_HELD", "This slot is being held for someone else. Please select another time.");
+  }
+  return hold;
+}
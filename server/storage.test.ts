@@ -0,0 +1,94 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import dotenv from "dotenv";
+
+// Parallel bookings against DatabaseStorage. Needs DATABASE_URL (or .env, like the server)
+// pointing at a database with the current schema (npm run db:push); skipped without one.
+dotenv.config();
+const skip = process.env.DATABASE_URL ? false : "DATABASE_URL is not set";
+
+const USERS = 10;
+const SLOT_MS = 15 * 60 * 1000;
+
+after(async () => {
+  if (skip) return;
+  const { pool } = await import("./db");
+  await pool.end();
+});
+
+test("parallel bookings of one slot: exactly one succeeds, the rest get SLOT_TAKEN", { skip }, async () => {
+  const { storage, BookingConflictError } = await import("./storage");
+
+  const runId = `${Date.now()}-${process.pid}`;
+  const users = await Promise.all(Array.from({ length: USERS }, (_, index) =>
+    storage.createUser({
+      username: `booking-test-${runId}-${index}`,
+      password: "not-used",
+      name: "Booking Test",
+      address: "Booking Test",
+      email: `booking-test-${runId}-${index}@example.com`,
+    })
+  ));
+
+  // Far in the future and different on every run, so it can't meet a real booking
+  const slot = new Date(Date.UTC(2099, 0, 1) + (Date.now() % 100000) * SLOT_MS);
+
+  try {
+    const results = await Promise.allSettled(users.map((user) =>
+      storage.bookAppointment({ userId: user.id, date: slot, endTime: new Date(slot.getTime() + SLOT_MS) }, 1)
+    ));
+
+    const booked = results.filter((result) => result.status === "fulfilled");
+    const refused = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+    assert.equal(booked.length, 1);
+    assert.equal(refused.length, USERS - 1);
+    for (const { reason } of refused) {
+      assert.ok(reason instanceof BookingConflictError, `unexpected error: ${reason}`);
+      assert.equal(reason.code, "SLOT_TAKEN");
+    }
+  } finally {
+    for (const user of users) {
+      for (const appointment of await storage.getAppointmentsByUser(user.id)) {
+        await storage.deleteAppointment(appointment.id);
+      }
+      await storage.deleteUser(user.id);
+    }
+  }
+});
+
+test("a slot held by one user can only be booked by them", { skip }, async () => {
+  const { storage, BookingConflictError } = await import("./storage");
+
+  const runId = `${Date.now()}-${process.pid}`;
+  const [holder, other] = await Promise.all([0, 1].map((index) =>
+    storage.createUser({
+      username: `hold-test-${runId}-${index}`,
+      password: "not-used",
+      name: "Hold Test",
+      address: "Hold Test",
+      email: `hold-test-${runId}-${index}@example.com`,
+    })
+  ));
+
+  const slot = new Date(Date.UTC(2098, 0, 1) + (Date.now() % 100000) * SLOT_MS);
+  const booking = (userId: number) =>
+    storage.bookAppointment({ userId, date: slot, endTime: new Date(slot.getTime() + SLOT_MS) }, 1);
+
+  try {
+    const hold = await storage.holdSlot({ userId: holder.id, slot, expiresAt: new Date(Date.now() + 60 * 1000) }, new Date());
+
+    await assert.rejects(booking(other.id), (error) =>
+      error instanceof BookingConflictError && error.code === "SLOT_HELD"
+    );
+    await booking(holder.id);
+    assert.ok(hold);
+    assert.equal(await storage.getSlotHold(hold.id), undefined);
+  } finally {
+    for (const user of [holder, other]) {
+      for (const appointment of await storage.getAppointmentsByUser(user.id)) {
+        await storage.deleteAppointment(appointment.id);
+      }
+      await storage.deleteUser(user.id);
+    }
+  }
+});
@@ -1,30 +1,124 @@
-import { users, type User, type InsertUser, appointments, type Appointment, type InsertAppointment, availableSlots, type AvailableSlot, type InsertAvailableSlot, bookingConfigurations, type BookingConfiguration, type InsertBookingConfiguration } from "@shared/schema";
+import { users, type User, type InsertUser, appointments, type Appointment, type InsertAppointment, availableSlots, type AvailableSlot, type InsertAvailableSlot, bookingConfigurations, type BookingConfiguration, type InsertBookingConfiguration, lotteryPreferences, type LotteryPreference, lotteryRuns, type LotteryRun, type InsertLotteryRun, jobRuns, type JobRun, appointmentReminders, type AppointmentReminder, otpCodes, type OtpCode, authTokens, type AuthToken, securityEvents, type SecurityEvent, userBlocks, type UserBlock, type InsertUserBlock, appointmentStrikes, type AppointmentStrike, type InsertAppointmentStrike, waitlistEntries, type WaitlistEntry, type InsertWaitlistEntry, slotHolds, type SlotHold, twoFactorCredentials, type TwoFactorCredential, recoveryCodes, type RecoveryCode, normalizeEmail } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { db } from "./db";
-import { eq, and, gte, lte } from "drizzle-orm";
+import { eq, and, or, ilike, gt, gte, lte, lt, ne, sql, asc, desc, inArray, isNull, isNotNull } from "drizzle-orm";
+import { getWeekRange, countsTowardWeeklyLimit } from "@shared/booking-rules";
+import { openWaitlistStatuses } from "@shared/waitlist";
 import pg from "pg";
 const { Pool } = pg;
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+// Namespace for the per-user advisory lock taken while booking
+const BOOKING_LOCK_NAMESPACE = 1;
+
+// The weekly limit as in countsTowardWeeklyLimit: the user's own cancellations still count
+const countsTowardWeeklyLimitSql = or(
+  ne(appointments.status, "cancelled"),
+  isNull(appointments.cancelledBy),
+  eq(appointments.cancelledBy, appointments.userId)
+);
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Refuse a slot that is offered or held for someone else. The hold is taken over for
+// the booking user, which locks its row, so nobody can hold the slot between this check
+// and the insert; the caller drops the user's holds once the slot is theirs.
+async function claimHeldSlot(tx: Transaction, userId: number, slot: Date, now: Date) {
+  const [offer] = await tx
+    .select({ id: waitlistEntries.id })
+    .from(waitlistEntries)
+    .where(and(
+      eq(waitlistEntries.status, "offered"),
+      eq(waitlistEntries.offeredSlot, slot),
+      gt(waitlistEntries.offerExpiresAt, now),
+      ne(waitlistEntries.userId, userId)
+    ));
+  const [hold] = offer ? [] : await tx
+    .insert(slotHolds)
+    .values({ userId, slot, expiresAt: now })
+    .onConflictDoUpdate({
+      target: slotHolds.slot,
+      set: { userId, expiresAt: now },
+      setWhere: or(lte(slotHolds.expiresAt, now), eq(slotHolds.userId, userId)),
+    })
+    .returning({ id: slotHolds.id });
+  
+  if (!hold) {
+    throw new BookingConflictError("SLOT_HELD", "This slot is being held for someone else. Please select another time.");
+  }
+}
+
+// Default booking configurations, added on startup when a key is missing
+export const DEFAULT_BOOKING_CONFIGURATIONS: InsertBookingConfiguration[] = [
+  { key: 'booking_window_day', value: '0', description: 'Day of the week when bookings are allowed (0-6, where 0 is Sunday)' },
+  { key: 'booking_window_start_hour', value: '8', description: 'Start hour of the booking window (0-23)' },
+  { key: 'booking_window_end_hour', value: '9', description: 'End hour of the booking window (0-23)' },
+  { key: 'disabled_days', value: '2,6', description: 'Days when appointments are not available (comma-separated, 0-6, where 0 is Sunday)' },
+  { key: 'morning_slot_start', value: '9', description: 'Start hour for morning appointment slots (0-23)' },
+  { key: 'morning_slot_end', value: '13', description: 'End hour for morning appointment slots (0-23)' },
+  { key: 'afternoon_slot_start', value: '15', description: 'Start hour for afternoon appointment slots (0-23)' },
+  { key: 'afternoon_slot_end', value: '17', description: 'End hour for afternoon appointment slots (0-23)' },
+  { key: 'waiting_room_batch_size', value: '10', description: 'Number of users admitted from the waiting room in each batch' },
+  { key: 'waiting_room_batch_interval_seconds', value: '30', description: 'Seconds between waiting room admission batches' },
+  { key: 'waiting_room_admission_minutes', value: '10', description: 'Minutes an admitted user has to complete their booking' },
+  { key: 'reschedule_limit', value: '1', description: 'Number of times a user can reschedule the same appointment (0 disables rescheduling)' },
+  { key: 'reschedule_cutoff_hours', value: '24', description: 'Appointments can no longer be rescheduled this many hours before they start' },
+  { key: 'reminder_lead_times', value: '24,2', description: 'When to send appointment reminders, in hours before the appointment (comma-separated)' },
+  { key: 'policy_no_show_limit', value: '2', description: 'No-shows within the policy period that block a user from booking (0 turns this off)' },
+  { key: 'policy_late_cancellation_limit', value: '3', description: 'Late cancellations within the policy period that block a user from booking (0 turns this off)' },
+  { key: 'policy_late_cancellation_hours', value: '24', description: 'Cancelling this many hours or less before an appointment counts as a late cancellation' },
+  { key: 'policy_period_days', value: '60', description: 'Number of days over which no-shows and late cancellations are counted' },
+  { key: 'policy_block_weeks', value: '4', description: 'Weeks a user is blocked for when they reach a policy limit' },
+  { key: 'waitlist_offer_minutes', value: '30', description: 'Minutes a freed slot is held for the next user on the waitlist before it is offered to the one after' },
+  { key: 'slot_hold_minutes', value: '5', description: 'Minutes a picked slot is held for the user while they confirm the booking' },
+  { key: 'lottery_weeks', value: '', description: 'Weeks allocated by lottery instead of first-come-first-served (comma-separated week start dates, e.g. 2025-06-01)' },
+];
+
+export type BookingConflictCode = "SLOT_TAKEN" | "SLOT_HELD" | "WEEKLY_LIMIT" | "RESCHEDULE_LIMIT" | "NOT_RESCHEDULABLE";
+
+// A signed-in session as kept by the session store
+export interface StoredSession {
+  sid: string;
+  data: session.SessionData;
+  expiresAt: Date | null;
+}
+
+// Recorded alongside a status change, e.g. who cancelled and why
+export type AppointmentStatusChanges = Partial<Pick<Appointment, "cancelledAt" | "cancelledBy" | "cancellationReason" | "lateCancellation">>;
+
+// Thrown when an atomic booking or reschedule loses to a concurrent one
+export class BookingConflictError extends Error {
+  constructor(public code: BookingConflictCode, message: string) {
+    super(message);
+    this.name = "BookingConflictError";
+  }
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUser & { emailVerifiedAt?: Date | null }): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByMobile(mobile: string): Promise<User | undefined>;
+  searchUsers(options: { search?: string; offset: number; limit: number }): Promise<{ users: User[]; total: number }>;
   
   getAppointments(): Promise<Appointment[]>;
   getAppointmentsByUser(userId: number): Promise<Appointment[]>;
   getAppointmentsByDate(date: Date): Promise<Appointment[]>;
   getAppointmentsByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]>;
+  getAppointmentsByStatus(statuses: string[]): Promise<Appointment[]>;
   getAppointment(id: number): Promise<Appointment | undefined>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  bookAppointment(appointment: InsertAppointment, weeklyLimit: number): Promise<Appointment>;
+  rescheduleAppointment(id: number, slot: { date: Date; endTime: Date }, limits: { weeklyLimit: number; rescheduleLimit: number }): Promise<Appointment>;
   updateAppointment(id: number, appointment: Partial<Appointment>): Promise<Appointment | undefined>;
+  updateAppointmentStatus(id: number, from: string, to: string, changes?: AppointmentStatusChanges): Promise<Appointment | undefined>;
   deleteAppointment(id: number): Promise<boolean>;
   
   getAvailableSlots(): Promise<AvailableSlot[]>;
@@ -40,6 +134,83 @@ export interface IStorage {
   updateBookingConfiguration(id: number, config: Partial<BookingConfiguration>): Promise<BookingConfiguration | undefined>;
   deleteBookingConfiguration(id: number): Promise<boolean>;
   
+  getLotteryPreferences(weekStart: Date): Promise<LotteryPreference[]>;
+  getLotteryPreferencesByUser(userId: number, weekStart: Date): Promise<LotteryPreference[]>;
+  setLotteryPreferences(userId: number, weekStart: Date, slotIds: number[]): Promise<LotteryPreference[]>;
+  getLotteryRuns(): Promise<LotteryRun[]>;
+  getLotteryRun(id: number): Promise<LotteryRun | undefined>;
+  getLotteryRunByWeek(weekStart: Date): Promise<LotteryRun | undefined>;
+  createLotteryRun(run: InsertLotteryRun): Promise<LotteryRun>;
+  updateLotteryRun(id: number, run: Partial<LotteryRun>): Promise<LotteryRun | undefined>;
+  
+  clearExpiredBlocks(now: Date): Promise<number>;
+  getUserBlocks(userId: number): Promise<UserBlock[]>;
+  getUserBlock(id: number): Promise<UserBlock | undefined>;
+  getActiveUserBlock(userId: number, now: Date): Promise<UserBlock | undefined>;
+  getEndedUserBlocks(now: Date): Promise<UserBlock[]>;
+  createUserBlock(block: InsertUserBlock): Promise<UserBlock>;
+  liftUserBlock(id: number, liftedBy: number | null, liftedAt: Date): Promise<UserBlock | undefined>;
+  getStrikesByUser(userId: number): Promise<AppointmentStrike[]>;
+  createStrike(strike: InsertAppointmentStrike): Promise<AppointmentStrike | undefined>;
+  deleteStrike(appointmentId: number, kind: string): Promise<boolean>;
+  assignStrikesToBlock(strikeIds: number[], blockId: number): Promise<void>;
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  getWaitlistEntriesByUser(userId: number, since: Date): Promise<WaitlistEntry[]>;
+  getOpenWaitlistEntries(dayStart: Date, weekStart: Date): Promise<WaitlistEntry[]>;
+  getWaitlistOffers(now: Date): Promise<WaitlistEntry[]>;
+  getExpiredWaitlistOffers(now: Date): Promise<WaitlistEntry[]>;
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  updateWaitlistEntry(id: number, from: string, entry: Partial<WaitlistEntry>): Promise<WaitlistEntry | undefined>;
+  deleteWaitlistEntry(id: number): Promise<boolean>;
+  reorderWaitlistEntries(entryIds: number[]): Promise<boolean>;
+  getSlotHold(id: number): Promise<SlotHold | undefined>;
+  getActiveSlotHolds(now: Date): Promise<SlotHold[]>;
+  holdSlot(hold: Pick<SlotHold, "userId" | "slot" | "expiresAt">, now: Date): Promise<SlotHold | undefined>;
+  deleteSlotHold(id: number): Promise<boolean>;
+  deleteSlotHoldsByUser(userId: number): Promise<number>;
+  deleteExpiredSlotHolds(now: Date): Promise<number>;
+  createAppointmentReminder(appointmentId: number, kind: string): Promise<boolean>;
+  deleteAppointmentReminder(appointmentId: number, kind: string): Promise<boolean>;
+  getAppointmentReminders(appointmentId: number): Promise<AppointmentReminder[]>;
+  clearAppointmentReminders(appointmentId: number): Promise<void>;
+  
+  claimJobRun(name: string, scheduledFor: Date): Promise<JobRun | undefined>;
+  updateJobRun(id: number, run: Partial<JobRun>): Promise<JobRun | undefined>;
+  getLatestJobRun(name: string): Promise<JobRun | undefined>;
+  getJobRuns(options: { status?: string; limit: number }): Promise<JobRun[]>;
+  failInterruptedJobRuns(): Promise<number>;
+  deleteJobRunsBefore(date: Date): Promise<number>;
+  
+  getOtpCode(email: string, purpose: string): Promise<OtpCode | undefined>;
+  saveOtpCode(code: Pick<OtpCode, "email" | "purpose" | "codeHash" | "sentAt" | "expiresAt">): Promise<OtpCode>;
+  claimOtpAttempt(id: number, maxAttempts: number): Promise<OtpCode | undefined>;
+  updateOtpCode(id: number, code: Partial<OtpCode>): Promise<OtpCode | undefined>;
+  deleteOtpCode(id: number): Promise<boolean>;
+  deleteExpiredOtpCodes(now: Date): Promise<number>;
+  
+  createAuthToken(token: Pick<AuthToken, "userId" | "email" | "purpose" | "tokenHash" | "expiresAt">): Promise<AuthToken>;
+  getAuthToken(tokenHash: string, purpose: string, now: Date): Promise<AuthToken | undefined>;
+  useAuthToken(tokenHash: string, purpose: string, now: Date): Promise<AuthToken | undefined>;
+  createUserWithAuthToken(user: InsertUser, authTokenId: number, now: Date): Promise<User | undefined>;
+  deleteAuthTokens(userId: number, purpose: string): Promise<number>;
+  deleteExpiredAuthTokens(now: Date): Promise<number>;
+  destroyUserSessions(userId: number): Promise<number>;
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  destroySession(sid: string): Promise<void>;
+  
+  incrementFailedLogins(userId: number): Promise<User | undefined>;
+  createSecurityEvent(event: Pick<SecurityEvent, "type" | "userId" | "identifier" | "ip" | "details">): Promise<SecurityEvent>;
+  getSecurityEvents(options: { type?: string; limit: number }): Promise<SecurityEvent[]>;
+  deleteSecurityEventsBefore(date: Date): Promise<number>;
+  
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  saveTwoFactorCredential(userId: number, secret: string): Promise<TwoFactorCredential>;
+  confirmTwoFactorCredential(userId: number, confirmedAt: Date): Promise<TwoFactorCredential | undefined>;
+  claimTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string, now: Date): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+  
   sessionStore: session.Store;
 }
 
@@ -59,27 +230,17 @@ export class DatabaseStorage implements IStorage {
   
   private async initDefaultBookingConfigurations() {
     try {
-      // Define default booking configurations
-      const defaultConfigs = [
-        { key: 'booking_window_day', value: '0', description: 'Day of the week when bookings are allowed (0-6, where 0 is Sunday)' },
-        { key: 'booking_window_start_hour', value: '8', description: 'Start hour of the booking window (0-23)' },
-        { key: 'booking_window_end_hour', value: '9', description: 'End hour of the booking window (0-23)' },
-        { key: 'disabled_days', value: '2,6', description: 'Days when appointments are not available (comma-separated, 0-6, where 0 is Sunday)' },
-        { key: 'morning_slot_start', value: '9', description: 'Start hour for morning appointment slots (0-23)' },
-        { key: 'morning_slot_end', value: '13', description: 'End hour for morning appointment slots (0-23)' },
-        { key: 'afternoon_slot_start', value: '15', description: 'Start hour for afternoon appointment slots (0-23)' },
-        { key: 'afternoon_slot_end', value: '17', description: 'End hour for afternoon appointment slots (0-23)' }
-      ];
-      
-      // Check if any configurations exist
+      // Add any default configuration that doesn't exist yet
       const existingConfigs = await this.getBookingConfigurations();
+      const existingKeys = new Set(existingConfigs.map(config => config.key));
+      const missingConfigs = DEFAULT_BOOKING_CONFIGURATIONS.filter(config => !existingKeys.has(config.key));
       
-      if (existingConfigs.length === 0) {
-        // Insert all default configurations
-        for (const config of defaultConfigs) {
-          await this.createBookingConfiguration(config);
-        }
-        console.log('Initialized default booking configurations');
+      for (const config of missingConfigs) {
+        await this.createBookingConfiguration(config);
+      }
+      
+      if (missingConfigs.length > 0) {
+        console.log(`Initialized ${missingConfigs.length} default booking configurations`);
       }
     } catch (error) {
       console.error('Error initializing default booking configurations:', error);
@@ -98,7 +259,8 @@ export class DatabaseStorage implements IStorage {
 
   async getUserByEmail(email: string): Promise<User | undefined> {
     try {
-      const [user] = await db.select().from(users).where(eq(users.email, email));
+      // lower() as well, for addresses stored before they were normalised
+      const [user] = await db.select().from(users).where(eq(sql`lower(${users.email})`, normalizeEmail(email)));
       return user;
     } catch (error) {
       console.error('Error fetching user by email:', error);
@@ -111,10 +273,10 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser & { emailVerifiedAt?: Date | null }): Promise<User> {
     const [user] = await db
       .insert(users)
-      .values({ ...insertUser, isAdmin: false })
+      .values({ ...insertUser, role: "client" })
       .returning();
     return user;
   }
@@ -128,6 +290,31 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
   
+  async searchUsers(options: { search?: string; offset: number; limit: number }): Promise<{ users: User[]; total: number }> {
+    const pattern = options.search ? `%${options.search.replace(/[\\%_]/g, "\\$&")}%` : null;
+    const where = pattern
+      ? or(
+          ilike(users.name, pattern),
+          ilike(users.username, pattern),
+          ilike(users.email, pattern),
+          ilike(users.mobile, pattern),
+        )
+      : undefined;
+    
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(users)
+      .where(where);
+    const page = await db
+      .select()
+      .from(users)
+      .where(where)
+      .orderBy(desc(users.createdAt), desc(users.id))
+      .offset(options.offset)
+      .limit(options.limit);
+    return { users: page, total: count };
+  }
+  
   async deleteUser(id: number): Promise<boolean> {
     const result = await db
       .delete(users)
@@ -175,6 +362,11 @@ export class DatabaseStorage implements IStorage {
     );
   }
   
+  async getAppointmentsByStatus(statuses: string[]): Promise<Appointment[]> {
+    if (statuses.length === 0) return [];
+    return await db.select().from(appointments).where(inArray(appointments.status, statuses));
+  }
+  
   async getAppointment(id: number): Promise<Appointment | undefined> {
     const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
     return appointment;
@@ -188,6 +380,117 @@ export class DatabaseStorage implements IStorage {
     return newAppointment;
   }
   
+  // Claim a slot atomically: the hold and weekly-limit checks and the insert run in one
+  // transaction, and the active-slot unique index rejects a concurrent claim
+  async bookAppointment(appointment: InsertAppointment, weeklyLimit: number): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      // Serialise bookings by the same user so two requests can't both pass the weekly limit
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${BOOKING_LOCK_NAMESPACE}, ${appointment.userId})`);
+      
+      const week = getWeekRange(appointment.date);
+      const appointmentsInWeek = await tx
+        .select({ id: appointments.id })
+        .from(appointments)
+        .where(
+          and(
+            eq(appointments.userId, appointment.userId),
+            gte(appointments.date, week.start),
+            lte(appointments.date, week.end),
+            countsTowardWeeklyLimitSql
+          )
+        );
+      
+      if (appointmentsInWeek.length >= weeklyLimit) {
+        throw new BookingConflictError("WEEKLY_LIMIT", "You can only book one appointment per week");
+      }
+      
+      await claimHeldSlot(tx, appointment.userId, appointment.date, new Date());
+      
+      try {
+        const [newAppointment] = await tx
+          .insert(appointments)
+          .values({ ...appointment, status: "confirmed" })
+          .returning();
+        await tx.delete(slotHolds).where(eq(slotHolds.userId, appointment.userId));
+        return newAppointment;
+      } catch (error) {
+        // unique_violation: someone else holds this slot
+        if ((error as { code?: string }).code === "23505") {
+          throw new BookingConflictError("SLOT_TAKEN", "This slot has just been booked by someone else");
+        }
+        throw error;
+      }
+    });
+  }
+  
+  // Move an appointment to a new slot in place, so the old slot is released in the same step
+  async rescheduleAppointment(id: number, slot: { date: Date; endTime: Date }, limits: { weeklyLimit: number; rescheduleLimit: number }): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(appointments).where(eq(appointments.id, id));
+      if (!current) {
+        throw new BookingConflictError("NOT_RESCHEDULABLE", "Appointment not found");
+      }
+      
+      // Same lock as booking, so a reschedule and a booking by the same user can't interleave
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${BOOKING_LOCK_NAMESPACE}, ${current.userId})`);
+      
+      // Re-read under the lock in case a concurrent reschedule already moved it
+      const [appointment] = await tx.select().from(appointments).where(eq(appointments.id, id));
+      if (appointment.status !== "confirmed") {
+        throw new BookingConflictError("NOT_RESCHEDULABLE", "Only upcoming appointments can be rescheduled");
+      }
+      if (appointment.rescheduleCount >= limits.rescheduleLimit) {
+        throw new BookingConflictError("RESCHEDULE_LIMIT", "This appointment can't be rescheduled again");
+      }
+      
+      const week = getWeekRange(slot.date);
+      const appointmentsInWeek = await tx
+        .select({ id: appointments.id })
+        .from(appointments)
+        .where(
+          and(
+            eq(appointments.userId, appointment.userId),
+            ne(appointments.id, id),
+            gte(appointments.date, week.start),
+            lte(appointments.date, week.end),
+            countsTowardWeeklyLimitSql
+          )
+        );
+      
+      if (appointmentsInWeek.length >= limits.weeklyLimit) {
+        throw new BookingConflictError("WEEKLY_LIMIT", "You can only book one appointment per week");
+      }
+      
+      await claimHeldSlot(tx, appointment.userId, slot.date, new Date());
+      
+      try {
+        const [updatedAppointment] = await tx
+          .update(appointments)
+          .set({ date: slot.date, endTime: slot.endTime, rescheduleCount: appointment.rescheduleCount + 1 })
+          .where(eq(appointments.id, id))
+          .returning();
+        await tx.delete(slotHolds).where(eq(slotHolds.userId, appointment.userId));
+        return updatedAppointment;
+      } catch (error) {
+        // unique_violation: someone else holds the new slot
+        if ((error as { code?: string }).code === "23505") {
+          throw new BookingConflictError("SLOT_TAKEN", "This slot has just been booked by someone else");
+        }
+        throw error;
+      }
+    });
+  }
+  
+  // Only applies if the appointment is still in `from`, so concurrent changes can't both win
+  async updateAppointmentStatus(id: number, from: string, to: string, changes: AppointmentStatusChanges = {}): Promise<Appointment | undefined> {
+    const [updatedAppointment] = await db
+      .update(appointments)
+      .set({ ...changes, status: to })
+      .where(and(eq(appointments.id, id), eq(appointments.status, from)))
+      .returning();
+    return updatedAppointment;
+  }
+  
   async updateAppointment(id: number, appointment: Partial<Appointment>): Promise<Appointment | undefined> {
     const [updatedAppointment] = await db
       .update(appointments)
@@ -316,263 +619,1035 @@ export class DatabaseStorage implements IStorage {
       .returning({ id: bookingConfigurations.id });
     return result.length > 0;
   }
-}
-
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private appointments: Map<number, Appointment>;
-  private availableSlots: Map<number, AvailableSlot>;
-  private bookingConfigurations: Map<number, BookingConfiguration>;
   
-  currentId: { users: number; appointments: number; availableSlots: number; bookingConfigurations: number };
-  sessionStore: session.Store;
-
-  constructor() {
-    this.users = new Map();
-    this.appointments = new Map();
-    this.availableSlots = new Map();
-    this.bookingConfigurations = new Map();
-    
-    this.currentId = {
-      users: 1,
-      appointments: 1,
-      availableSlots: 1,
-      bookingConfigurations: 1,
-    };
-    
-    this.sessionStore = new MemoryStore({
-      checkPeriod: 86400000, // 24 hours
-    });
-    
-    // Create default booking configurations
-    const bookingConfigs = [
-      {
-        id: this.currentId.bookingConfigurations++,
-        key: "booking_window_day",
-        value: "0", // Sunday
-        description: "Day of the week when bookings are allowed (0-6, where 0 is Sunday)",
-        updatedAt: new Date()
-      },
-      {
-        id: this.currentId.bookingConfigurations++,
-        key: "booking_window_start_hour",
-        value: "8", // 8 AM
-        description: "Start hour of the booking window (0-23)",
-        updatedAt: new Date()
-      },
-      {
-        id: this.currentId.bookingConfigurations++,
-        key: "booking_window_end_hour",
-        value: "9", // 9 AM
-        description: "End hour of the booking window (0-23)",
-        updatedAt: new Date()
-      },
-      {
-        id: this.currentId.bookingConfigurations++,
-        key: "disabled_days",
-        value: "2,6", // Tuesday and Saturday
-        description: "Days when appointments are not available (comma-separated, 0-6, where 0 is Sunday)",
-        updatedAt: new Date()
-      },
-      {
-        id: this.currentId.bookingConfigurations++,
-        key: "morning_slot_start",
-        value: "9", // 9 AM
-        description: "Start hour for morning appointment slots (0-23)",
-        updatedAt: new Date()
-      },
-      {
-        id: this.currentId.bookingConfigurations++,
-        key: "morning_slot_end",
-        value: "13", // 1 PM
-        description: "End hour for morning appointment slots (0-23)",
-        updatedAt: new Date()
-      },
-      {
-        id: this.currentId.bookingConfigurations++,
-        key: "afternoon_slot_start",
-        value: "15", // 3 PM
-        description: "Start hour for afternoon appointment slots (0-23)",
-        updatedAt: new Date()
-      },
-      {
-        id: this.currentId.bookingConfigurations++,
-        key: "afternoon_slot_end",
-        value: "17", // 5 PM
-        description: "End hour for afternoon appointment slots (0-23)",
-        updatedAt: new Date()
+  async getLotteryPreferences(weekStart: Date): Promise<LotteryPreference[]> {
+    return await db
+      .select()
+      .from(lotteryPreferences)
+      .where(eq(lotteryPreferences.weekStart, weekStart))
+      .orderBy(asc(lotteryPreferences.userId), asc(lotteryPreferences.rank));
+  }
+  
+  async getLotteryPreferencesByUser(userId: number, weekStart: Date): Promise<LotteryPreference[]> {
+    return await db
+      .select()
+      .from(lotteryPreferences)
+      .where(and(eq(lotteryPreferences.userId, userId), eq(lotteryPreferences.weekStart, weekStart)))
+      .orderBy(asc(lotteryPreferences.rank));
+  }
+  
+  // Replace the user's ranked preferences for the week in one go
+  async setLotteryPreferences(userId: number, weekStart: Date, slotIds: number[]): Promise<LotteryPreference[]> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(lotteryPreferences)
+        .where(and(eq(lotteryPreferences.userId, userId), eq(lotteryPreferences.weekStart, weekStart)));
+      
+      if (slotIds.length === 0) {
+        return [];
       }
-    ];
-    
-    // Add each configuration to the map
-    bookingConfigs.forEach(config => {
-      this.bookingConfigurations.set(config.id, config);
+      
+      return await tx
+        .insert(lotteryPreferences)
+        .values(slotIds.map((slotId, index) => ({ userId, weekStart, slotId, rank: index + 1 })))
+        .returning();
     });
-
-    
-    
-    // Create an admin user with hashed password
-    // Create an initial admin user with pre-hashed password
-    const hashedPassword = "09c5d962e5ae0c4f57b3d4e8d2b89fa1eb6e528e11902c31eb7f5bd5d7918fde1e3e23dee6ebd5c7ac6214f1a6b0c55c1fdfd8fbf0af1c8e1c86a2c44c5c95e0.acd0527ed5432e9e7be49df0f26f1177";
-    // Create admin user with specific password
-    const adminHashedPassword = "09c5d962e5ae0c4f57b3d4e8d2b89fa1eb6e528e11902c31eb7f5bd5d7918fde1e3e23dee6ebd5c7ac6214f1a6b0c55c1fdfd8fbf0af1c8e1c86a2c44c5c95e0.acd0527ed5432e9e7be49df0f26f1177"; // This is the hash for "omkaram@123"
-    const adminUser: User = {
-      id: this.currentId.users++,
-      username: "admin",
-      password: adminHashedPassword,
-      name: "Admin User",
-      address: "123 Admin St",
-      mobile: "1234567890",
-      isAdmin: true,
-      createdAt: new Date(),
-      blockedUntil: null,
-    };
-    this.users.set(adminUser.id, adminUser);
-    
-    // Also create a regular test user with pre-hashed password
-    const testUserHashedPassword = "09c5d962e5ae0c4f57b3d4e8d2b89fa1eb6e528e11902c31eb7f5bd5d7918fde1e3e23dee6ebd5c7ac6214f1a6b0c55c1fdfd8fbf0af1c8e1c86a2c44c5c95e0.acd0527ed5432e9e7be49df0f26f1177";
-    const testUser: User = {
-      id: this.currentId.users++,
-      username: "user",
-      password: testUserHashedPassword,
-      name: "Test User",
-      address: "456 User St",
-      mobile: "0987654321",
-      isAdmin: false,
-      createdAt: new Date(),
-      blockedUntil: null,
-    };
-    this.users.set(testUser.id, testUser);
   }
-
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.email === email
-    );
+  
+  async getLotteryRuns(): Promise<LotteryRun[]> {
+    return await db.select().from(lotteryRuns).orderBy(desc(lotteryRuns.createdAt));
   }
-
-  // Add to MemStorage class
-  async getUserByMobile(mobile: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.mobile === mobile
-    );
+  
+  async getLotteryRun(id: number): Promise<LotteryRun | undefined> {
+    const [run] = await db.select().from(lotteryRuns).where(eq(lotteryRuns.id, id));
+    return run;
   }
-
-  async getUser(id: number): Promise<User | undefined> {
-    return this.users.get(id);
+  
+  async getLotteryRunByWeek(weekStart: Date): Promise<LotteryRun | undefined> {
+    const [run] = await db.select().from(lotteryRuns).where(eq(lotteryRuns.weekStart, weekStart));
+    return run;
   }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
+  
+  async createLotteryRun(run: InsertLotteryRun): Promise<LotteryRun> {
+    const [newRun] = await db.insert(lotteryRuns).values(run).returning();
+    return newRun;
   }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.currentId.users++;
-    const createdAt = new Date();
-    const user: User = { ...insertUser, id, isAdmin: false, createdAt };
-    this.users.set(id, user);
-    return user;
+  
+  async updateLotteryRun(id: number, run: Partial<LotteryRun>): Promise<LotteryRun | undefined> {
+    const [updatedRun] = await db
+      .update(lotteryRuns)
+      .set(run)
+      .where(eq(lotteryRuns.id, id))
+      .returning();
+    return updatedRun;
   }
   
-  async updateUser(id: number, userUpdate: Partial<User>): Promise<User | undefined> {
-    const user = this.users.get(id);
-    
-    if (!user) {
-      return undefined;
-    }
-    
-    const updatedUser: User = { ...user, ...userUpdate };
-    this.users.set(id, updatedUser);
-    
-    return updatedUser;
+  async clearExpiredBlocks(now: Date): Promise<number> {
+    const result = await db
+      .update(users)
+      .set({ blockedUntil: null })
+      .where(and(isNotNull(users.blockedUntil), lte(users.blockedUntil, now)))
+      .returning({ id: users.id });
+    return result.length;
   }
   
-  async deleteUser(id: number): Promise<boolean> {
-    return this.users.delete(id);
+  async getUserBlocks(userId: number): Promise<UserBlock[]> {
+    return await db
+      .select()
+      .from(userBlocks)
+      .where(eq(userBlocks.userId, userId))
+      .orderBy(desc(userBlocks.startsAt), desc(userBlocks.id));
   }
   
-  async getAppointments(): Promise<Appointment[]> {
-    return Array.from(this.appointments.values());
+  async getUserBlock(id: number): Promise<UserBlock | undefined> {
+    const [block] = await db.select().from(userBlocks).where(eq(userBlocks.id, id));
+    return block;
   }
   
-  async getAppointmentsByUser(userId: number): Promise<Appointment[]> {
-    return Array.from(this.appointments.values()).filter(
-      (appointment) => appointment.userId === userId,
-    );
+  async getActiveUserBlock(userId: number, now: Date): Promise<UserBlock | undefined> {
+    const [block] = await db
+      .select()
+      .from(userBlocks)
+      .where(and(
+        eq(userBlocks.userId, userId),
+        isNull(userBlocks.liftedAt),
+        lte(userBlocks.startsAt, now),
+        gt(userBlocks.endsAt, now)
+      ))
+      .orderBy(desc(userBlocks.endsAt))
+      .limit(1);
+    return block;
   }
   
-  async getAppointmentsByDate(date: Date): Promise<Appointment[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-    
-    return Array.from(this.appointments.values()).filter(
-      (appointment) => appointment.date >= startOfDay && appointment.date <= endOfDay,
-    );
+  async getEndedUserBlocks(now: Date): Promise<UserBlock[]> {
+    return await db
+      .select()
+      .from(userBlocks)
+      .where(and(isNull(userBlocks.liftedAt), lte(userBlocks.endsAt, now)));
   }
   
-  async getAppointmentsByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]> {
-    return Array.from(this.appointments.values()).filter(
-      (appointment) => appointment.date >= startDate && appointment.date <= endDate,
-    );
+  // Creates the block and mirrors its end onto the user in one transaction
+  async createUserBlock(block: InsertUserBlock): Promise<UserBlock> {
+    return await db.transaction(async (tx) => {
+      const [createdBlock] = await tx.insert(userBlocks).values(block).returning();
+      await tx
+        .update(users)
+        .set({ blockedUntil: createdBlock.endsAt })
+        .where(eq(users.id, createdBlock.userId));
+      return createdBlock;
+    });
   }
   
-  async getAppointment(id: number): Promise<Appointment | undefined> {
-    return this.appointments.get(id);
+  // Returns undefined if the block was already lifted, so only one caller acts on it
+  async liftUserBlock(id: number, liftedBy: number | null, liftedAt: Date): Promise<UserBlock | undefined> {
+    return await db.transaction(async (tx) => {
+      const [liftedBlock] = await tx
+        .update(userBlocks)
+        .set({ liftedAt, liftedBy })
+        .where(and(eq(userBlocks.id, id), isNull(userBlocks.liftedAt)))
+        .returning();
+      if (liftedBlock) {
+        await tx
+          .update(users)
+          .set({ blockedUntil: null })
+          .where(and(eq(users.id, liftedBlock.userId), eq(users.blockedUntil, liftedBlock.endsAt)));
+      }
+      return liftedBlock;
+    });
   }
   
-  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
-    const id = this.currentId.appointments++;
-    const createdAt = new Date();
-    const newAppointment: Appointment = {
-      id,
-      userId: appointment.userId,
-      date: new Date(appointment.date),
-      endTime: new Date(appointment.endTime),
-      status: "confirmed",
-      createdAt
-    };
-    this.appointments.set(id, newAppointment);
-    return newAppointment;
+  async getStrikesByUser(userId: number): Promise<AppointmentStrike[]> {
+    return await db
+      .select()
+      .from(appointmentStrikes)
+      .where(eq(appointmentStrikes.userId, userId))
+      .orderBy(desc(appointmentStrikes.occurredAt));
   }
   
-  async updateAppointment(id: number, appointmentUpdate: Partial<Appointment>): Promise<Appointment | undefined> {
-    const appointment = this.appointments.get(id);
-    
-    if (!appointment) {
-      return undefined;
-    }
-    
-    const updatedAppointment: Appointment = { ...appointment, ...appointmentUpdate };
-    this.appointments.set(id, updatedAppointment);
-    
-    return updatedAppointment;
+  // Returns undefined if the appointment already has a strike of this kind
+  async createStrike(strike: InsertAppointmentStrike): Promise<AppointmentStrike | undefined> {
+    const [createdStrike] = await db
+      .insert(appointmentStrikes)
+      .values(strike)
+      .onConflictDoNothing()
+      .returning();
+    return createdStrike;
   }
   
-  async deleteAppointment(id: number): Promise<boolean> {
-    return this.appointments.delete(id);
+  async deleteStrike(appointmentId: number, kind: string): Promise<boolean> {
+    const result = await db
+      .delete(appointmentStrikes)
+      .where(and(eq(appointmentStrikes.appointmentId, appointmentId), eq(appointmentStrikes.kind, kind)))
+      .returning({ id: appointmentStrikes.id });
+    return result.length > 0;
   }
   
-  async getAvailableSlots(): Promise<AvailableSlot[]> {
-    return Array.from(this.availableSlots.values());
+  async assignStrikesToBlock(strikeIds: number[], blockId: number): Promise<void> {
+    if (strikeIds.length === 0) return;
+    await db
+      .update(appointmentStrikes)
+      .set({ blockId })
+      .where(inArray(appointmentStrikes.id, strikeIds));
   }
   
-  async getAvailableSlotsByDate(date: Date): Promise<AvailableSlot[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    try {
-      // Get all slots for the requested date and future dates
-      const slots = Array.from(this.availableSlots.values()).filter(
-        slot => slot.date >= startOfDay
-      );
-      
-      // Get all appointments for the requested date and future dates
-      const existingAppointments = Array.from(this.appointments.values()).filter(
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry;
+  }
+  
+  async getWaitlistEntriesByUser(userId: number, since: Date): Promise<WaitlistEntry[]> {
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .where(and(eq(waitlistEntries.userId, userId), gte(waitlistEntries.date, since)))
+      .orderBy(asc(waitlistEntries.date));
+  }
+  
+  // Entries for the day and for the week it is in, in waitlist order
+  async getOpenWaitlistEntries(dayStart: Date, weekStart: Date): Promise<WaitlistEntry[]> {
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .where(and(
+        inArray(waitlistEntries.status, openWaitlistStatuses),
+        or(
+          and(eq(waitlistEntries.scope, "day"), eq(waitlistEntries.date, dayStart)),
+          and(eq(waitlistEntries.scope, "week"), eq(waitlistEntries.date, weekStart))
+        )
+      ))
+      .orderBy(asc(waitlistEntries.position), asc(waitlistEntries.id));
+  }
+  
+  async getWaitlistOffers(now: Date): Promise<WaitlistEntry[]> {
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .where(and(eq(waitlistEntries.status, "offered"), gt(waitlistEntries.offerExpiresAt, now)));
+  }
+  
+  async getExpiredWaitlistOffers(now: Date): Promise<WaitlistEntry[]> {
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .where(and(eq(waitlistEntries.status, "offered"), lte(waitlistEntries.offerExpiresAt, now)));
+  }
+  
+  // New entries go to the back of every list they are in
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const [createdEntry] = await db
+      .insert(waitlistEntries)
+      .values({
+        ...entry,
+        position: sql`(select coalesce(max(${waitlistEntries.position}), 0) + 1 from ${waitlistEntries})`,
+      })
+      .returning();
+    return createdEntry;
+  }
+  
+  // Only applies if the entry is still in `from`, so an offer can't be both claimed and expired
+  async updateWaitlistEntry(id: number, from: string, entry: Partial<WaitlistEntry>): Promise<WaitlistEntry | undefined> {
+    const [updatedEntry] = await db
+      .update(waitlistEntries)
+      .set(entry)
+      .where(and(eq(waitlistEntries.id, id), eq(waitlistEntries.status, from)))
+      .returning();
+    return updatedEntry;
+  }
+  
+  async deleteWaitlistEntry(id: number): Promise<boolean> {
+    const result = await db
+      .delete(waitlistEntries)
+      .where(eq(waitlistEntries.id, id))
+      .returning({ id: waitlistEntries.id });
+    return result.length > 0;
+  }
+  
+  // Hands the entries' current positions back out in the given order; false if any entry is gone
+  async reorderWaitlistEntries(entryIds: number[]): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const entries = await tx
+        .select({ id: waitlistEntries.id, position: waitlistEntries.position })
+        .from(waitlistEntries)
+        .where(inArray(waitlistEntries.id, entryIds))
+        .for("update");
+      if (entries.length !== new Set(entryIds).size) {
+        return false;
+      }
+      
+      const positions = entries.map((entry) => entry.position).sort((a, b) => a - b);
+      for (let index = 0; index < entryIds.length; index++) {
+        await tx.update(waitlistEntries).set({ position: positions[index] }).where(eq(waitlistEntries.id, entryIds[index]));
+      }
+      return true;
+    });
+  }
+  
+  async getSlotHold(id: number): Promise<SlotHold | undefined> {
+    const [hold] = await db.select().from(slotHolds).where(eq(slotHolds.id, id));
+    return hold;
+  }
+  
+  async getActiveSlotHolds(now: Date): Promise<SlotHold[]> {
+    return await db.select().from(slotHolds).where(gt(slotHolds.expiresAt, now));
+  }
+  
+  // Takes the slot unless someone else's hold on it is still running, and drops the
+  // user's hold on any other slot. Undefined if the slot is held by someone else.
+  async holdSlot(hold: Pick<SlotHold, "userId" | "slot" | "expiresAt">, now: Date): Promise<SlotHold | undefined> {
+    return await db.transaction(async (tx) => {
+      const [savedHold] = await tx
+        .insert(slotHolds)
+        .values(hold)
+        .onConflictDoUpdate({
+          target: slotHolds.slot,
+          set: { userId: hold.userId, expiresAt: hold.expiresAt, createdAt: new Date() },
+          setWhere: or(lte(slotHolds.expiresAt, now), eq(slotHolds.userId, hold.userId)),
+        })
+        .returning();
+      if (!savedHold) {
+        return undefined;
+      }
+      
+      await tx.delete(slotHolds).where(and(eq(slotHolds.userId, hold.userId), ne(slotHolds.id, savedHold.id)));
+      return savedHold;
+    });
+  }
+  
+  async deleteSlotHold(id: number): Promise<boolean> {
+    const result = await db
+      .delete(slotHolds)
+      .where(eq(slotHolds.id, id))
+      .returning({ id: slotHolds.id });
+    return result.length > 0;
+  }
+  
+  async deleteSlotHoldsByUser(userId: number): Promise<number> {
+    const result = await db
+      .delete(slotHolds)
+      .where(eq(slotHolds.userId, userId))
+      .returning({ id: slotHolds.id });
+    return result.length;
+  }
+  
+  async deleteExpiredSlotHolds(now: Date): Promise<number> {
+    const result = await db
+      .delete(slotHolds)
+      .where(lte(slotHolds.expiresAt, now))
+      .returning({ id: slotHolds.id });
+    return result.length;
+  }
+  
+  // Returns false if this reminder was already recorded
+  async createAppointmentReminder(appointmentId: number, kind: string): Promise<boolean> {
+    const result = await db
+      .insert(appointmentReminders)
+      .values({ appointmentId, kind })
+      .onConflictDoNothing()
+      .returning({ id: appointmentReminders.id });
+    return result.length > 0;
+  }
+  
+  async deleteAppointmentReminder(appointmentId: number, kind: string): Promise<boolean> {
+    const result = await db
+      .delete(appointmentReminders)
+      .where(and(eq(appointmentReminders.appointmentId, appointmentId), eq(appointmentReminders.kind, kind)))
+      .returning({ id: appointmentReminders.id });
+    return result.length > 0;
+  }
+  
+  async getAppointmentReminders(appointmentId: number): Promise<AppointmentReminder[]> {
+    return await db
+      .select()
+      .from(appointmentReminders)
+      .where(eq(appointmentReminders.appointmentId, appointmentId))
+      .orderBy(asc(appointmentReminders.sentAt));
+  }
+  
+  async clearAppointmentReminders(appointmentId: number): Promise<void> {
+    await db.delete(appointmentReminders).where(eq(appointmentReminders.appointmentId, appointmentId));
+  }
+  
+  // Returns undefined if this run has already been claimed
+  async claimJobRun(name: string, scheduledFor: Date): Promise<JobRun | undefined> {
+    const [run] = await db
+      .insert(jobRuns)
+      .values({ name, scheduledFor, status: "running" })
+      .onConflictDoNothing()
+      .returning();
+    return run;
+  }
+  
+  async updateJobRun(id: number, run: Partial<JobRun>): Promise<JobRun | undefined> {
+    const [updatedRun] = await db
+      .update(jobRuns)
+      .set(run)
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return updatedRun;
+  }
+  
+  async getLatestJobRun(name: string): Promise<JobRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(jobRuns)
+      .where(eq(jobRuns.name, name))
+      .orderBy(desc(jobRuns.scheduledFor))
+      .limit(1);
+    return run;
+  }
+  
+  async getJobRuns(options: { status?: string; limit: number }): Promise<JobRun[]> {
+    return await db
+      .select()
+      .from(jobRuns)
+      .where(options.status ? eq(jobRuns.status, options.status) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(options.limit);
+  }
+  
+  // Runs still marked as running at startup were cut off by a restart
+  async failInterruptedJobRuns(): Promise<number> {
+    const result = await db
+      .update(jobRuns)
+      .set({ status: "failed", finishedAt: new Date(), error: "Interrupted by a server restart" })
+      .where(eq(jobRuns.status, "running"))
+      .returning({ id: jobRuns.id });
+    return result.length;
+  }
+  
+  async deleteJobRunsBefore(date: Date): Promise<number> {
+    const result = await db
+      .delete(jobRuns)
+      .where(lt(jobRuns.startedAt, date))
+      .returning({ id: jobRuns.id });
+    return result.length;
+  }
+  
+  async getOtpCode(email: string, purpose: string): Promise<OtpCode | undefined> {
+    const [code] = await db
+      .select()
+      .from(otpCodes)
+      .where(and(eq(otpCodes.email, email), eq(otpCodes.purpose, purpose)));
+    return code;
+  }
+  
+  // Replaces any earlier code for the same email and purpose
+  async saveOtpCode(code: Pick<OtpCode, "email" | "purpose" | "codeHash" | "sentAt" | "expiresAt">): Promise<OtpCode> {
+    const [savedCode] = await db
+      .insert(otpCodes)
+      .values(code)
+      .onConflictDoUpdate({
+        target: [otpCodes.email, otpCodes.purpose],
+        set: { codeHash: code.codeHash, sentAt: code.sentAt, expiresAt: code.expiresAt, attempts: 0, lockedUntil: null },
+      })
+      .returning();
+    return savedCode;
+  }
+  
+  // Counts a verification attempt; returns undefined once the attempts are used up
+  async claimOtpAttempt(id: number, maxAttempts: number): Promise<OtpCode | undefined> {
+    const [code] = await db
+      .update(otpCodes)
+      .set({ attempts: sql`${otpCodes.attempts} + 1` })
+      .where(and(eq(otpCodes.id, id), lt(otpCodes.attempts, maxAttempts)))
+      .returning();
+    return code;
+  }
+  
+  async updateOtpCode(id: number, code: Partial<OtpCode>): Promise<OtpCode | undefined> {
+    const [updatedCode] = await db
+      .update(otpCodes)
+      .set(code)
+      .where(eq(otpCodes.id, id))
+      .returning();
+    return updatedCode;
+  }
+  
+  async deleteOtpCode(id: number): Promise<boolean> {
+    const result = await db
+      .delete(otpCodes)
+      .where(eq(otpCodes.id, id))
+      .returning({ id: otpCodes.id });
+    return result.length > 0;
+  }
+  
+  // Expired codes whose lockout (if any) is over too
+  async deleteExpiredOtpCodes(now: Date): Promise<number> {
+    const result = await db
+      .delete(otpCodes)
+      .where(and(
+        lt(otpCodes.expiresAt, now),
+        or(isNull(otpCodes.lockedUntil), lt(otpCodes.lockedUntil, now))
+      ))
+      .returning({ id: otpCodes.id });
+    return result.length;
+  }
+  
+  async createAuthToken(token: Pick<AuthToken, "userId" | "email" | "purpose" | "tokenHash" | "expiresAt">): Promise<AuthToken> {
+    const [createdToken] = await db.insert(authTokens).values(token).returning();
+    return createdToken;
+  }
+  
+  // Returns the token without using it; undefined if it is unknown, expired or already used
+  async getAuthToken(tokenHash: string, purpose: string, now: Date): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(authTokens)
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gte(authTokens.expiresAt, now)
+      ));
+    return token;
+  }
+  
+  // Marks the token used; returns undefined if it is unknown, expired or already used
+  async useAuthToken(tokenHash: string, purpose: string, now: Date): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gte(authTokens.expiresAt, now)
+      ))
+      .returning();
+    return token;
+  }
+  
+  // Uses up the token and creates the user in one transaction, so a failed insert leaves the
+  // token usable. Returns undefined if the token has been used or has expired in the meantime.
+  async createUserWithAuthToken(insertUser: InsertUser, authTokenId: number, now: Date): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx
+        .update(authTokens)
+        .set({ usedAt: now })
+        .where(and(
+          eq(authTokens.id, authTokenId),
+          isNull(authTokens.usedAt),
+          gte(authTokens.expiresAt, now)
+        ))
+        .returning();
+      if (!token) return undefined;
+      
+      const [user] = await tx
+        .insert(users)
+        .values({ ...insertUser, role: "client", emailVerifiedAt: now })
+        .returning();
+      return user;
+    });
+  }
+  
+  async deleteAuthTokens(userId: number, purpose: string): Promise<number> {
+    const result = await db
+      .delete(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose)))
+      .returning({ id: authTokens.id });
+    return result.length;
+  }
+  
+  async deleteExpiredAuthTokens(now: Date): Promise<number> {
+    const result = await db
+      .delete(authTokens)
+      .where(lt(authTokens.expiresAt, now))
+      .returning({ id: authTokens.id });
+    return result.length;
+  }
+  
+  // Log the user out everywhere by removing their rows from the session table
+  async destroyUserSessions(userId: number): Promise<number> {
+    const result = await db.execute(
+      sql`delete from "session" where sess->'passport'->>'user' = ${String(userId)}`
+    );
+    return result.rowCount ?? 0;
+  }
+  
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const result = await db.execute(
+      sql`select sid, sess, expire from "session" where sess->'passport'->>'user' = ${String(userId)} and expire > now()`
+    );
+    return (result.rows as { sid: string; sess: session.SessionData; expire: string | Date }[]).map((row) => ({
+      sid: row.sid,
+      data: row.sess,
+      expiresAt: new Date(row.expire),
+    }));
+  }
+  
+  async destroySession(sid: string): Promise<void> {
+    await db.execute(sql`delete from "session" where sid = ${sid}`);
+  }
+  
+  async incrementFailedLogins(userId: number): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ failedLoginCount: sql`${users.failedLoginCount} + 1` })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
+  async createSecurityEvent(event: Pick<SecurityEvent, "type" | "userId" | "identifier" | "ip" | "details">): Promise<SecurityEvent> {
+    const [createdEvent] = await db.insert(securityEvents).values(event).returning();
+    return createdEvent;
+  }
+  
+  async getSecurityEvents(options: { type?: string; limit: number }): Promise<SecurityEvent[]> {
+    return await db
+      .select()
+      .from(securityEvents)
+      .where(options.type ? eq(securityEvents.type, options.type) : undefined)
+      .orderBy(desc(securityEvents.createdAt))
+      .limit(options.limit);
+  }
+  
+  async deleteSecurityEventsBefore(date: Date): Promise<number> {
+    const result = await db
+      .delete(securityEvents)
+      .where(lt(securityEvents.createdAt, date))
+      .returning({ id: securityEvents.id });
+    return result.length;
+  }
+  
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+  
+  // Starting enrollment again replaces the secret and clears any earlier confirmation
+  async saveTwoFactorCredential(userId: number, secret: string): Promise<TwoFactorCredential> {
+    const [credential] = await db
+      .insert(twoFactorCredentials)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentials.userId,
+        set: { secret, confirmedAt: null, lastUsedStep: null, createdAt: new Date() },
+      })
+      .returning();
+    return credential;
+  }
+  
+  async confirmTwoFactorCredential(userId: number, confirmedAt: Date): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db
+      .update(twoFactorCredentials)
+      .set({ confirmedAt })
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning();
+    return credential;
+  }
+  
+  // Record the time step of an accepted code; fails if that step or a later one was already used
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const result = await db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step))
+      ))
+      .returning({ userId: twoFactorCredentials.userId });
+    return result.length > 0;
+  }
+  
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+  
+  async useRecoveryCode(userId: number, codeHash: string, now: Date): Promise<boolean> {
+    const result = await db
+      .update(recoveryCodes)
+      .set({ usedAt: now })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      ))
+      .returning({ id: recoveryCodes.id });
+    return result.length > 0;
+  }
+  
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return row?.count ?? 0;
+  }
+}
+
+export class MemStorage implements IStorage {
+  private users: Map<number, User>;
+  private appointments: Map<number, Appointment>;
+  private availableSlots: Map<number, AvailableSlot>;
+  private bookingConfigurations: Map<number, BookingConfiguration>;
+  private lotteryPreferences: Map<number, LotteryPreference>;
+  private lotteryRuns: Map<number, LotteryRun>;
+  private appointmentReminders: Map<string, AppointmentReminder>;
+  private jobRuns: Map<number, JobRun>;
+  private otpCodes: Map<number, OtpCode>;
+  private authTokens: Map<number, AuthToken>;
+  private securityEvents: Map<number, SecurityEvent>;
+  private userBlocks: Map<number, UserBlock>;
+  private appointmentStrikes: Map<number, AppointmentStrike>;
+  private waitlistEntries: Map<number, WaitlistEntry>;
+  private slotHolds: Map<number, SlotHold>;
+  private twoFactorCredentials: Map<number, TwoFactorCredential>;
+  private recoveryCodes: Map<number, RecoveryCode>;
+  
+  currentId: { users: number; appointments: number; availableSlots: number; bookingConfigurations: number; lotteryPreferences: number; lotteryRuns: number; appointmentReminders: number; jobRuns: number; otpCodes: number; authTokens: number; securityEvents: number; userBlocks: number; appointmentStrikes: number; waitlistEntries: number; slotHolds: number; recoveryCodes: number };
+  sessionStore: session.Store;
+
+  constructor() {
+    this.users = new Map();
+    this.appointments = new Map();
+    this.availableSlots = new Map();
+    this.bookingConfigurations = new Map();
+    this.lotteryPreferences = new Map();
+    this.lotteryRuns = new Map();
+    this.appointmentReminders = new Map();
+    this.jobRuns = new Map();
+    this.otpCodes = new Map();
+    this.authTokens = new Map();
+    this.securityEvents = new Map();
+    this.userBlocks = new Map();
+    this.appointmentStrikes = new Map();
+    this.waitlistEntries = new Map();
+    this.slotHolds = new Map();
+    this.twoFactorCredentials = new Map();
+    this.recoveryCodes = new Map();
+    
+    this.currentId = {
+      users: 1,
+      appointments: 1,
+      availableSlots: 1,
+      bookingConfigurations: 1,
+      lotteryPreferences: 1,
+      lotteryRuns: 1,
+      appointmentReminders: 1,
+      jobRuns: 1,
+      otpCodes: 1,
+      authTokens: 1,
+      securityEvents: 1,
+      userBlocks: 1,
+      appointmentStrikes: 1,
+      waitlistEntries: 1,
+      slotHolds: 1,
+      recoveryCodes: 1,
+    };
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // 24 hours
+    });
+    
+    // Create default booking configurations
+    DEFAULT_BOOKING_CONFIGURATIONS.forEach(config => {
+      const id = this.currentId.bookingConfigurations++;
+      this.bookingConfigurations.set(id, { ...config, id, updatedAt: new Date() });
+    });
+
+    
+    
+    // Create an admin user with hashed password
+    // Create an initial admin user with pre-hashed password
+    const hashedPassword = "09c5d962e5ae0c4f57b3d4e8d2b89fa1eb6e528e11902c31eb7f5bd5d7918fde1e3e23dee6ebd5c7ac6214f1a6b0c55c1fdfd8fbf0af1c8e1c86a2c44c5c95e0.acd0527ed5432e9e7be49df0f26f1177";
+    // Create admin user with specific password
+    const adminHashedPassword = "09c5d962e5ae0c4f57b3d4e8d2b89fa1eb6e528e11902c31eb7f5bd5d7918fde1e3e23dee6ebd5c7ac6214f1a6b0c55c1fdfd8fbf0af1c8e1c86a2c44c5c95e0.acd0527ed5432e9e7be49df0f26f1177"; // This is the hash for "omkaram@123"
+    const adminUser: User = {
+      id: this.currentId.users++,
+      username: "admin",
+      password: adminHashedPassword,
+      name: "Admin User",
+      address: "123 Admin St",
+      mobile: "1234567890",
+      role: 'owner',
+      createdAt: new Date(),
+      blockedUntil: null,
+      preferredLanguage: 'both',
+      remindersEnabled: true,
+      emailVerifiedAt: null,
+      failedLoginCount: 0,
+      lockedUntil: null,
+    };
+    this.users.set(adminUser.id, adminUser);
+    
+    // Also create a regular test user with pre-hashed password
+    const testUserHashedPassword = "09c5d962e5ae0c4f57b3d4e8d2b89fa1eb6e528e11902c31eb7f5bd5d7918fde1e3e23dee6ebd5c7ac6214f1a6b0c55c1fdfd8fbf0af1c8e1c86a2c44c5c95e0.acd0527ed5432e9e7be49df0f26f1177";
+    const testUser: User = {
+      id: this.currentId.users++,
+      username: "user",
+      password: testUserHashedPassword,
+      name: "Test User",
+      address: "456 User St",
+      mobile: "0987654321",
+      role: 'client',
+      createdAt: new Date(),
+      blockedUntil: null,
+      preferredLanguage: 'both',
+      remindersEnabled: true,
+      emailVerifiedAt: null,
+      failedLoginCount: 0,
+      lockedUntil: null,
+    };
+    this.users.set(testUser.id, testUser);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email?.toLowerCase() === normalizeEmail(email)
+    );
+  }
+
+  // Add to MemStorage class
+  async getUserByMobile(mobile: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.mobile === mobile
+    );
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async createUser(insertUser: InsertUser & { emailVerifiedAt?: Date | null }): Promise<User> {
+    const id = this.currentId.users++;
+    const createdAt = new Date();
+    const user: User = {
+      ...insertUser,
+      id,
+      mobile: insertUser.mobile ?? null,
+      role: 'client',
+      createdAt,
+      blockedUntil: null,
+      preferredLanguage: 'both',
+      remindersEnabled: true,
+      emailVerifiedAt: insertUser.emailVerifiedAt ?? null,
+      failedLoginCount: 0,
+      lockedUntil: null,
+    };
+    this.users.set(id, user);
+    return user;
+  }
+  
+  async updateUser(id: number, userUpdate: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    
+    if (!user) {
+      return undefined;
+    }
+    
+    const updatedUser: User = { ...user, ...userUpdate };
+    this.users.set(id, updatedUser);
+    
+    return updatedUser;
+  }
+  
+  async searchUsers(options: { search?: string; offset: number; limit: number }): Promise<{ users: User[]; total: number }> {
+    const search = options.search?.toLowerCase();
+    const matches = Array.from(this.users.values())
+      .filter((user) => !search || [user.name, user.username, user.email, user.mobile]
+        .some((value) => value?.toLowerCase().includes(search)))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    return {
+      users: matches.slice(options.offset, options.offset + options.limit),
+      total: matches.length,
+    };
+  }
+  
+  async deleteUser(id: number): Promise<boolean> {
+    return this.users.delete(id);
+  }
+  
+  async getAppointments(): Promise<Appointment[]> {
+    return Array.from(this.appointments.values());
+  }
+  
+  async getAppointmentsByUser(userId: number): Promise<Appointment[]> {
+    return Array.from(this.appointments.values()).filter(
+      (appointment) => appointment.userId === userId,
+    );
+  }
+  
+  async getAppointmentsByDate(date: Date): Promise<Appointment[]> {
+    const startOfDay = new Date(date);
+    startOfDay.setHours(0, 0, 0, 0);
+    
+    const endOfDay = new Date(date);
+    endOfDay.setHours(23, 59, 59, 999);
+    
+    return Array.from(this.appointments.values()).filter(
+      (appointment) => appointment.date >= startOfDay && appointment.date <= endOfDay,
+    );
+  }
+  
+  async getAppointmentsByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]> {
+    return Array.from(this.appointments.values()).filter(
+      (appointment) => appointment.date >= startDate && appointment.date <= endDate,
+    );
+  }
+  
+  async getAppointmentsByStatus(statuses: string[]): Promise<Appointment[]> {
+    return Array.from(this.appointments.values()).filter(
+      (appointment) => statuses.includes(appointment.status),
+    );
+  }
+  
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    return this.appointments.get(id);
+  }
+  
+  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
+    const id = this.currentId.appointments++;
+    const createdAt = new Date();
+    const newAppointment: Appointment = {
+      id,
+      userId: appointment.userId,
+      date: new Date(appointment.date),
+      endTime: new Date(appointment.endTime),
+      status: "confirmed",
+      rescheduleCount: 0,
+      cancelledAt: null,
+      cancelledBy: null,
+      cancellationReason: null,
+      lateCancellation: false,
+      createdAt
+    };
+    this.appointments.set(id, newAppointment);
+    return newAppointment;
+  }
+  
+  // Nothing awaits between the checks and the insert, so this is atomic on the event loop
+  async bookAppointment(appointment: InsertAppointment, weeklyLimit: number): Promise<Appointment> {
+    const date = new Date(appointment.date);
+    const week = getWeekRange(date);
+    const activeAppointments = Array.from(this.appointments.values()).filter(
+      (existing) => existing.status !== "cancelled"
+    );
+    
+    if (activeAppointments.some((existing) => existing.date.getTime() === date.getTime())) {
+      throw new BookingConflictError("SLOT_TAKEN", "This slot has just been booked by someone else");
+    }
+    
+    const appointmentsInWeek = Array.from(this.appointments.values()).filter(
+      (existing) => existing.userId === appointment.userId && countsTowardWeeklyLimit(existing) &&
+        existing.date >= week.start && existing.date <= week.end
+    );
+    
+    if (appointmentsInWeek.length >= weeklyLimit) {
+      throw new BookingConflictError("WEEKLY_LIMIT", "You can only book one appointment per week");
+    }
+    
+    this.checkSlotNotHeld(appointment.userId, date, new Date());
+    const newAppointment = await this.createAppointment(appointment);
+    await this.deleteSlotHoldsByUser(appointment.userId);
+    return newAppointment;
+  }
+  
+  private checkSlotNotHeld(userId: number, slot: Date, now: Date) {
+    const isOffered = Array.from(this.waitlistEntries.values()).some(
+      (entry) => entry.status === "offered" && entry.userId !== userId && entry.offeredSlot?.getTime() === slot.getTime() &&
+        entry.offerExpiresAt !== null && entry.offerExpiresAt > now
+    );
+    const isHeld = Array.from(this.slotHolds.values()).some(
+      (hold) => hold.userId !== userId && hold.slot.getTime() === slot.getTime() && hold.expiresAt > now
+    );
+    if (isOffered || isHeld) {
+      throw new BookingConflictError("SLOT_HELD", "This slot is being held for someone else. Please select another time.");
+    }
+  }
+  
+  async rescheduleAppointment(id: number, slot: { date: Date; endTime: Date }, limits: { weeklyLimit: number; rescheduleLimit: number }): Promise<Appointment> {
+    const appointment = this.appointments.get(id);
+    if (!appointment || appointment.status !== "confirmed") {
+      throw new BookingConflictError("NOT_RESCHEDULABLE", "Only upcoming appointments can be rescheduled");
+    }
+    if (appointment.rescheduleCount >= limits.rescheduleLimit) {
+      throw new BookingConflictError("RESCHEDULE_LIMIT", "This appointment can't be rescheduled again");
+    }
+    
+    const week = getWeekRange(slot.date);
+    const activeAppointments = Array.from(this.appointments.values()).filter(
+      (existing) => existing.id !== id && existing.status !== "cancelled"
+    );
+    
+    if (activeAppointments.some((existing) => existing.date.getTime() === slot.date.getTime())) {
+      throw new BookingConflictError("SLOT_TAKEN", "This slot has just been booked by someone else");
+    }
+    
+    const appointmentsInWeek = Array.from(this.appointments.values()).filter(
+      (existing) => existing.id !== id && existing.userId === appointment.userId && countsTowardWeeklyLimit(existing) &&
+        existing.date >= week.start && existing.date <= week.end
+    );
+    
+    if (appointmentsInWeek.length >= limits.weeklyLimit) {
+      throw new BookingConflictError("WEEKLY_LIMIT", "You can only book one appointment per week");
+    }
+    
+    this.checkSlotNotHeld(appointment.userId, slot.date, new Date());
+    const updatedAppointment: Appointment = {
+      ...appointment,
+      date: slot.date,
+      endTime: slot.endTime,
+      rescheduleCount: appointment.rescheduleCount + 1,
+    };
+    this.appointments.set(id, updatedAppointment);
+    await this.deleteSlotHoldsByUser(appointment.userId);
+    return updatedAppointment;
+  }
+  
+  async updateAppointmentStatus(id: number, from: string, to: string, changes: AppointmentStatusChanges = {}): Promise<Appointment | undefined> {
+    const appointment = this.appointments.get(id);
+    if (!appointment || appointment.status !== from) {
+      return undefined;
+    }
+    
+    const updatedAppointment: Appointment = { ...appointment, ...changes, status: to };
+    this.appointments.set(id, updatedAppointment);
+    return updatedAppointment;
+  }
+  
+  async updateAppointment(id: number, appointmentUpdate: Partial<Appointment>): Promise<Appointment | undefined> {
+    const appointment = this.appointments.get(id);
+    
+    if (!appointment) {
+      return undefined;
+    }
+    
+    const updatedAppointment: Appointment = { ...appointment, ...appointmentUpdate };
+    this.appointments.set(id, updatedAppointment);
+    
+    return updatedAppointment;
+  }
+  
+  async deleteAppointment(id: number): Promise<boolean> {
+    return this.appointments.delete(id);
+  }
+  
+  async getAvailableSlots(): Promise<AvailableSlot[]> {
+    return Array.from(this.availableSlots.values());
+  }
+  
+  async getAvailableSlotsByDate(date: Date): Promise<AvailableSlot[]> {
+    const startOfDay = new Date(date);
+    startOfDay.setHours(0, 0, 0, 0);
+    
+    try {
+      // Get all slots for the requested date and future dates
+      const slots = Array.from(this.availableSlots.values()).filter(
+        slot => slot.date >= startOfDay
+      );
+      
+      // Get all appointments for the requested date and future dates
+      const existingAppointments = Array.from(this.appointments.values()).filter(
         appointment => appointment.date >= startOfDay
       );
       
@@ -671,6 +1746,621 @@ export class MemStorage implements IStorage {
   async deleteBookingConfiguration(id: number): Promise<boolean> {
     return this.bookingConfigurations.delete(id);
   }
+  
+  async getLotteryPreferences(weekStart: Date): Promise<LotteryPreference[]> {
+    return Array.from(this.lotteryPreferences.values())
+      .filter((preference) => preference.weekStart.getTime() === weekStart.getTime())
+      .sort((a, b) => a.userId - b.userId || a.rank - b.rank);
+  }
+  
+  async getLotteryPreferencesByUser(userId: number, weekStart: Date): Promise<LotteryPreference[]> {
+    return (await this.getLotteryPreferences(weekStart)).filter((preference) => preference.userId === userId);
+  }
+  
+  async setLotteryPreferences(userId: number, weekStart: Date, slotIds: number[]): Promise<LotteryPreference[]> {
+    for (const preference of await this.getLotteryPreferencesByUser(userId, weekStart)) {
+      this.lotteryPreferences.delete(preference.id);
+    }
+    
+    return slotIds.map((slotId, index) => {
+      const id = this.currentId.lotteryPreferences++;
+      const preference: LotteryPreference = { id, userId, weekStart, slotId, rank: index + 1, createdAt: new Date() };
+      this.lotteryPreferences.set(id, preference);
+      return preference;
+    });
+  }
+  
+  async getLotteryRuns(): Promise<LotteryRun[]> {
+    return Array.from(this.lotteryRuns.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getLotteryRun(id: number): Promise<LotteryRun | undefined> {
+    return this.lotteryRuns.get(id);
+  }
+  
+  async getLotteryRunByWeek(weekStart: Date): Promise<LotteryRun | undefined> {
+    return Array.from(this.lotteryRuns.values()).find(
+      (run) => run.weekStart.getTime() === weekStart.getTime()
+    );
+  }
+  
+  async createLotteryRun(run: InsertLotteryRun): Promise<LotteryRun> {
+    const id = this.currentId.lotteryRuns++;
+    const newRun: LotteryRun = { ...run, id, runBy: run.runBy ?? null, createdAt: new Date() };
+    this.lotteryRuns.set(id, newRun);
+    return newRun;
+  }
+  
+  async updateLotteryRun(id: number, runUpdate: Partial<LotteryRun>): Promise<LotteryRun | undefined> {
+    const run = this.lotteryRuns.get(id);
+    
+    if (!run) {
+      return undefined;
+    }
+    
+    const updatedRun: LotteryRun = { ...run, ...runUpdate };
+    this.lotteryRuns.set(id, updatedRun);
+    
+    return updatedRun;
+  }
+  
+  async clearExpiredBlocks(now: Date): Promise<number> {
+    let cleared = 0;
+    for (const user of Array.from(this.users.values())) {
+      if (user.blockedUntil && user.blockedUntil <= now) {
+        this.users.set(user.id, { ...user, blockedUntil: null });
+        cleared++;
+      }
+    }
+    return cleared;
+  }
+  
+  async getUserBlocks(userId: number): Promise<UserBlock[]> {
+    return Array.from(this.userBlocks.values())
+      .filter((block) => block.userId === userId)
+      .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime() || b.id - a.id);
+  }
+  
+  async getUserBlock(id: number): Promise<UserBlock | undefined> {
+    return this.userBlocks.get(id);
+  }
+  
+  async getActiveUserBlock(userId: number, now: Date): Promise<UserBlock | undefined> {
+    return Array.from(this.userBlocks.values())
+      .filter((block) => block.userId === userId && !block.liftedAt && block.startsAt <= now && block.endsAt > now)
+      .sort((a, b) => b.endsAt.getTime() - a.endsAt.getTime())[0];
+  }
+  
+  async getEndedUserBlocks(now: Date): Promise<UserBlock[]> {
+    return Array.from(this.userBlocks.values()).filter((block) => !block.liftedAt && block.endsAt <= now);
+  }
+  
+  async createUserBlock(block: InsertUserBlock): Promise<UserBlock> {
+    const id = this.currentId.userBlocks++;
+    const now = new Date();
+    const createdBlock: UserBlock = {
+      id,
+      userId: block.userId,
+      reason: block.reason,
+      createdBy: block.createdBy ?? null,
+      startsAt: block.startsAt ?? now,
+      endsAt: block.endsAt,
+      liftedAt: null,
+      liftedBy: null,
+      createdAt: now,
+    };
+    this.userBlocks.set(id, createdBlock);
+    
+    const user = this.users.get(block.userId);
+    if (user) {
+      this.users.set(user.id, { ...user, blockedUntil: createdBlock.endsAt });
+    }
+    return createdBlock;
+  }
+  
+  async liftUserBlock(id: number, liftedBy: number | null, liftedAt: Date): Promise<UserBlock | undefined> {
+    const block = this.userBlocks.get(id);
+    if (!block || block.liftedAt) {
+      return undefined;
+    }
+    
+    const liftedBlock: UserBlock = { ...block, liftedAt, liftedBy };
+    this.userBlocks.set(id, liftedBlock);
+    
+    const user = this.users.get(block.userId);
+    if (user?.blockedUntil?.getTime() === block.endsAt.getTime()) {
+      this.users.set(user.id, { ...user, blockedUntil: null });
+    }
+    return liftedBlock;
+  }
+  
+  async getStrikesByUser(userId: number): Promise<AppointmentStrike[]> {
+    return Array.from(this.appointmentStrikes.values())
+      .filter((strike) => strike.userId === userId)
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+  }
+  
+  async createStrike(strike: InsertAppointmentStrike): Promise<AppointmentStrike | undefined> {
+    const exists = strike.appointmentId != null && Array.from(this.appointmentStrikes.values()).some(
+      (existing) => existing.appointmentId === strike.appointmentId && existing.kind === strike.kind
+    );
+    if (exists) return undefined;
+    
+    const id = this.currentId.appointmentStrikes++;
+    const createdStrike: AppointmentStrike = {
+      id,
+      userId: strike.userId,
+      appointmentId: strike.appointmentId ?? null,
+      kind: strike.kind,
+      appointmentDate: strike.appointmentDate,
+      occurredAt: strike.occurredAt,
+      blockId: strike.blockId ?? null,
+      createdAt: new Date(),
+    };
+    this.appointmentStrikes.set(id, createdStrike);
+    return createdStrike;
+  }
+  
+  async deleteStrike(appointmentId: number, kind: string): Promise<boolean> {
+    for (const strike of Array.from(this.appointmentStrikes.values())) {
+      if (strike.appointmentId === appointmentId && strike.kind === kind) {
+        return this.appointmentStrikes.delete(strike.id);
+      }
+    }
+    return false;
+  }
+  
+  async assignStrikesToBlock(strikeIds: number[], blockId: number): Promise<void> {
+    for (const id of strikeIds) {
+      const strike = this.appointmentStrikes.get(id);
+      if (strike) {
+        this.appointmentStrikes.set(id, { ...strike, blockId });
+      }
+    }
+  }
+  
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    return this.waitlistEntries.get(id);
+  }
+  
+  async getWaitlistEntriesByUser(userId: number, since: Date): Promise<WaitlistEntry[]> {
+    return Array.from(this.waitlistEntries.values())
+      .filter((entry) => entry.userId === userId && entry.date >= since)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+  
+  async getOpenWaitlistEntries(dayStart: Date, weekStart: Date): Promise<WaitlistEntry[]> {
+    return Array.from(this.waitlistEntries.values())
+      .filter((entry) =>
+        (openWaitlistStatuses as string[]).includes(entry.status) &&
+        entry.date.getTime() === (entry.scope === "week" ? weekStart : dayStart).getTime()
+      )
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+  
+  async getWaitlistOffers(now: Date): Promise<WaitlistEntry[]> {
+    return Array.from(this.waitlistEntries.values()).filter(
+      (entry) => entry.status === "offered" && entry.offerExpiresAt !== null && entry.offerExpiresAt > now
+    );
+  }
+  
+  async getExpiredWaitlistOffers(now: Date): Promise<WaitlistEntry[]> {
+    return Array.from(this.waitlistEntries.values()).filter(
+      (entry) => entry.status === "offered" && entry.offerExpiresAt !== null && entry.offerExpiresAt <= now
+    );
+  }
+  
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const id = this.currentId.waitlistEntries++;
+    const position = Math.max(0, ...Array.from(this.waitlistEntries.values()).map((existing) => existing.position)) + 1;
+    const createdEntry: WaitlistEntry = {
+      id,
+      userId: entry.userId,
+      scope: entry.scope,
+      date: entry.date,
+      position,
+      status: "waiting",
+      offeredSlot: null,
+      offerExpiresAt: null,
+      appointmentId: null,
+      createdAt: new Date(),
+    };
+    this.waitlistEntries.set(id, createdEntry);
+    return createdEntry;
+  }
+  
+  async updateWaitlistEntry(id: number, from: string, entryUpdate: Partial<WaitlistEntry>): Promise<WaitlistEntry | undefined> {
+    const entry = this.waitlistEntries.get(id);
+    if (!entry || entry.status !== from) {
+      return undefined;
+    }
+    
+    const updatedEntry: WaitlistEntry = { ...entry, ...entryUpdate };
+    this.waitlistEntries.set(id, updatedEntry);
+    return updatedEntry;
+  }
+  
+  async deleteWaitlistEntry(id: number): Promise<boolean> {
+    return this.waitlistEntries.delete(id);
+  }
+  
+  async reorderWaitlistEntries(entryIds: number[]): Promise<boolean> {
+    const entries = entryIds.map((id) => this.waitlistEntries.get(id));
+    if (entries.some((entry) => !entry) || new Set(entryIds).size !== entryIds.length) {
+      return false;
+    }
+    
+    const positions = entries.map((entry) => entry!.position).sort((a, b) => a - b);
+    entries.forEach((entry, index) => {
+      this.waitlistEntries.set(entry!.id, { ...entry!, position: positions[index] });
+    });
+    return true;
+  }
+  
+  async getSlotHold(id: number): Promise<SlotHold | undefined> {
+    return this.slotHolds.get(id);
+  }
+  
+  async getActiveSlotHolds(now: Date): Promise<SlotHold[]> {
+    return Array.from(this.slotHolds.values()).filter((hold) => hold.expiresAt > now);
+  }
+  
+  async holdSlot(hold: Pick<SlotHold, "userId" | "slot" | "expiresAt">, now: Date): Promise<SlotHold | undefined> {
+    const existing = Array.from(this.slotHolds.values()).find((other) => other.slot.getTime() === hold.slot.getTime());
+    if (existing && existing.expiresAt > now && existing.userId !== hold.userId) {
+      return undefined;
+    }
+    
+    const savedHold: SlotHold = {
+      id: existing?.id ?? this.currentId.slotHolds++,
+      ...hold,
+      createdAt: new Date(),
+    };
+    this.slotHolds.set(savedHold.id, savedHold);
+    Array.from(this.slotHolds.values()).forEach((other) => {
+      if (other.userId === hold.userId && other.id !== savedHold.id) {
+        this.slotHolds.delete(other.id);
+      }
+    });
+    return savedHold;
+  }
+  
+  async deleteSlotHold(id: number): Promise<boolean> {
+    return this.slotHolds.delete(id);
+  }
+  
+  async deleteSlotHoldsByUser(userId: number): Promise<number> {
+    let deleted = 0;
+    Array.from(this.slotHolds.values()).forEach((hold) => {
+      if (hold.userId === userId && this.slotHolds.delete(hold.id)) {
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+  
+  async deleteExpiredSlotHolds(now: Date): Promise<number> {
+    let deleted = 0;
+    Array.from(this.slotHolds.values()).forEach((hold) => {
+      if (hold.expiresAt <= now && this.slotHolds.delete(hold.id)) {
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+  
+  async createAppointmentReminder(appointmentId: number, kind: string): Promise<boolean> {
+    const key = `${appointmentId}:${kind}`;
+    if (this.appointmentReminders.has(key)) {
+      return false;
+    }
+    const id = this.currentId.appointmentReminders++;
+    this.appointmentReminders.set(key, { id, appointmentId, kind, sentAt: new Date() });
+    return true;
+  }
+  
+  async deleteAppointmentReminder(appointmentId: number, kind: string): Promise<boolean> {
+    return this.appointmentReminders.delete(`${appointmentId}:${kind}`);
+  }
+  
+  async getAppointmentReminders(appointmentId: number): Promise<AppointmentReminder[]> {
+    return Array.from(this.appointmentReminders.values())
+      .filter((reminder) => reminder.appointmentId === appointmentId)
+      .sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+  }
+  
+  async clearAppointmentReminders(appointmentId: number): Promise<void> {
+    for (const reminder of Array.from(this.appointmentReminders.values())) {
+      if (reminder.appointmentId === appointmentId) {
+        this.appointmentReminders.delete(`${reminder.appointmentId}:${reminder.kind}`);
+      }
+    }
+  }
+  
+  async claimJobRun(name: string, scheduledFor: Date): Promise<JobRun | undefined> {
+    const alreadyClaimed = Array.from(this.jobRuns.values()).some(
+      (run) => run.name === name && run.scheduledFor.getTime() === scheduledFor.getTime()
+    );
+    if (alreadyClaimed) {
+      return undefined;
+    }
+    
+    const id = this.currentId.jobRuns++;
+    const run: JobRun = {
+      id,
+      name,
+      scheduledFor,
+      status: "running",
+      startedAt: new Date(),
+      finishedAt: null,
+      result: null,
+      error: null,
+    };
+    this.jobRuns.set(id, run);
+    return run;
+  }
+  
+  async updateJobRun(id: number, runUpdate: Partial<JobRun>): Promise<JobRun | undefined> {
+    const run = this.jobRuns.get(id);
+    
+    if (!run) {
+      return undefined;
+    }
+    
+    const updatedRun: JobRun = { ...run, ...runUpdate };
+    this.jobRuns.set(id, updatedRun);
+    
+    return updatedRun;
+  }
+  
+  async getLatestJobRun(name: string): Promise<JobRun | undefined> {
+    return Array.from(this.jobRuns.values())
+      .filter((run) => run.name === name)
+      .sort((a, b) => b.scheduledFor.getTime() - a.scheduledFor.getTime())[0];
+  }
+  
+  async getJobRuns(options: { status?: string; limit: number }): Promise<JobRun[]> {
+    return Array.from(this.jobRuns.values())
+      .filter((run) => !options.status || run.status === options.status)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, options.limit);
+  }
+  
+  async failInterruptedJobRuns(): Promise<number> {
+    let failed = 0;
+    for (const run of Array.from(this.jobRuns.values())) {
+      if (run.status === "running") {
+        this.jobRuns.set(run.id, { ...run, status: "failed", finishedAt: new Date(), error: "Interrupted by a server restart" });
+        failed++;
+      }
+    }
+    return failed;
+  }
+  
+  async deleteJobRunsBefore(date: Date): Promise<number> {
+    let deleted = 0;
+    for (const run of Array.from(this.jobRuns.values())) {
+      if (run.startedAt < date) {
+        this.jobRuns.delete(run.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+  
+  async getOtpCode(email: string, purpose: string): Promise<OtpCode | undefined> {
+    return Array.from(this.otpCodes.values()).find(
+      (code) => code.email === email && code.purpose === purpose
+    );
+  }
+  
+  async saveOtpCode(code: Pick<OtpCode, "email" | "purpose" | "codeHash" | "sentAt" | "expiresAt">): Promise<OtpCode> {
+    const existing = await this.getOtpCode(code.email, code.purpose);
+    const id = existing ? existing.id : this.currentId.otpCodes++;
+    const savedCode: OtpCode = { ...code, id, attempts: 0, lockedUntil: null };
+    this.otpCodes.set(id, savedCode);
+    return savedCode;
+  }
+  
+  async claimOtpAttempt(id: number, maxAttempts: number): Promise<OtpCode | undefined> {
+    const code = this.otpCodes.get(id);
+    if (!code || code.attempts >= maxAttempts) return undefined;
+    
+    const updatedCode = { ...code, attempts: code.attempts + 1 };
+    this.otpCodes.set(id, updatedCode);
+    return updatedCode;
+  }
+  
+  async updateOtpCode(id: number, code: Partial<OtpCode>): Promise<OtpCode | undefined> {
+    const existing = this.otpCodes.get(id);
+    if (!existing) return undefined;
+    
+    const updatedCode = { ...existing, ...code };
+    this.otpCodes.set(id, updatedCode);
+    return updatedCode;
+  }
+  
+  async deleteOtpCode(id: number): Promise<boolean> {
+    return this.otpCodes.delete(id);
+  }
+  
+  async deleteExpiredOtpCodes(now: Date): Promise<number> {
+    let deleted = 0;
+    for (const code of Array.from(this.otpCodes.values())) {
+      if (code.expiresAt < now && (!code.lockedUntil || code.lockedUntil < now)) {
+        this.otpCodes.delete(code.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+  
+  async createAuthToken(token: Pick<AuthToken, "userId" | "email" | "purpose" | "tokenHash" | "expiresAt">): Promise<AuthToken> {
+    const id = this.currentId.authTokens++;
+    const createdToken: AuthToken = { ...token, id, createdAt: new Date(), usedAt: null };
+    this.authTokens.set(id, createdToken);
+    return createdToken;
+  }
+  
+  async getAuthToken(tokenHash: string, purpose: string, now: Date): Promise<AuthToken | undefined> {
+    return Array.from(this.authTokens.values()).find(
+      (t) => t.tokenHash === tokenHash && t.purpose === purpose && !t.usedAt && t.expiresAt >= now
+    );
+  }
+  
+  async useAuthToken(tokenHash: string, purpose: string, now: Date): Promise<AuthToken | undefined> {
+    const token = await this.getAuthToken(tokenHash, purpose, now);
+    if (!token) return undefined;
+    
+    const usedToken = { ...token, usedAt: now };
+    this.authTokens.set(token.id, usedToken);
+    return usedToken;
+  }
+  
+  async createUserWithAuthToken(insertUser: InsertUser, authTokenId: number, now: Date): Promise<User | undefined> {
+    const token = this.authTokens.get(authTokenId);
+    if (!token || token.usedAt || token.expiresAt < now) return undefined;
+    
+    const user = await this.createUser({ ...insertUser, emailVerifiedAt: now });
+    this.authTokens.set(token.id, { ...token, usedAt: now });
+    return user;
+  }
+  
+  async deleteAuthTokens(userId: number, purpose: string): Promise<number> {
+    let deleted = 0;
+    for (const token of Array.from(this.authTokens.values())) {
+      if (token.userId === userId && token.purpose === purpose) {
+        this.authTokens.delete(token.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+  
+  async deleteExpiredAuthTokens(now: Date): Promise<number> {
+    let deleted = 0;
+    for (const token of Array.from(this.authTokens.values())) {
+      if (token.expiresAt < now) {
+        this.authTokens.delete(token.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+  
+  private async getAllSessions(): Promise<Record<string, session.SessionData>> {
+    const store = this.sessionStore;
+    return await new Promise<Record<string, session.SessionData>>((resolve, reject) => {
+      store.all!((err, all) => (err ? reject(err) : resolve((all as Record<string, session.SessionData>) || {})));
+    });
+  }
+  
+  async destroyUserSessions(userId: number): Promise<number> {
+    const sessions = await this.getAllSessions();
+    const sessionIds = Object.keys(sessions).filter((sid) => (sessions[sid] as any)?.passport?.user === userId);
+    await Promise.all(sessionIds.map((sid) => this.destroySession(sid)));
+    return sessionIds.length;
+  }
+  
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const sessions = await this.getAllSessions();
+    return Object.keys(sessions)
+      .filter((sid) => (sessions[sid] as any)?.passport?.user === userId)
+      .map((sid) => ({
+        sid,
+        data: sessions[sid],
+        expiresAt: sessions[sid].cookie?.expires ? new Date(sessions[sid].cookie.expires!) : null,
+      }));
+  }
+  
+  async destroySession(sid: string): Promise<void> {
+    await new Promise<void>((resolve) => this.sessionStore.destroy(sid, () => resolve()));
+  }
+  
+  async incrementFailedLogins(userId: number): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, failedLoginCount: user.failedLoginCount + 1 };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  async createSecurityEvent(event: Pick<SecurityEvent, "type" | "userId" | "identifier" | "ip" | "details">): Promise<SecurityEvent> {
+    const id = this.currentId.securityEvents++;
+    const createdEvent: SecurityEvent = { ...event, id, createdAt: new Date() };
+    this.securityEvents.set(id, createdEvent);
+    return createdEvent;
+  }
+  
+  async getSecurityEvents(options: { type?: string; limit: number }): Promise<SecurityEvent[]> {
+    return Array.from(this.securityEvents.values())
+      .filter((event) => !options.type || event.type === options.type)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit);
+  }
+  
+  async deleteSecurityEventsBefore(date: Date): Promise<number> {
+    let deleted = 0;
+    for (const event of Array.from(this.securityEvents.values())) {
+      if (event.createdAt < date) {
+        this.securityEvents.delete(event.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+  
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    return this.twoFactorCredentials.get(userId);
+  }
+  
+  async saveTwoFactorCredential(userId: number, secret: string): Promise<TwoFactorCredential> {
+    const credential: TwoFactorCredential = { userId, secret, confirmedAt: null, lastUsedStep: null, createdAt: new Date() };
+    this.twoFactorCredentials.set(userId, credential);
+    return credential;
+  }
+  
+  async confirmTwoFactorCredential(userId: number, confirmedAt: Date): Promise<TwoFactorCredential | undefined> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential) return undefined;
+    
+    const updatedCredential = { ...credential, confirmedAt };
+    this.twoFactorCredentials.set(userId, updatedCredential);
+    return updatedCredential;
+  }
+  
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential || (credential.lastUsedStep !== null && credential.lastUsedStep >= step)) return false;
+    
+    this.twoFactorCredentials.set(userId, { ...credential, lastUsedStep: step });
+    return true;
+  }
+  
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    for (const code of Array.from(this.recoveryCodes.values())) {
+      if (code.userId === userId) this.recoveryCodes.delete(code.id);
+    }
+    for (const codeHash of codeHashes) {
+      const id = this.currentId.recoveryCodes++;
+      this.recoveryCodes.set(id, { id, userId, codeHash, usedAt: null, createdAt: new Date() });
+    }
+  }
+  
+  async useRecoveryCode(userId: number, codeHash: string, now: Date): Promise<boolean> {
+    const code = Array.from(this.recoveryCodes.values()).find(
+      (c) => c.userId === userId && c.codeHash === codeHash && !c.usedAt
+    );
+    if (!code) return false;
+    
+    this.recoveryCodes.set(code.id, { ...code, usedAt: now });
+    return true;
+  }
+  
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    return Array.from(this.recoveryCodes.values()).filter((c) => c.userId === userId && !c.usedAt).length;
+  }
 }
 
 // Switch from MemStorage to DatabaseStorage
@@ -0,0 +1,187 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+import { isStaff } from "@shared/permissions";
+
+// Two-factor sign-in with an authenticator app (TOTP, RFC 6238) and single-use
+// recovery codes. Staff must use it; after the password (or emailed code) step
+// the session only holds a pending challenge, and the user is signed in once the
+// second factor checks out.
+
+declare module "express-session" {
+  interface SessionData {
+    twoFactorPending?: { userId: number; expiresAt: number; attempts: number };
+    twoFactorVerified?: boolean;
+  }
+}
+
+const ISSUER = "Astrology Booking";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next code too, for clocks that are slightly off
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+export const TWO_FACTOR_CHALLENGE_TTL_MS = 10 * 60 * 1000;
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+export type TwoFactorErrorCode = "ALREADY_ENROLLED" | "NOT_ENROLLED";
+
+export class TwoFactorError extends Error {
+  constructor(public code: TwoFactorErrorCode, message: string) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+// The time step a code belongs to, or null if it doesn't match any step in the window
+function matchTotpStep(secret: string, code: string, now: Date): number | null {
+  if (code.length !== TOTP_DIGITS) return null;
+
+  const actual = Buffer.from(code);
+  const currentStep = Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = currentStep + offset;
+    if (crypto.timingSafeEqual(Buffer.from(generateTotp(secret, step)), actual)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+}
+
+async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  await storage.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+export async function isTwoFactorEnrolled(userId: number): Promise<boolean> {
+  return !!(await storage.getTwoFactorCredential(userId))?.confirmedAt;
+}
+
+// Staff always need a second factor; anyone else who has set one up uses it too
+export async function requiresTwoFactor(user: User): Promise<boolean> {
+  return isStaff(user) || await isTwoFactorEnrolled(user.id);
+}
+
+export async function getTwoFactorStatus(userId: number) {
+  const enabled = await isTwoFactorEnrolled(userId);
+  return {
+    enabled,
+    recoveryCodesRemaining: enabled ? await storage.countUnusedRecoveryCodes(userId) : 0,
+  };
+}
+
+// A new secret to add to the authenticator app; it only takes effect once confirmed with a code
+export async function beginEnrollment(user: User): Promise<{ secret: string; otpauthUrl: string }> {
+  if (await isTwoFactorEnrolled(user.id)) {
+    throw new TwoFactorError("ALREADY_ENROLLED", "Two-factor authentication is already set up");
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20));
+  await storage.saveTwoFactorCredential(user.id, secret);
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email || user.username}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+  return { secret, otpauthUrl };
+}
+
+// Confirm enrollment with a code from the app; returns the new recovery codes, or null for a wrong code
+export async function confirmEnrollment(userId: number, code: string, now: Date = new Date()): Promise<string[] | null> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential) {
+    throw new TwoFactorError("NOT_ENROLLED", "Two-factor setup has not been started");
+  }
+  if (credential.confirmedAt) {
+    throw new TwoFactorError("ALREADY_ENROLLED", "Two-factor authentication is already set up");
+  }
+
+  const step = matchTotpStep(credential.secret, code.trim(), now);
+  if (step === null || !(await storage.claimTotpStep(userId, step))) {
+    return null;
+  }
+
+  await storage.confirmTwoFactorCredential(userId, now);
+  return await issueRecoveryCodes(userId);
+}
+
+// Check an authenticator code or, failing that, a recovery code; each can only be used once
+export async function verifyTwoFactorCode(
+  userId: number,
+  code: string,
+  now: Date = new Date()
+): Promise<"totp" | "recovery" | null> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential?.confirmedAt) {
+    throw new TwoFactorError("NOT_ENROLLED", "Two-factor authentication is not set up");
+  }
+
+  const value = code.trim();
+  if (/^\d+$/.test(value)) {
+    const step = matchTotpStep(credential.secret, value, now);
+    return step !== null && (await storage.claimTotpStep(userId, step)) ? "totp" : null;
+  }
+
+  return (await storage.useRecoveryCode(userId, hashRecoveryCode(value), now)) ? "recovery" : null;
+}
+
+// Replace the recovery codes, e.g. when they have run low; earlier codes stop working
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  if (!(await isTwoFactorEnrolled(userId))) {
+    throw new TwoFactorError("NOT_ENROLLED", "Two-factor authentication is not set up");
+  }
+  return await issueRecoveryCodes(userId);
+}
@@ -0,0 +1,109 @@
+import { storage } from "./storage";
+import { sendTemplatedEmail } from "./email-templates";
+import type { User, UserBlock } from "@shared/schema";
+
+// Blocks stop a user from booking until they end or are lifted. Each one is kept
+// with its reason and who created and lifted it. A user has at most one active
+// block; the user is signed out when blocked and emailed when blocked and again
+// when the block is lifted or runs out.
+
+export type UserBlockErrorCode = "ALREADY_BLOCKED" | "ENDS_IN_PAST" | "NOT_ACTIVE";
+
+export class UserBlockError extends Error {
+  constructor(public code: UserBlockErrorCode, message: string) {
+    super(message);
+    this.name = "UserBlockError";
+  }
+}
+
+// createdBy is null for blocks created automatically
+export async function blockUser(
+  user: User,
+  block: { reason: string; endsAt: Date },
+  createdBy: number | null
+): Promise<UserBlock> {
+  const now = new Date();
+  if (block.endsAt <= now) {
+    throw new UserBlockError("ENDS_IN_PAST", "The block must end in the future");
+  }
+  if (await storage.getActiveUserBlock(user.id, now)) {
+    throw new UserBlockError("ALREADY_BLOCKED", "This user is already blocked. Lift the current block first.");
+  }
+
+  const createdBlock = await storage.createUserBlock({
+    userId: user.id,
+    reason: block.reason,
+    createdBy,
+    startsAt: now,
+    endsAt: block.endsAt,
+  });
+  await storage.destroyUserSessions(user.id);
+
+  if (user.email) {
+    try {
+      await sendTemplatedEmail(user.email, "block-notice", {
+        name: user.name || 'User',
+        blockedUntil: createdBlock.endsAt,
+        reason: createdBlock.reason,
+      }, user.preferredLanguage);
+    } catch (error) {
+      console.error("Failed to send block notice:", error);
+    }
+  }
+
+  return createdBlock;
+}
+
+export async function liftBlock(block: UserBlock, liftedBy: number): Promise<UserBlock> {
+  const liftedBlock = await storage.liftUserBlock(block.id, liftedBy, new Date());
+  if (!liftedBlock) {
+    throw new UserBlockError("NOT_ACTIVE", "This block has already ended");
+  }
+
+  await sendBlockLiftedEmail(liftedBlock, false);
+  return liftedBlock;
+}
+
+// Close blocks that have run out and let their users know; returns how many ended
+export async function expireBlocks(now: Date): Promise<number> {
+  let expired = 0;
+  for (const block of await storage.getEndedUserBlocks(now)) {
+    const liftedBlock = await storage.liftUserBlock(block.id, null, block.endsAt);
+    if (liftedBlock) {
+      await sendBlockLiftedEmail(liftedBlock, true);
+      expired++;
+    }
+  }
+
+  // Blocks from before block records only set users.blockedUntil
+  return expired + await storage.clearExpiredBlocks(now);
+}
+
+// Message for a blocked user trying to book, with the reason from their block
+export async function getBlockedMessage(user: User): Promise<{ message: string; reason: string | null; blockedUntil: Date }> {
+  const block = await storage.getActiveUserBlock(user.id, new Date());
+  const blockedUntil = block?.endsAt ?? user.blockedUntil!;
+  const blockedDate = blockedUntil.toLocaleDateString();
+
+  return {
+    message: block
+      ? `Your account is blocked from booking until ${blockedDate}. Reason: ${block.reason}`
+      : `Your account is blocked from booking until ${blockedDate}. Please contact support.`,
+    reason: block?.reason ?? null,
+    blockedUntil,
+  };
+}
+
+async function sendBlockLiftedEmail(block: UserBlock, expired: boolean) {
+  try {
+    const user = await storage.getUser(block.userId);
+    if (!user?.email) return;
+
+    await sendTemplatedEmail(user.email, "block-lifted", {
+      name: user.name || 'User',
+      expired,
+    }, user.preferredLanguage);
+  } catch (error) {
+    console.error("Failed to send block lifted email:", error);
+  }
+}
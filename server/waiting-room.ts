@@ -0,0 +1,215 @@
+import crypto from "crypto";
+import { getConfigNumber, type BookingConfigEntry, type BookingWindow } from "@shared/booking-rules";
+
+// Virtual waiting room for the weekly booking window. Users who arrive before the
+// window opens are shuffled into a random order when it opens; later arrivals are
+// queued behind them. Users are admitted in batches and receive an admission token
+// that POST /api/appointments requires while the window is open.
+//
+// State is kept in memory: it only matters for the duration of a single window.
+
+export interface WaitingRoomSettings {
+  batchSize: number;
+  batchIntervalSeconds: number;
+  admissionMinutes: number;
+}
+
+export type WaitingRoomState = "not_joined" | "waiting" | "admitted" | "expired";
+
+export interface WaitingRoomStatus {
+  state: WaitingRoomState;
+  position: number | null; // 1-based; null until the pre-open queue has been drawn
+  queueLength: number;
+  opensAt: Date;
+  closesAt: Date;
+  admissionToken?: string;
+  admissionExpiresAt?: Date;
+  estimatedWaitSeconds?: number;
+}
+
+export interface WaitingRoomStats {
+  isOpen: boolean;
+  opensAt: Date;
+  closesAt: Date;
+  queueLength: number;
+  admittedCount: number;
+  activeAdmissions: number;
+  batchSize: number;
+  batchIntervalSeconds: number;
+  admissionRatePerMinute: number;
+}
+
+interface QueueEntry {
+  userId: number;
+  joinedAt: Date;
+  admittedAt?: Date;
+  token?: string;
+}
+
+interface WindowQueue {
+  opensAt: Date;
+  closesAt: Date;
+  preOpen: QueueEntry[];  // Joined before the window opened, order not yet drawn
+  queue: QueueEntry[];    // Drawn pre-open entries followed by later arrivals
+  entries: Map<number, QueueEntry>;
+  drawn: boolean;
+  nextBatchAt?: Date;
+}
+
+export function getWaitingRoomSettings(configs: BookingConfigEntry[]): WaitingRoomSettings {
+  return {
+    batchSize: Math.max(1, getConfigNumber(configs, "waiting_room_batch_size", 10)),
+    batchIntervalSeconds: Math.max(1, getConfigNumber(configs, "waiting_room_batch_interval_seconds", 30)),
+    admissionMinutes: Math.max(1, getConfigNumber(configs, "waiting_room_admission_minutes", 10)),
+  };
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export class WaitingRoom {
+  private current: WindowQueue | null = null;
+
+  // Get the queue for the given window, starting a fresh one when the window changes
+  private getQueue(window: BookingWindow): WindowQueue {
+    if (!this.current || this.current.opensAt.getTime() !== window.opensAt.getTime()) {
+      this.current = {
+        opensAt: window.opensAt,
+        closesAt: window.closesAt,
+        preOpen: [],
+        queue: [],
+        entries: new Map(),
+        drawn: false,
+      };
+    }
+    return this.current;
+  }
+
+  // Draw the pre-open order and admit any batches that are due at `now`
+  private advance(queue: WindowQueue, settings: WaitingRoomSettings, now: Date) {
+    if (now < queue.opensAt) return;
+
+    if (!queue.drawn) {
+      queue.queue = [...shuffle(queue.preOpen), ...queue.queue];
+      queue.preOpen = [];
+      queue.drawn = true;
+      queue.nextBatchAt = queue.opensAt;
+    }
+
+    // At most one batch, however long it has been since the last, and the next one an
+    // interval after this: unused capacity is not carried over, so a quiet period can't
+    // turn into a burst. Admissions run from now, so nobody is admitted already expired.
+    if (queue.nextBatchAt && queue.nextBatchAt <= now) {
+      const batch = queue.queue.filter(entry => !entry.admittedAt).slice(0, settings.batchSize);
+      if (batch.length === 0) return; // Nobody waiting; the next arrival is admitted straight away
+
+      for (const entry of batch) {
+        entry.admittedAt = now;
+        entry.token = crypto.randomBytes(24).toString("hex");
+      }
+      queue.nextBatchAt = new Date(now.getTime() + settings.batchIntervalSeconds * 1000);
+    }
+  }
+
+  private getStatus(queue: WindowQueue, entry: QueueEntry | undefined, settings: WaitingRoomSettings, now: Date): WaitingRoomStatus {
+    const waiting = queue.queue.filter(e => !e.admittedAt);
+    const base = {
+      queueLength: queue.preOpen.length + waiting.length,
+      opensAt: queue.opensAt,
+      closesAt: queue.closesAt,
+    };
+
+    if (!entry) {
+      return { ...base, state: "not_joined", position: null };
+    }
+
+    if (entry.admittedAt && entry.token) {
+      const admissionExpiresAt = new Date(entry.admittedAt.getTime() + settings.admissionMinutes * 60 * 1000);
+      if (now >= admissionExpiresAt) {
+        return { ...base, state: "expired", position: null, admissionExpiresAt };
+      }
+      return { ...base, state: "admitted", position: null, admissionToken: entry.token, admissionExpiresAt };
+    }
+
+    if (!queue.drawn) {
+      return { ...base, state: "waiting", position: null };
+    }
+
+    const index = waiting.indexOf(entry);
+    const batchesAhead = Math.floor(index / settings.batchSize);
+    const untilNextBatch = queue.nextBatchAt ? Math.max(0, queue.nextBatchAt.getTime() - now.getTime()) / 1000 : 0;
+
+    return {
+      ...base,
+      state: "waiting",
+      position: index + 1,
+      estimatedWaitSeconds: Math.ceil(untilNextBatch + batchesAhead * settings.batchIntervalSeconds),
+    };
+  }
+
+  join(userId: number, window: BookingWindow, settings: WaitingRoomSettings, now: Date = new Date()): WaitingRoomStatus {
+    const queue = this.getQueue(window);
+    this.advance(queue, settings, now);
+
+    let entry = queue.entries.get(userId);
+
+    // An admission that ran out goes back to the end of the queue
+    if (entry && this.getStatus(queue, entry, settings, now).state === "expired") {
+      queue.queue = queue.queue.filter(e => e !== entry);
+      queue.entries.delete(userId);
+      entry = undefined;
+    }
+
+    if (!entry) {
+      entry = { userId, joinedAt: now };
+      queue.entries.set(userId, entry);
+      (queue.drawn ? queue.queue : queue.preOpen).push(entry);
+      this.advance(queue, settings, now);
+    }
+
+    return this.getStatus(queue, entry, settings, now);
+  }
+
+  status(userId: number, window: BookingWindow, settings: WaitingRoomSettings, now: Date = new Date()): WaitingRoomStatus {
+    const queue = this.getQueue(window);
+    this.advance(queue, settings, now);
+    return this.getStatus(queue, queue.entries.get(userId), settings, now);
+  }
+
+  // Whether `token` is a live admission for this user in the given window
+  isAdmitted(userId: number, token: string | undefined, window: BookingWindow, settings: WaitingRoomSettings, now: Date = new Date()): boolean {
+    if (!token) return false;
+    const status = this.status(userId, window, settings, now);
+    return status.state === "admitted" && !!status.admissionToken &&
+      status.admissionToken.length === token.length &&
+      crypto.timingSafeEqual(Buffer.from(status.admissionToken), Buffer.from(token));
+  }
+
+  stats(window: BookingWindow, settings: WaitingRoomSettings, now: Date = new Date()): WaitingRoomStats {
+    const queue = this.getQueue(window);
+    this.advance(queue, settings, now);
+
+    const admitted = queue.queue.filter(entry => entry.admittedAt);
+    const admissionMs = settings.admissionMinutes * 60 * 1000;
+
+    return {
+      isOpen: window.isOpen,
+      opensAt: queue.opensAt,
+      closesAt: queue.closesAt,
+      queueLength: queue.preOpen.length + queue.queue.length - admitted.length,
+      admittedCount: admitted.length,
+      activeAdmissions: admitted.filter(entry => now.getTime() - entry.admittedAt!.getTime() < admissionMs).length,
+      batchSize: settings.batchSize,
+      batchIntervalSeconds: settings.batchIntervalSeconds,
+      admissionRatePerMinute: Math.round((settings.batchSize * 60 / settings.batchIntervalSeconds) * 10) / 10,
+    };
+  }
+}
+
+export const waitingRoom = new WaitingRoom();
@@ -0,0 +1,178 @@
+import { storage } from "./storage";
+import { sendTemplatedEmail } from "./email-templates";
+import { getSlotHolder } from "./slot-holds";
+import { parseBookingRules, evaluateBooking, getWeekRange } from "@shared/booking-rules";
+import { getWaitlistOfferMinutes, getWaitlistPeriod, type WaitlistScope } from "@shared/waitlist";
+import type { Appointment, User, WaitlistEntry } from "@shared/schema";
+
+// Users join the waitlist for a day or a week. Whenever a slot frees up it is offered
+// to the first waiting entry it suits and held for that user; an offer that is
+// declined or runs out moves on to the next entry.
+
+export type WaitlistErrorCode = "ALREADY_WAITING" | "PERIOD_OVER" | "NOT_OFFERED" | "OFFER_EXPIRED";
+
+export class WaitlistError extends Error {
+  constructor(public code: WaitlistErrorCode, message: string) {
+    super(message);
+    this.name = "WaitlistError";
+  }
+}
+
+export async function joinWaitlist(user: User, scope: WaitlistScope, date: Date): Promise<WaitlistEntry> {
+  const period = getWaitlistPeriod(scope, date);
+  if (period.end <= new Date()) {
+    throw new WaitlistError("PERIOD_OVER", `This ${scope} is already over`);
+  }
+
+  const alreadyWaiting = (await storage.getWaitlistEntriesByUser(user.id, period.start)).some((entry) =>
+    entry.scope === scope &&
+    entry.date.getTime() === period.start.getTime() &&
+    (entry.status === "waiting" || entry.status === "offered")
+  );
+  if (alreadyWaiting) {
+    throw new WaitlistError("ALREADY_WAITING", `You are already on the waitlist for this ${scope}`);
+  }
+
+  try {
+    return await storage.createWaitlistEntry({ userId: user.id, scope, date: period.start });
+  } catch (error) {
+    // Joined twice at once
+    if ((error as { code?: string }).code === "23505") {
+      throw new WaitlistError("ALREADY_WAITING", `You are already on the waitlist for this ${scope}`);
+    }
+    throw error;
+  }
+}
+
+// Offer a free slot to the first waiting user who could book it. Failures are only
+// logged, so they never fail the cancellation or expiry that freed the slot.
+export async function offerSlot(slot: Date, now: Date = new Date()): Promise<WaitlistEntry | undefined> {
+  try {
+    if (slot <= now) return undefined;
+
+    const [availableSlot] = await storage.getAvailableSlotsByDateRange(slot, slot);
+    const isBooked = (await storage.getAppointmentsByDateRange(slot, slot))
+      .some((appointment) => appointment.status !== "cancelled");
+    if (!availableSlot?.isEnabled || isBooked || await getSlotHolder(slot, now) !== undefined) {
+      return undefined;
+    }
+
+    const offers = await storage.getWaitlistOffers(now);
+    const configs = await storage.getBookingConfigurations();
+    const rules = parseBookingRules(configs);
+    const holdEndsAt = new Date(now.getTime() + getWaitlistOfferMinutes(configs) * 60 * 1000);
+    const entries = await storage.getOpenWaitlistEntries(getWaitlistPeriod("day", slot).start, getWeekRange(slot).start);
+
+    for (const entry of entries) {
+      if (entry.status !== "waiting" || offers.some((offer) => offer.userId === entry.userId)) continue;
+
+      // Skip users who couldn't book it anyway, e.g. blocked or already booked that week
+      const user = await storage.getUser(entry.userId);
+      if (!user || (user.blockedUntil && user.blockedUntil > now)) continue;
+      if (!evaluateBooking(rules, slot, await storage.getAppointmentsByUser(user.id), now).allowed) continue;
+
+      const offer = await storage.updateWaitlistEntry(entry.id, "waiting", {
+        status: "offered",
+        offeredSlot: slot,
+        offerExpiresAt: holdEndsAt < slot ? holdEndsAt : slot,
+      });
+      if (!offer) continue; // Left the waitlist meanwhile
+
+      await sendOfferEmail(user, offer);
+      return offer;
+    }
+  } catch (error) {
+    console.error(`Failed to offer slot ${slot.toISOString()} to the waitlist:`, error);
+  }
+  return undefined;
+}
+
+// Book the offered slot. The entry is claimed first, so it can't expire and be
+// offered on while the booking is made; it is put back if the booking fails.
+export async function claimOffer(entry: WaitlistEntry): Promise<Appointment> {
+  if (entry.status !== "offered" || !entry.offeredSlot) {
+    throw new WaitlistError("NOT_OFFERED", "No slot is being offered for this waitlist entry");
+  }
+  if (!entry.offerExpiresAt || entry.offerExpiresAt <= new Date()) {
+    throw new WaitlistError("OFFER_EXPIRED", "This offer has expired and the slot has been offered to the next person");
+  }
+
+  const claimed = await storage.updateWaitlistEntry(entry.id, "offered", { status: "booked" });
+  if (!claimed) {
+    throw new WaitlistError("OFFER_EXPIRED", "This offer has expired and the slot has been offered to the next person");
+  }
+
+  const slot = entry.offeredSlot;
+  const rules = parseBookingRules(await storage.getBookingConfigurations());
+  let appointment: Appointment;
+  try {
+    appointment = await storage.bookAppointment({
+      userId: entry.userId,
+      date: slot,
+      endTime: new Date(slot.getTime() + rules.slotDuration * 60 * 1000),
+    }, rules.weeklyLimit);
+  } catch (error) {
+    await storage.updateWaitlistEntry(entry.id, "booked", { status: "offered" });
+    throw error;
+  }
+  await storage.updateWaitlistEntry(entry.id, "booked", { appointmentId: appointment.id });
+
+  const user = await storage.getUser(entry.userId);
+  if (user?.email) {
+    try {
+      await sendTemplatedEmail(user.email, "confirmation", {
+        name: user.name || 'User',
+        start: appointment.date,
+        end: appointment.endTime,
+      }, user.preferredLanguage);
+    } catch (error) {
+      console.error("Failed to send confirmation email:", error);
+    }
+  }
+
+  return appointment;
+}
+
+// Take the entry off the waitlist; a slot it was being offered goes to the next person
+export async function leaveWaitlist(entry: WaitlistEntry): Promise<void> {
+  await storage.deleteWaitlistEntry(entry.id);
+  if (entry.status === "offered" && entry.offeredSlot) {
+    await offerSlot(entry.offeredSlot);
+  }
+}
+
+// Pass on an offer the user turned down or didn't claim in time
+export async function releaseOffer(entry: WaitlistEntry, status: "declined" | "expired"): Promise<boolean> {
+  const released = await storage.updateWaitlistEntry(entry.id, "offered", { status });
+  if (!released) return false;
+
+  if (entry.offeredSlot) {
+    await offerSlot(entry.offeredSlot);
+  }
+  return true;
+}
+
+// Pass on offers that have run out; returns how many there were
+export async function expireWaitlistOffers(now: Date): Promise<number> {
+  let expired = 0;
+  for (const entry of await storage.getExpiredWaitlistOffers(now)) {
+    if (await releaseOffer(entry, "expired")) {
+      expired++;
+    }
+  }
+  return expired;
+}
+
+async function sendOfferEmail(user: User, offer: WaitlistEntry) {
+  if (!user.email) return;
+
+  try {
+    await sendTemplatedEmail(user.email, "waitlist-offer", {
+      name: user.name || 'User',
+      start: offer.offeredSlot!,
+      expiresAt: offer.offerExpiresAt!,
+    }, user.preferredLanguage);
+  } catch (error) {
+    console.error("Failed to send waitlist offer email:", error);
+  }
+}
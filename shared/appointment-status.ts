@@ -0,0 +1,91 @@
+import { z } from "zod";
+
+// Appointment lifecycle: confirmed → checked_in → in_progress → completed,
+// with cancelled and no_show as the other ways out of confirmed.
+
+export const appointmentStatuses = [
+  "confirmed",
+  "checked_in",
+  "in_progress",
+  "completed",
+  "cancelled",
+  "no_show",
+] as const;
+
+export const appointmentStatusSchema = z.enum(appointmentStatuses);
+
+export type AppointmentStatus = z.infer<typeof appointmentStatusSchema>;
+
+export const updateAppointmentStatusSchema = z.object({
+  status: appointmentStatusSchema,
+  reason: z.string().trim().max(500).optional(), // Only kept when cancelling
+}).strict();
+
+export const appointmentStatusLabels: Record<AppointmentStatus, string> = {
+  confirmed: "Upcoming",
+  checked_in: "Checked In",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  no_show: "No Show",
+};
+
+// Who is changing the status: the appointment's owner, an admin, or the server's time-based job
+export type StatusActor = "user" | "admin" | "system";
+
+const transitions: Record<StatusActor, Partial<Record<AppointmentStatus, AppointmentStatus[]>>> = {
+  user: {
+    confirmed: ["cancelled"],
+  },
+  admin: {
+    confirmed: ["checked_in", "cancelled", "no_show"],
+    checked_in: ["in_progress", "confirmed", "cancelled"],
+    in_progress: ["completed"],
+    // Corrections after the fact
+    completed: ["no_show"],
+    no_show: ["completed"],
+  },
+  // Only staff record no-shows; an appointment nobody checked in for is assumed attended
+  system: {
+    confirmed: ["completed"],
+    checked_in: ["in_progress"],
+    in_progress: ["completed"],
+  },
+};
+
+export function isAppointmentStatus(status: string): status is AppointmentStatus {
+  return (appointmentStatuses as readonly string[]).includes(status);
+}
+
+export function getAllowedTransitions(actor: StatusActor, from: string): AppointmentStatus[] {
+  return isAppointmentStatus(from) ? transitions[actor][from] ?? [] : [];
+}
+
+export function canTransition(actor: StatusActor, from: string, to: AppointmentStatus): boolean {
+  return getAllowedTransitions(actor, from).includes(to);
+}
+
+// Status the appointment should be in at `now`, if time alone should move it on
+export function getTimeBasedStatus(
+  appointment: { date: Date | string; endTime: Date | string; status: string },
+  now: Date = new Date(),
+): AppointmentStatus | null {
+  const start = new Date(appointment.date);
+  const end = new Date(appointment.endTime);
+
+  switch (appointment.status) {
+    case "checked_in":
+      return now >= start ? "in_progress" : null;
+    case "in_progress":
+      return now >= end ? "completed" : null;
+    case "confirmed": {
+      // Never checked in by the end of the appointment's day, e.g. staff forgot to;
+      // staff can still correct it to a no-show
+      const dayEnd = new Date(start);
+      dayEnd.setHours(24, 0, 0, 0);
+      return now >= dayEnd ? "completed" : null;
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,56 @@
+import { getConfigNumber, type BookingConfigEntry } from "./booking-rules";
+
+// No-show and late cancellation policy. Each no-show, and each cancellation by the
+// user within lateCancellationHours of the start, is a strike. Reaching a limit
+// within periodDays blocks the user for blockWeeks; the strikes that led to a
+// block don't count towards the next one. A limit of 0 turns that rule off.
+
+export const strikeKinds = ["no_show", "late_cancellation"] as const;
+
+export type StrikeKind = typeof strikeKinds[number];
+
+export const strikeKindLabels: Record<StrikeKind, string> = {
+  no_show: "No-show",
+  late_cancellation: "Late cancellation",
+};
+
+export interface AttendancePolicy {
+  noShowLimit: number;
+  lateCancellationLimit: number;
+  lateCancellationHours: number;
+  periodDays: number;
+  blockWeeks: number;
+}
+
+export function parseAttendancePolicy(configs: BookingConfigEntry[]): AttendancePolicy {
+  return {
+    noShowLimit: Math.max(0, getConfigNumber(configs, "policy_no_show_limit", 2)),
+    lateCancellationLimit: Math.max(0, getConfigNumber(configs, "policy_late_cancellation_limit", 3)),
+    lateCancellationHours: Math.max(0, getConfigNumber(configs, "policy_late_cancellation_hours", 24)),
+    periodDays: Math.max(1, getConfigNumber(configs, "policy_period_days", 60)),
+    blockWeeks: Math.max(1, getConfigNumber(configs, "policy_block_weeks", 4)),
+  };
+}
+
+export function getStrikeLimit(policy: AttendancePolicy, kind: StrikeKind): number {
+  return kind === "no_show" ? policy.noShowLimit : policy.lateCancellationLimit;
+}
+
+// Whether cancelling at `at` counts against the user
+export function isLateCancellation(policy: AttendancePolicy, appointmentDate: Date | string, at: Date = new Date()): boolean {
+  const cutoff = new Date(appointmentDate).getTime() - policy.lateCancellationHours * 60 * 60 * 1000;
+  return at.getTime() >= cutoff;
+}
+
+// Strikes that still count: recent enough and not already used for a block
+export function getCountedStrikes<T extends { kind: string; occurredAt: Date | string; blockId: number | null }>(
+  policy: AttendancePolicy,
+  strikes: T[],
+  kind: StrikeKind,
+  now: Date = new Date(),
+): T[] {
+  const since = now.getTime() - policy.periodDays * 24 * 60 * 60 * 1000;
+  return strikes.filter((strike) =>
+    strike.kind === kind && strike.blockId === null && new Date(strike.occurredAt).getTime() >= since
+  );
+}
@@ -0,0 +1,312 @@
+import type { BookingConfiguration } from "./schema";
+
+// Booking rules shared by the server, the client and the seed scripts. Everything
+// is derived from the booking_configurations rows so changes made in the admin
+// Settings tab apply everywhere.
+
+export type BookingConfigEntry = Pick<BookingConfiguration, "key" | "value">;
+
+export interface HourRange {
+  start: number; // Inclusive hour (0-23)
+  end: number;   // Exclusive hour (0-24)
+}
+
+export interface BookingRules {
+  bookingWindow: { day: number; startHour: number; endHour: number };
+  disabledDays: number[];
+  morning: HourRange;
+  afternoon: HourRange;
+  slotDuration: number; // Minutes
+  weeklyLimit: number;
+  reschedule: { limit: number; cutoffHours: number };
+}
+
+export type BookingRuleCode =
+  | "INVALID_DATE"
+  | "PAST_SLOT"
+  | "DISABLED_DAY"
+  | "OUTSIDE_SLOT_HOURS"
+  | "INVALID_SLOT_INTERVAL"
+  | "WEEKLY_LIMIT"
+  | "NOT_RESCHEDULABLE"
+  | "RESCHEDULE_CUTOFF"
+  | "RESCHEDULE_LIMIT"
+  | "SAME_SLOT";
+
+export interface BookingRuleViolation {
+  code: BookingRuleCode;
+  message: string;
+}
+
+export interface BookingEvaluation {
+  allowed: boolean;
+  violations: BookingRuleViolation[];
+}
+
+export interface BookingWindow {
+  isOpen: boolean;
+  day: number;
+  startHour: number;
+  endHour: number;
+  opensAt: Date;  // Start of the current window if open, otherwise the next one
+  closesAt: Date; // End of the window that opensAt belongs to
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export function getConfigNumber(configs: BookingConfigEntry[], key: string, defaultValue: number): number {
+  const config = configs.find(c => c.key === key);
+  const value = config ? parseInt(config.value) : NaN;
+  return isNaN(value) ? defaultValue : value;
+}
+
+export function parseBookingRules(configs: BookingConfigEntry[]): BookingRules {
+  const disabledDaysConfig = configs.find(c => c.key === "disabled_days");
+
+  return {
+    bookingWindow: {
+      day: getConfigNumber(configs, "booking_window_day", 0), // Default: Sunday
+      startHour: getConfigNumber(configs, "booking_window_start_hour", 8), // Default: 8 AM
+      endHour: getConfigNumber(configs, "booking_window_end_hour", 9), // Default: 9 AM
+    },
+    disabledDays: (disabledDaysConfig ? disabledDaysConfig.value : "2,6") // Default: Tuesday and Saturday
+      .split(",")
+      .map(d => parseInt(d.trim()))
+      .filter(d => !isNaN(d)),
+    morning: {
+      start: getConfigNumber(configs, "morning_slot_start", 9), // Default: 9 AM
+      end: getConfigNumber(configs, "morning_slot_end", 13), // Default: 1 PM
+    },
+    afternoon: {
+      start: getConfigNumber(configs, "afternoon_slot_start", 15), // Default: 3 PM
+      end: getConfigNumber(configs, "afternoon_slot_end", 17), // Default: 5 PM
+    },
+    slotDuration: getConfigNumber(configs, "slot_duration", 15),
+    weeklyLimit: 1,
+    reschedule: {
+      limit: Math.max(0, getConfigNumber(configs, "reschedule_limit", 1)),
+      cutoffHours: Math.max(0, getConfigNumber(configs, "reschedule_cutoff_hours", 24)),
+    },
+  };
+}
+
+export function formatHour(hour: number): string {
+  const period = hour >= 12 && hour < 24 ? "PM" : "AM";
+  return `${hour % 12 || 12} ${period}`;
+}
+
+// Sunday 00:00 to Saturday 23:59:59.999 of the week containing `date`
+export function getWeekRange(date: Date): { start: Date; end: Date } {
+  const start = new Date(date);
+  start.setDate(date.getDate() - date.getDay());
+  start.setHours(0, 0, 0, 0);
+
+  const end = new Date(start);
+  end.setDate(start.getDate() + 6);
+  end.setHours(23, 59, 59, 999);
+
+  return { start, end };
+}
+
+export function isDisabledDay(rules: BookingRules, date: Date): boolean {
+  return rules.disabledDays.includes(date.getDay());
+}
+
+function isInRange(range: HourRange, date: Date): boolean {
+  const hours = date.getHours();
+  return hours >= range.start && hours < range.end;
+}
+
+export function isMorningSlot(rules: BookingRules, date: Date): boolean {
+  return isInRange(rules.morning, date);
+}
+
+export function isAfternoonSlot(rules: BookingRules, date: Date): boolean {
+  return isInRange(rules.afternoon, date);
+}
+
+export function isValidTimeSlot(rules: BookingRules, date: Date): boolean {
+  const onInterval = date.getMinutes() % rules.slotDuration === 0 && date.getSeconds() === 0;
+  return onInterval && (isMorningSlot(rules, date) || isAfternoonSlot(rules, date));
+}
+
+// Every slot start time on the given day, morning slots first
+export function getTimeSlots(rules: BookingRules, date: Date): Date[] {
+  const slots: Date[] = [];
+
+  for (const range of [rules.morning, rules.afternoon]) {
+    for (let h = range.start; h < range.end; h++) {
+      for (let m = 0; m < 60; m += rules.slotDuration) {
+        const slotTime = new Date(date);
+        slotTime.setHours(h, m, 0, 0);
+        slots.push(slotTime);
+      }
+    }
+  }
+
+  return slots;
+}
+
+export function describeSlotHours(rules: BookingRules): string {
+  return `${formatHour(rules.morning.start)} - ${formatHour(rules.morning.end)} and ` +
+    `${formatHour(rules.afternoon.start)} - ${formatHour(rules.afternoon.end)} in ${rules.slotDuration}-minute intervals`;
+}
+
+export function describeDisabledDays(rules: BookingRules): string {
+  return rules.disabledDays.map(day => `${DAY_NAMES[day]}s`).join(" and ");
+}
+
+export interface WeeklyLimitAppointment {
+  date: Date | string;
+  status: string;
+  userId?: number;
+  cancelledBy?: number | null;
+}
+
+// Whether an appointment uses up one of its user's bookings for the week. Cancelling
+// doesn't give the booking back ("if you cancel an appointment, you cannot book another
+// in the same week"), but an appointment cancelled by staff does.
+export function countsTowardWeeklyLimit(appointment: WeeklyLimitAppointment): boolean {
+  return appointment.status !== "cancelled" ||
+    appointment.cancelledBy == null ||
+    appointment.cancelledBy === appointment.userId;
+}
+
+// Check a requested slot against every booking rule. `userAppointments` are the
+// booking user's other appointments, counted towards the weekly limit as above.
+export function evaluateBooking(
+  rules: BookingRules,
+  slot: Date,
+  userAppointments: WeeklyLimitAppointment[] = [],
+  now: Date = new Date(),
+): BookingEvaluation {
+  const violations: BookingRuleViolation[] = [];
+
+  if (isNaN(slot.getTime())) {
+    return {
+      allowed: false,
+      violations: [{ code: "INVALID_DATE", message: "Invalid appointment time format" }],
+    };
+  }
+
+  if (slot < now) {
+    violations.push({ code: "PAST_SLOT", message: "This time slot is in the past" });
+  }
+
+  if (isDisabledDay(rules, slot)) {
+    violations.push({
+      code: "DISABLED_DAY",
+      message: `Appointments are not available on ${describeDisabledDays(rules)}`,
+    });
+  }
+
+  if (!isMorningSlot(rules, slot) && !isAfternoonSlot(rules, slot)) {
+    violations.push({
+      code: "OUTSIDE_SLOT_HOURS",
+      message: `Appointments are only available from ${describeSlotHours(rules)}`,
+    });
+  } else if (!isValidTimeSlot(rules, slot)) {
+    violations.push({
+      code: "INVALID_SLOT_INTERVAL",
+      message: `Appointments must start on a ${rules.slotDuration}-minute interval`,
+    });
+  }
+
+  const week = getWeekRange(slot);
+  const appointmentsInWeek = userAppointments.filter(appointment => {
+    const date = new Date(appointment.date);
+    return countsTowardWeeklyLimit(appointment) && date >= week.start && date <= week.end;
+  });
+
+  if (appointmentsInWeek.length >= rules.weeklyLimit) {
+    violations.push({
+      code: "WEEKLY_LIMIT",
+      message: rules.weeklyLimit === 1
+        ? "You can only book one appointment per week"
+        : `You can only book ${rules.weeklyLimit} appointments per week`,
+    });
+  }
+
+  return { allowed: violations.length === 0, violations };
+}
+
+// Whether an appointment can still be moved at `now`, ignoring where it is moved to
+export function getRescheduleViolations(
+  rules: BookingRules,
+  appointment: { date: Date | string; status: string; rescheduleCount: number },
+  now: Date = new Date(),
+): BookingRuleViolation[] {
+  if (appointment.status !== "confirmed") {
+    return [{ code: "NOT_RESCHEDULABLE", message: "Only upcoming appointments can be rescheduled" }];
+  }
+
+  const violations: BookingRuleViolation[] = [];
+  const cutoff = new Date(new Date(appointment.date).getTime() - rules.reschedule.cutoffHours * 60 * 60 * 1000);
+
+  if (now >= cutoff) {
+    violations.push({
+      code: "RESCHEDULE_CUTOFF",
+      message: `Appointments can only be rescheduled up to ${rules.reschedule.cutoffHours} hours before they start`,
+    });
+  }
+
+  if (appointment.rescheduleCount >= rules.reschedule.limit) {
+    violations.push({
+      code: "RESCHEDULE_LIMIT",
+      message: rules.reschedule.limit === 0
+        ? "Appointments can't be rescheduled"
+        : `An appointment can only be rescheduled ${rules.reschedule.limit} time(s)`,
+    });
+  }
+
+  return violations;
+}
+
+// Check moving `appointment` to `slot`: the reschedule limits plus every booking
+// rule for the new slot, with the appointment itself not counting towards the weekly limit
+export function evaluateReschedule(
+  rules: BookingRules,
+  appointment: { id: number; date: Date | string; status: string; rescheduleCount: number },
+  slot: Date,
+  userAppointments: (WeeklyLimitAppointment & { id: number })[] = [],
+  now: Date = new Date(),
+): BookingEvaluation {
+  const violations = getRescheduleViolations(rules, appointment, now);
+
+  if (new Date(appointment.date).getTime() === slot.getTime()) {
+    violations.push({ code: "SAME_SLOT", message: "Please choose a different time slot" });
+  }
+
+  const otherAppointments = userAppointments.filter(other => other.id !== appointment.id);
+  violations.push(...evaluateBooking(rules, slot, otherAppointments, now).violations);
+
+  return { allowed: violations.length === 0, violations };
+}
+
+// Work out whether the weekly booking window is open at `now` and when it next opens/closes
+export function getBookingWindow(rules: BookingRules, now: Date = new Date()): BookingWindow {
+  const { day, startHour, endHour } = rules.bookingWindow;
+
+  // Window for the current week
+  const opensAt = new Date(now);
+  opensAt.setDate(now.getDate() - now.getDay() + day);
+  opensAt.setHours(startHour, 0, 0, 0);
+
+  const closesAt = new Date(opensAt);
+  closesAt.setHours(endHour, 0, 0, 0);
+
+  // If this week's window has already closed, move on to next week's
+  if (now >= closesAt) {
+    opensAt.setDate(opensAt.getDate() + 7);
+    closesAt.setDate(closesAt.getDate() + 7);
+  }
+
+  return {
+    isOpen: now >= opensAt && now < closesAt,
+    day,
+    startHour,
+    endHour,
+    opensAt,
+    closesAt,
+  };
+}
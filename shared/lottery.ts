@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import type { LotteryAllocation, LotteryRun } from "./schema";
+
+// The lottery draw itself: a seeded shuffle of the users followed by giving each
+// their best free slot. It only depends on the seed and the preferences, so a
+// stored run can be drawn again and compared.
+
+export interface RankedPreference {
+  userId: number;
+  slotId: number;
+  rank: number;
+}
+
+// Deterministic sequence of 32-bit integers derived from the seed
+function seededRandom(seed: string) {
+  let counter = 0;
+  return (maxExclusive: number): number => {
+    const digest = crypto.createHash("sha256").update(`${seed}:${counter++}`).digest();
+    return digest.readUInt32BE(0) % maxExclusive;
+  };
+}
+
+// Draw an order of users from the seed and give each user their best free slot.
+// Users in `excludedUserIds` (e.g. already booked that week) don't take part.
+export function allocateLottery(
+  preferences: RankedPreference[],
+  seed: string,
+  takenSlotIds: Set<number> = new Set(),
+  excludedUserIds: Set<number> = new Set(),
+): LotteryAllocation[] {
+  const userIds = Array.from(new Set(preferences.map(p => p.userId)))
+    .filter(userId => !excludedUserIds.has(userId))
+    .sort((a, b) => a - b);
+
+  // Seeded Fisher-Yates shuffle
+  const random = seededRandom(seed);
+  for (let i = userIds.length - 1; i > 0; i--) {
+    const j = random(i + 1);
+    [userIds[i], userIds[j]] = [userIds[j], userIds[i]];
+  }
+
+  const taken = new Set(takenSlotIds);
+
+  // One slot per user keeps the one-per-week rule
+  return userIds.map(userId => {
+    const choice = preferences
+      .filter(p => p.userId === userId)
+      .sort((a, b) => a.rank - b.rank)
+      .find(p => !taken.has(p.slotId));
+
+    if (!choice) {
+      return { userId, slotId: null };
+    }
+
+    taken.add(choice.slotId);
+    return { userId, slotId: choice.slotId };
+  });
+}
+
+// Recompute a stored run from its seed and preferences and compare slot assignments
+export function replayLotteryRun(run: LotteryRun): { matches: boolean; allocations: LotteryAllocation[] } {
+  const allocations = allocateLottery(run.preferences, run.seed);
+  const matches = allocations.length === run.allocations.length &&
+    allocations.every((allocation, index) =>
+      allocation.userId === run.allocations[index].userId &&
+      allocation.slotId === run.allocations[index].slotId
+    );
+
+  return { matches, allocations };
+}
@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+// Roles and what each may do. Staff roles (everything but client) use the admin
+// dashboard and must sign in with two-factor authentication.
+
+export const roles = ["owner", "admin", "receptionist", "astrologer", "client"] as const;
+
+export const roleSchema = z.enum(roles);
+
+export type Role = z.infer<typeof roleSchema>;
+
+export const updateUserRoleSchema = z.object({
+  role: roleSchema,
+});
+
+export const roleLabels: Record<Role, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  receptionist: "Receptionist",
+  astrologer: "Astrologer",
+  client: "Client",
+};
+
+export const permissions = [
+  "dashboard.view", // Open the admin dashboard
+  "appointments.view_all", // Everyone's appointments and the waiting room
+  "appointments.update_status", // Check in, start, complete and mark no-shows
+  "appointments.manage", // Book at any time, cancel and reschedule anyone's appointments
+  "appointments.purge", // Permanently delete appointments, history included
+  "slots.manage",
+  "users.view", // Search users and see their appointments and block history
+  "users.block",
+  "users.manage", // Reset passwords and delete accounts
+  "users.manage_roles",
+  "security.manage", // Security events, unlocking accounts and signing users out
+  "settings.manage", // Booking configuration and lottery draws
+  "system.view", // Background jobs and email templates
+] as const;
+
+export type Permission = typeof permissions[number];
+
+const rolePermissions: Record<Role, readonly Permission[]> = {
+  owner: permissions,
+  admin: permissions.filter((permission) => permission !== "users.manage_roles"),
+  receptionist: [
+    "dashboard.view",
+    "appointments.view_all",
+    "appointments.update_status",
+    "appointments.manage",
+    "users.view",
+  ],
+  astrologer: [
+    "dashboard.view",
+    "appointments.view_all",
+    "appointments.update_status",
+  ],
+  client: [],
+};
+
+export function isRole(role: string): role is Role {
+  return (roles as readonly string[]).includes(role);
+}
+
+export function getPermissions(role: string): readonly Permission[] {
+  return isRole(role) ? rolePermissions[role] : [];
+}
+
+export function hasPermission(user: { role: string } | null | undefined, permission: Permission): boolean {
+  return !!user && getPermissions(user.role).includes(permission);
+}
+
+export function isStaff(user: { role: string } | null | undefined): boolean {
+  return !!user && isRole(user.role) && user.role !== "client";
+}
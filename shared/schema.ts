@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, unique, time } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, unique, uniqueIndex, time, jsonb } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,12 +12,23 @@ export const users = pgTable("users", {
   address: text("address").notNull(),
   email: text("email").unique(), 
   mobile: text("mobile").unique(),
-  isAdmin: boolean("is_admin").default(false).notNull(),
+  role: text("role").notNull().default("client"), // See shared/permissions.ts
   createdAt: timestamp("created_at").defaultNow().notNull(),
   blockedUntil: timestamp("blocked_until").default(null),
+  preferredLanguage: text("preferred_language").notNull().default("both"), // Language of emails: en, te or both
+  remindersEnabled: boolean("reminders_enabled").notNull().default(true),
+  emailVerifiedAt: timestamp("email_verified_at"), // Null for accounts created before email verification
+  failedLoginCount: integer("failed_login_count").notNull().default(0), // Wrong passwords since the last successful sign-in
+  lockedUntil: timestamp("locked_until"), // Password sign-in is refused until then
 });
 
 
+// Email addresses are stored and looked up in lower case, so the same address can't be
+// registered twice or fail to sign in because of how it was typed
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -31,7 +43,35 @@ export const insertUserSchema = createInsertSchema(users).pick({
     .optional()
     .nullable() // Explicitly allow null
     .transform(val => val === "" ? null : val), // Convert empty string to null
-  email: z.string().email() // Add email validation
+  email: z.string().email().transform(normalizeEmail) // Add email validation
+});
+
+export const emailLanguages = ["en", "te", "both"] as const;
+export type EmailLanguage = typeof emailLanguages[number];
+
+export const notificationPreferencesSchema = z.object({
+  preferredLanguage: z.enum(emailLanguages).optional(),
+  remindersEnabled: z.boolean().optional(),
+});
+
+export const verifyEmailChangeSchema = z.object({
+  email: z.string().email().transform(normalizeEmail),
+  otp: z.string().length(6, "OTP must be 6 digits"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const createUserBlockSchema = z.object({
+  reason: z.string().trim().min(1, "Give a reason for the block").max(500),
+  endsAt: z.coerce.date(),
+});
+
+// A 6-digit authenticator code or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20),
 });
 
 export const loginUserSchema = z.object({
@@ -44,11 +84,24 @@ export const appointments = pgTable("appointments", {
   userId: integer("user_id").notNull().references(() => users.id),
   date: timestamp("date").notNull(),
   endTime: timestamp("end_time").notNull(),
-  status: text("status").notNull().default("confirmed"), // confirmed, cancelled, completed
+  status: text("status").notNull().default("confirmed"), // See shared/appointment-status.ts
+  rescheduleCount: integer("reschedule_count").notNull().default(0),
+  // Set when cancelled; cancelled appointments are kept so the history survives
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: integer("cancelled_by").references(() => users.id, { onDelete: "set null" }),
+  cancellationReason: text("cancellation_reason"),
+  lateCancellation: boolean("late_cancellation").notNull().default(false), // Within the policy's late-cancellation window
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => {
   return {
-    unique_user_week: unique().on(table.userId, table.date),
+    // A user can book a slot again after cancelling it
+    unique_user_date: uniqueIndex("appointments_user_date_idx")
+      .on(table.userId, table.date)
+      .where(sql`${table.status} <> 'cancelled'`),
+    // Only one active (non-cancelled) appointment may hold a slot
+    unique_active_slot: uniqueIndex("appointments_active_slot_idx")
+      .on(table.date)
+      .where(sql`${table.status} <> 'cancelled'`),
   };
 });
 
@@ -59,6 +112,14 @@ export const insertAppointmentSchema = z.object({
   duration: z.number().optional()
 });
 
+export const rescheduleAppointmentSchema = z.object({
+  date: z.coerce.date(),
+});
+
+export const cancelAppointmentSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
 export const availableSlots = pgTable("available_slots", {
   id: serial("id").primaryKey(),
   date: timestamp("date").notNull(),
@@ -84,6 +145,198 @@ export const insertBookingConfigSchema = createInsertSchema(bookingConfiguration
   description: true,
 });
 
+// Ranked slot preferences submitted during a lottery-mode booking window
+export const lotteryPreferences = pgTable("lottery_preferences", {
+  id: serial("id").primaryKey(),
+  weekStart: timestamp("week_start").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  slotId: integer("slot_id").notNull().references(() => availableSlots.id),
+  rank: integer("rank").notNull(), // 1 is the most preferred
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unique_user_rank: unique().on(table.weekStart, table.userId, table.rank),
+    unique_user_slot: unique().on(table.weekStart, table.userId, table.slotId),
+  };
+});
+
+export const lotteryPreferencesSchema = z.object({
+  slots: z.array(z.coerce.date()).min(1, "Choose at least one slot").max(5, "You can rank up to 5 slots"),
+});
+
+export interface LotteryAllocation {
+  userId: number;
+  slotId: number | null; // null when the user didn't win a slot
+  appointmentId?: number | null;
+}
+
+// Every lottery draw is stored with its seed and the preferences it used, so it can be audited and replayed
+export const lotteryRuns = pgTable("lottery_runs", {
+  id: serial("id").primaryKey(),
+  weekStart: timestamp("week_start").notNull().unique(), // One draw per week
+  seed: text("seed").notNull(),
+  preferences: jsonb("preferences").$type<{ userId: number; slotId: number; rank: number }[]>().notNull(),
+  allocations: jsonb("allocations").$type<LotteryAllocation[]>().notNull(),
+  runBy: integer("run_by").references(() => users.id), // null when run automatically at window close
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per scheduled run of a background job; the unique key stops a run from happening twice
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  status: text("status").notNull().default("running"), // running, succeeded, failed
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  result: text("result"),
+  error: text("error"),
+}, (table) => {
+  return {
+    unique_job_slot: unique().on(table.name, table.scheduledFor),
+  };
+});
+
+// Reminders that have been sent, so each one goes out once per appointment
+export const appointmentReminders = pgTable("appointment_reminders", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // e.g. '24h'
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unique_appointment_reminder: unique().on(table.appointmentId, table.kind),
+  };
+});
+
+// One-time codes sent by email. At most one active code per email and purpose;
+// only a hash of the code is stored.
+export const otpCodes = pgTable("otp_codes", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  purpose: text("purpose").notNull(), // registration, password_reset
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lockedUntil: timestamp("locked_until"), // Set after too many failed verifications
+}, (table) => {
+  return {
+    unique_email_purpose: unique().on(table.email, table.purpose),
+  };
+});
+
+// Short-lived single-use tokens handed out once an emailed OTP has been verified,
+// tied to a user (password reset) or to an email address (registration). Only a
+// hash of the token is stored.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  email: text("email"),
+  purpose: text("purpose").notNull(), // password_reset, registration
+  tokenHash: text("token_hash").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// Blocks from booking, kept as history. users.blockedUntil mirrors the end of the
+// active block so booking checks stay a single lookup. A block that runs out gets
+// liftedAt set to its end with no liftedBy.
+export const userBlocks = pgTable("user_blocks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reason: text("reason").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }), // null when blocked automatically
+  startsAt: timestamp("starts_at").defaultNow().notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  liftedAt: timestamp("lifted_at"),
+  liftedBy: integer("lifted_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// No-shows and late cancellations counted by the attendance policy (shared/attendance-policy.ts).
+// blockId is set once the strike has led to a block, so it isn't counted again.
+export const appointmentStrikes = pgTable("appointment_strikes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  appointmentId: integer("appointment_id").references(() => appointments.id, { onDelete: "set null" }),
+  kind: text("kind").notNull(), // no_show, late_cancellation
+  appointmentDate: timestamp("appointment_date").notNull(),
+  occurredAt: timestamp("occurred_at").notNull(), // When the appointment was missed or cancelled
+  blockId: integer("block_id").references(() => userBlocks.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unique_appointment_kind: unique().on(table.appointmentId, table.kind),
+  };
+});
+
+// Users waiting for a slot on a fully booked day or week (see shared/waitlist.ts).
+// While an entry is offered, offeredSlot is held for its user until offerExpiresAt.
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  scope: text("scope").notNull(), // day, week
+  date: timestamp("date").notNull(), // Start of the day or week
+  position: integer("position").notNull(), // Lowest goes first; admins reorder by swapping positions
+  status: text("status").notNull().default("waiting"), // waiting, offered, booked, declined, expired
+  offeredSlot: timestamp("offered_slot"),
+  offerExpiresAt: timestamp("offer_expires_at"),
+  appointmentId: integer("appointment_id").references(() => appointments.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    // One open entry per user for each day or week
+    unique_open_entry: uniqueIndex("waitlist_entries_open_idx")
+      .on(table.userId, table.scope, table.date)
+      .where(sql`${table.status} in ('waiting', 'offered')`),
+    // A slot is offered to one user at a time
+    unique_offered_slot: uniqueIndex("waitlist_entries_offered_slot_idx")
+      .on(table.offeredSlot)
+      .where(sql`${table.status} = 'offered'`),
+  };
+});
+
+// A slot reserved for a few minutes while the user confirms the booking
+export const slotHolds = pgTable("slot_holds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  slot: timestamp("slot").notNull().unique(), // Expired holds stay until purged, and are taken over in place
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Security-relevant events for admins: account lockouts, rate limit hits and unlocks
+export const securityEvents = pgTable("security_events", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // account_locked, account_unlocked, rate_limited, role_changed, user_deleted
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  identifier: text("identifier"), // What was being limited, e.g. a username or email
+  ip: text("ip"),
+  details: text("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Authenticator app (TOTP) secret for two-factor sign-in. The secret is saved when
+// enrollment starts and only counts once confirmedAt is set by a correct code.
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32
+  confirmedAt: timestamp("confirmed_at"),
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code, so a code can't be replayed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use codes for signing in without the authenticator app; only hashes are stored
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -93,3 +346,20 @@ export type AvailableSlot = typeof availableSlots.$inferSelect;
 export type InsertAvailableSlot = z.infer<typeof insertAvailableSlotSchema>;
 export type BookingConfiguration = typeof bookingConfigurations.$inferSelect;
 export type InsertBookingConfiguration = z.infer<typeof insertBookingConfigSchema>;
+export type LotteryPreference = typeof lotteryPreferences.$inferSelect;
+export type LotteryRun = typeof lotteryRuns.$inferSelect;
+export type InsertLotteryRun = typeof lotteryRuns.$inferInsert;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type AppointmentReminder = typeof appointmentReminders.$inferSelect;
+export type OtpCode = typeof otpCodes.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type UserBlock = typeof userBlocks.$inferSelect;
+export type InsertUserBlock = typeof userBlocks.$inferInsert;
+export type AppointmentStrike = typeof appointmentStrikes.$inferSelect;
+export type InsertAppointmentStrike = typeof appointmentStrikes.$inferInsert;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = Pick<typeof waitlistEntries.$inferInsert, "userId" | "scope" | "date">;
+export type SlotHold = typeof slotHolds.$inferSelect;
+export type SecurityEvent = typeof securityEvents.$inferSelect;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
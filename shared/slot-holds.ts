@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { getConfigNumber, type BookingConfigEntry } from "./booking-rules";
+
+// A slot picked in the booking form is held for the user for a few minutes while
+// they confirm, so nobody else can book it from under them.
+
+export const createSlotHoldSchema = z.object({
+  date: z.coerce.date(),
+  admissionToken: z.string().optional(),
+});
+
+export function getSlotHoldMinutes(configs: BookingConfigEntry[]): number {
+  return Math.max(1, getConfigNumber(configs, "slot_hold_minutes", 5));
+}
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { getConfigNumber, getWeekRange, type BookingConfigEntry } from "./booking-rules";
+
+// Waitlist for fully booked days and weeks. When a slot frees up it is offered to
+// the first waiting entry that covers it and held for that user for a few minutes;
+// an offer that isn't claimed in time moves on to the next entry.
+
+export const waitlistScopes = ["day", "week"] as const;
+
+export type WaitlistScope = typeof waitlistScopes[number];
+
+export const joinWaitlistSchema = z.object({
+  scope: z.enum(waitlistScopes),
+  date: z.coerce.date(),
+});
+
+// Entry ids for one day in their new order
+export const reorderWaitlistSchema = z.object({
+  entryIds: z.array(z.number().int()).min(1),
+});
+
+export const waitlistStatuses = ["waiting", "offered", "booked", "declined", "expired"] as const;
+
+export type WaitlistStatus = typeof waitlistStatuses[number];
+
+export const waitlistStatusLabels: Record<WaitlistStatus, string> = {
+  waiting: "Waiting",
+  offered: "Slot offered",
+  booked: "Booked",
+  declined: "Declined",
+  expired: "Offer expired",
+};
+
+// Entries still in line; only these can be offered a slot or reordered
+export const openWaitlistStatuses: WaitlistStatus[] = ["waiting", "offered"];
+
+export function getWaitlistOfferMinutes(configs: BookingConfigEntry[]): number {
+  return Math.max(1, getConfigNumber(configs, "waitlist_offer_minutes", 30));
+}
+
+// The day or week an entry waits for, from the start of its first day to the end of its last
+export function getWaitlistPeriod(scope: WaitlistScope, date: Date | string): { start: Date; end: Date } {
+  if (scope === "week") {
+    return getWeekRange(new Date(date));
+  }
+
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setHours(23, 59, 59, 999);
+  return { start, end };
+}
+
+export function coversSlot(entry: { scope: string; date: Date | string }, slot: Date): boolean {
+  const { start, end } = getWaitlistPeriod(entry.scope === "week" ? "week" : "day", entry.date);
+  return slot >= start && slot <= end;
+}